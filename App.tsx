@@ -4,27 +4,50 @@
 */
 import React, { useState, useEffect, useRef } from 'react';
 import { Hero } from './components/Hero';
-import { InputArea } from './components/InputArea';
+import { InputArea, SelectedFile } from './components/InputArea';
 import { LivePreview } from './components/LivePreview';
-import { CreationHistory, Creation } from './components/CreationHistory';
+import { CreationHistory, Creation, CreationSource } from './components/CreationHistory';
 import { OnboardingTour } from './components/OnboardingTour';
 import { AuthModal } from './components/AuthModal';
-import { bringToLife, GenerationMode } from './services/gemini';
+import { BrandKitManager } from './components/BrandKitManager';
+import { ArchiveBrowser } from './components/ArchiveBrowser';
+import { bringToLife, generateVariants, refineCreation, refineFragment, resumeGeneration, fetchPendingJobs, repairHtml, analyzeHtml, isAbortError, GenerationMode, GenerationFile, GeneratedHtml, GenerationReference } from './services/gemini';
+import { GenerationError, toGenerationError } from './services/generation-errors';
+import { prepareFile } from './services/file-preprocessing';
+import { isDataFile, parseDatasetFile } from './services/datasets';
+import { ElementSelection, patchFragment } from './services/inspector';
 import { getCurrentUser, onAuthStateChange, signOut as apiSignOut, AuthUser } from './services/auth-api';
 import { getUserData, updateUserSubscription } from './services/user-api';
 // Save creation only temporarily for payment processing (not for history)
-import { saveCreation } from './services/creations-api';
+import { restoreRevision, RevisionInfo } from './services/revisions-api';
+import type { CreationUpdates } from './services/creations-cache';
+import { fetchCachedCreations, clearCachedCreations, fetchUserCreations, fetchCreation, markCreationOpened, saveCreation, updateCreation, deleteCreation, markCreationAsPurchased, syncCreations, CREATIONS_PAGE_SIZE } from './services/creations-api';
 import { createCheckoutSession, createSubscriptionSession, createOneOffCheckout, createSubscriptionCheckout } from './services/payments';
 import { getCreditBalance, CreditBalance } from './services/credits';
+import { fetchBrandKits, BrandKit } from './services/brand-kits-api';
+import { fetchTemplates, saveTemplate, deleteTemplate, PromptTemplate } from './services/templates-api';
 import { ArrowUpTrayIcon, QuestionMarkCircleIcon, UserIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline';
 
 const FREE_DAILY_LIMIT = 3;
 const PRO_DAILY_LIMIT = 20;
 
+// Merge a page of the server archive into local creations, newest first
+// (local copies win: they keep source files, refinement turns and warnings)
+function mergeCreations(local: Creation[], server: Creation[]): Creation[] {
+  const byId = new Map(server.map((creation) => [creation.id, creation]));
+  for (const creation of local) byId.set(creation.id, creation);
+  return [...byId.values()].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
 const App: React.FC = () => {
   const [activeCreation, setActiveCreation] = useState<Creation | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingHtml, setStreamingHtml] = useState('');
+  // Parallel variants awaiting a pick (shown as a grid in LivePreview)
+  const [variants, setVariants] = useState<Creation[]>([]);
   const [history, setHistory] = useState<Creation[]>([]);
+  // Why the last generation failed (shown as an error panel in LivePreview)
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
 
   // Auth State
@@ -41,7 +64,90 @@ const App: React.FC = () => {
   const [creditBalance, setCreditBalance] = useState<CreditBalance | null>(null);
   const [showInsufficientCreditsModal, setShowInsufficientCreditsModal] = useState(false);
 
+  // Brand Kits (selection remembered across sessions)
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [brandKitId, setBrandKitId] = useState<string | null>(
+    () => localStorage.getItem('fanta_build_brand_kit'),
+  );
+  const [showBrandKitManager, setShowBrandKitManager] = useState(false);
+  const [showArchiveBrowser, setShowArchiveBrowser] = useState(false);
+
+  // Prompt templates (curated + saved by the user)
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+
   const importInputRef = useRef<HTMLInputElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Arguments of the last generation, so a failed one can be retried
+  const lastGenerationRef = useRef<{
+    promptText: string;
+    files: SelectedFile[];
+    mode: GenerationMode;
+    variantCount: number;
+    template: GenerationReference | null;
+  } | null>(null);
+  // Creation that was reused from an identical recent request instead of generated
+  const [cachedCreation, setCachedCreation] = useState<{ id: string; cachedAt?: string } | null>(null);
+
+  // Server archive: ids known to be saved (or queued while offline), saves still in flight and
+  // the cursor of the next page
+  const historyRef = useRef<Creation[]>([]);
+  const exampleIdsRef = useRef<Set<string>>(new Set());
+  const savedIdsRef = useRef<Set<string>>(new Set());
+  const pendingSavesRef = useRef<Map<string, Promise<boolean>>>(new Map());
+  const archiveCursorRef = useRef<string | null>(null);
+  const [archiveHasMore, setArchiveHasMore] = useState(false);
+  const [isLoadingMoreCreations, setIsLoadingMoreCreations] = useState(false);
+  // Showing the offline copy of the archive; changes are queued until the connection returns
+  const [isOffline, setIsOffline] = useState(() => !navigator.onLine);
+
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+
+  // Record the revision number and timestamp the server gave a creation's current HTML
+  const stampSaved = (saved: Creation) => {
+    const stamp = (c: Creation) =>
+      c.id === saved.id && c.html === saved.html ? { ...c, revision: saved.revision ?? c.revision, updatedAt: saved.updatedAt } : c;
+    setHistory((prev) => prev.map(stamp));
+    setActiveCreation((prev) => prev && stamp(prev));
+  };
+
+  // Save a new creation to the user's archive; resolves to whether it was saved
+  const persistCreation = React.useCallback((userId: string, creation: Creation) => {
+    const saved = saveCreation(userId, creation, creation.mode || 'web').then(({ creation: stored, queued, error }) => {
+      pendingSavesRef.current.delete(creation.id);
+      if (error) {
+        console.error('Failed to save creation:', error);
+        return false;
+      }
+      if (stored && !queued) stampSaved(stored);
+      savedIdsRef.current.add(creation.id);
+      exampleIdsRef.current.delete(creation.id);
+      return true;
+    });
+    pendingSavesRef.current.set(creation.id, saved);
+    return saved;
+  }, []);
+
+  // Store a creation's latest HTML as a new revision (saving the whole creation if it never
+  // reached the server)
+  const syncCreationHtml = async (userId: string, creation: Creation, revision: RevisionInfo) => {
+    await pendingSavesRef.current.get(creation.id);
+    if (!savedIdsRef.current.has(creation.id)) {
+      await persistCreation(userId, creation);
+      return;
+    }
+    const { creation: stored, error } = await updateCreation(userId, creation.id, { html: creation.html }, revision);
+    if (error) console.error('Failed to save creation changes:', error);
+    if (stored) stampSaved(stored);
+  };
+
+  const savePurchase = (id: string) => {
+    if (!user || !savedIdsRef.current.has(id)) return;
+    markCreationAsPurchased(user.id, id).then(({ error }) => {
+      if (error) console.error('Failed to save purchase:', error);
+    });
+  };
 
   // Load example creations (for unauthenticated users or when user has no creations)
   const loadExamples = React.useCallback(async () => {
@@ -84,6 +190,7 @@ const App: React.FC = () => {
       );
       
       const validExamples = examples.filter((e): e is Creation => e !== null);
+      validExamples.forEach((example) => exampleIdsRef.current.add(example.id));
       setHistory(validExamples);
       
       if (validExamples.length === 0) {
@@ -98,6 +205,58 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Load the first page of the user's archive and reconcile it with the creations in memory.
+  // The offline copy is shown straight away and changes queued while offline are sent first.
+  const loadArchive = React.useCallback(async (userId: string) => {
+    const cached = (await fetchCachedCreations(userId)).slice(0, CREATIONS_PAGE_SIZE);
+    const cachedIds = new Set(cached.map((creation) => creation.id));
+    if (cached.length > 0) {
+      cached.forEach((creation) => savedIdsRef.current.add(creation.id));
+      setHistory((prev) => mergeCreations(prev.filter((creation) => !exampleIdsRef.current.has(creation.id)), cached));
+    }
+
+    // Queued edits that lost to a newer version on the server are replaced by it
+    const { conflicts } = await syncCreations(userId);
+    if (conflicts.length > 0) {
+      setActiveCreation((prev) => conflicts.find((creation) => creation.id === prev?.id) || prev);
+    }
+
+    const { creations, nextCursor, offline, error } = await fetchUserCreations(userId);
+    setIsOffline(offline);
+    if (error) {
+      console.error('Error loading creations:', error);
+      if (historyRef.current.length === 0 && cached.length === 0) await loadExamples();
+      return;
+    }
+
+    creations.forEach((creation) => savedIdsRef.current.add(creation.id));
+    archiveCursorRef.current = nextCursor;
+    setArchiveHasMore(nextCursor !== null);
+
+    // Creations made in this session (examples aren't the user's); retry any that weren't saved
+    const local = historyRef.current.filter(
+      (creation) => !exampleIdsRef.current.has(creation.id) && !cachedIds.has(creation.id),
+    );
+    for (const creation of local) {
+      if (!savedIdsRef.current.has(creation.id) && !pendingSavesRef.current.has(creation.id)) {
+        persistCreation(userId, creation);
+      }
+    }
+
+    // Examples are only shown while the archive is empty
+    if (creations.length === 0 && local.length === 0) {
+      await loadExamples();
+      return;
+    }
+    // The fetched page replaces the offline copy shown above
+    setHistory((prev) =>
+      mergeCreations(
+        prev.filter((creation) => !exampleIdsRef.current.has(creation.id) && !cachedIds.has(creation.id)),
+        creations,
+      ),
+    );
+  }, [loadExamples, persistCreation]);
+
   // Load user data
   const loadUserData = React.useCallback(async (userId: string) => {
     try {
@@ -126,14 +285,13 @@ const App: React.FC = () => {
         console.error('Error loading credit balance:', error);
       }
 
-      // No database storage - only show examples for new users
-      // History is kept in memory only (session-based)
-      await loadExamples();
+      // Saved creations (examples only for users without any)
+      await loadArchive(userId);
     } catch (error) {
       console.error('Error loading user data:', error);
       await loadExamples();
     }
-  }, [loadExamples]);
+  }, [loadExamples, loadArchive]);
 
   // Initialize auth and load data
   useEffect(() => {
@@ -242,16 +400,93 @@ const App: React.FC = () => {
     }
   }, [user]);
 
+  // Load the user's brand kits
+  useEffect(() => {
+    if (!user) {
+      setBrandKits([]);
+      return;
+    }
+
+    fetchBrandKits().then(({ brandKits: kits, error }) => {
+      if (error) {
+        console.error('Error loading brand kits:', error);
+        return;
+      }
+      setBrandKits(kits);
+    });
+  }, [user?.id]);
+
+  // Load prompt templates
+  useEffect(() => {
+    if (!user) {
+      setTemplates([]);
+      return;
+    }
+
+    fetchTemplates().then(({ templates: loaded, error }) => {
+      if (error) {
+        console.error('Error loading templates:', error);
+        return;
+      }
+      setTemplates(loaded);
+    });
+  }, [user?.id]);
+
+  // Remember the selected brand kit
+  useEffect(() => {
+    if (brandKitId) {
+      localStorage.setItem('fanta_build_brand_kit', brandKitId);
+    } else {
+      localStorage.removeItem('fanta_build_brand_kit');
+    }
+  }, [brandKitId]);
+
+  // Track connectivity; when it returns, send queued changes and refresh the archive
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOffline(false);
+      if (user) loadArchive(user.id);
+    };
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [user?.id, loadArchive]);
+
+  // Forget the archive state of a user who signed out, and their offline copy on this device
+  const signedInUserIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (user) {
+      if (signedInUserIdRef.current && signedInUserIdRef.current !== user.id) {
+        void clearCachedCreations(signedInUserIdRef.current);
+      }
+      signedInUserIdRef.current = user.id;
+      return;
+    }
+    savedIdsRef.current.clear();
+    pendingSavesRef.current.clear();
+    archiveCursorRef.current = null;
+    setArchiveHasMore(false);
+    if (signedInUserIdRef.current) {
+      void clearCachedCreations(signedInUserIdRef.current);
+      signedInUserIdRef.current = null;
+    }
+  }, [user?.id]);
+
   // Handle payment success - mark creation as purchased and auto-download
   useEffect(() => {
     const purchasedCreationId = sessionStorage.getItem('purchased_creation_id');
     if (purchasedCreationId && (history.length > 0 || activeCreation)) {
       sessionStorage.removeItem('purchased_creation_id');
       
-      // Mark the creation as purchased in memory
+      // Mark the creation as purchased
       setHistory((prev) => prev.map(c => 
         c.id === purchasedCreationId ? { ...c, purchased: true } : c
       ));
+      savePurchase(purchasedCreationId);
       
       if (activeCreation?.id === purchasedCreationId) {
         setActiveCreation({ ...activeCreation, purchased: true });
@@ -294,26 +529,27 @@ const App: React.FC = () => {
     }
   }, [history, activeCreation]);
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        if (typeof reader.result === 'string') {
-          const base64 = reader.result.split(',')[1];
-          resolve(base64);
-        } else {
-          reject(new Error('Failed to convert file to base64'));
-        }
-      };
-      reader.onerror = (error) => reject(error);
-    });
+  // Name a creation after its first source file, or the start of the prompt
+  const creationName = (promptText: string, fileNames: string[], mode: GenerationMode) =>
+    fileNames.length > 0
+      ? fileNames[0] + (fileNames.length > 1 ? ` +${fileNames.length - 1}` : '')
+      : promptText.slice(0, 20) +
+        (promptText.length > 20 ? '...' : '') ||
+        `New ${mode} creation`;
+
+  const showGenerationError = (error: any) => {
+    setGenerationError(toGenerationError(error));
+    setActiveCreation(null);
+    setVariants([]);
   };
 
   const handleGenerate = async (
     promptText: string,
-    file: File | undefined,
+    files: SelectedFile[],
     mode: GenerationMode,
+    variantCount = 1,
+    regenerate = false,
+    template: GenerationReference | null = null,
   ) => {
     // Require authentication
     if (!user) {
@@ -333,47 +569,133 @@ const App: React.FC = () => {
     // Note: Users can always generate - no limit on generation
     // Payment is only required for downloads after free trials
 
+    lastGenerationRef.current = { promptText, files, mode, variantCount, template };
+    // Regenerating a reused result makes a new revision of that creation
+    const regenerating =
+      regenerate && variantCount === 1 && activeCreation && cachedCreation?.id === activeCreation.id ? activeCreation : null;
     setIsGenerating(true);
+    setStreamingHtml('');
     setActiveCreation(null);
+    setVariants([]);
+    setGenerationError(null);
+    setCachedCreation(null);
+
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
 
     try {
       // All modes (including video) use Gemini API
-      let imageBase64: string | undefined;
-      let mimeType: string | undefined;
-
-      if (file) {
-        imageBase64 = await fileToBase64(file);
-        mimeType = file.type.toLowerCase();
-      }
-
-      // Generate using Gemini API (works for all modes including video)
-      const html = await bringToLife(promptText, imageBase64, mimeType, mode, user.id);
+      // Files are sent in the order the user arranged them: images downscaled / cropped,
+      // selected PDF pages rasterised (one file per page). CSV / JSON files go as datasets.
+      const dataFiles = files.filter((item) => isDataFile(item.file));
+      const mediaFiles = files.filter((item) => !isDataFile(item.file));
+      const datasets = await Promise.all(
+        dataFiles.map(async (item) => ({
+          ...(await parseDatasetFile(item.file)),
+          label: item.label.trim() || undefined,
+        })),
+      );
+      const prepared = await Promise.all(mediaFiles.map((item) => prepareFile(item.file, item)));
+      const generationFiles: GenerationFile[] = prepared.flatMap((parts, i) =>
+        parts.map((part) => {
+          const label = mediaFiles[i].label.trim();
+          return {
+            data: part.data,
+            mimeType: part.mimeType,
+            label: part.page ? `${label || mediaFiles[i].file.name} (page ${part.page})` : label || undefined,
+            name: part.name,
+          };
+        }),
+      );
+      const sourceFiles: CreationSource[] = generationFiles.map((f) => ({
+        dataUrl: `data:${f.mimeType};base64,${f.data}`,
+        name: f.name || '',
+        label: f.label,
+      }));
 
-      // Create creation object in memory only (no database storage)
+      // Every result is saved to the user's archive (see persistCreation)
       // Check if user gets free download: Pro users OR if they have credits
       // For now, all downloads require credits (no free downloads except initial 3 credits)
       const isFreeDownload = false; // All downloads now require credits
-      
-      const newCreation: Creation = {
+      const baseName = creationName(promptText, files.map(({ file }) => file.name), mode);
+      // Ignore a remembered selection whose kit no longer exists
+      const activeBrandKitId = brandKits.some((kit) => kit.id === brandKitId) ? brandKitId : null;
+
+      const toCreation = ({ html, warnings, model, provenance }: GeneratedHtml, name: string): Creation => ({
         id: crypto.randomUUID(),
-        name: file
-          ? file.name
-          : promptText.slice(0, 20) +
-            (promptText.length > 20 ? '...' : '') ||
-            `New ${mode} creation`,
+        name,
         html: html,
-        originalImage:
-          imageBase64 && mimeType
-            ? `data:${mimeType};base64,${imageBase64}`
-            : undefined,
+        warnings,
+        model,
+        provenance,
+        originalImage: sourceFiles[0]?.dataUrl,
+        sourceFiles: sourceFiles.length > 0 ? sourceFiles : undefined,
         timestamp: new Date(),
         purchased: isFreeDownload, // Free for Pro users or first 3 generations
         mode, // Store mode for payment processing
-      };
+      });
+
+      if (variantCount > 1) {
+        // Variants run in parallel on the server; each one counts as a generation
+        const results = await generateVariants(
+          promptText,
+          generationFiles,
+          mode,
+          variantCount,
+          user.id,
+          abortController.signal,
+          activeBrandKitId,
+          datasets,
+          template,
+        );
+        const variantCreations = results.map((result, i) =>
+          toCreation(result, `${baseName} (Variant ${String.fromCharCode(65 + i)})`),
+        );
+
+        setVariants(variantCreations);
+        // All variants go to the archive; the promoted one becomes active
+        setHistory((prev) => [...variantCreations, ...prev]);
+        variantCreations.forEach((creation) => persistCreation(user.id, creation));
+      } else {
+        // Generate using Gemini API (works for all modes including video)
+        // Partial HTML is streamed into the preview as it arrives
+        const result = await bringToLife(
+          promptText,
+          generationFiles,
+          mode,
+          user.id,
+          setStreamingHtml,
+          abortController.signal,
+          activeBrandKitId,
+          regenerate,
+          datasets,
+          template,
+        );
+        const newCreation: Creation = regenerating
+          ? {
+              ...regenerating,
+              html: result.html,
+              warnings: result.warnings,
+              model: result.model,
+              provenance: result.provenance || regenerating.provenance,
+              revision: (regenerating.revision || 1) + 1,
+            }
+          : toCreation(result, baseName);
 
-      setActiveCreation(newCreation);
-      // Keep in session memory only (not persisted to database)
-      setHistory((prev) => [newCreation, ...prev]);
+        setActiveCreation(newCreation);
+        if (regenerating) {
+          setHistory((prev) => prev.map((c) => (c.id === newCreation.id ? newCreation : c)));
+          syncCreationHtml(user.id, newCreation, { kind: 'regeneration', model: result.model });
+        } else {
+          setHistory((prev) => [newCreation, ...prev]);
+          persistCreation(user.id, newCreation);
+        }
+        if (result.cached) {
+          // Reused results aren't counted, so usage is unchanged
+          setCachedCreation({ id: newCreation.id, cachedAt: result.cachedAt });
+          return;
+        }
+      }
 
       // Usage is incremented on backend, refresh user data
       const { user: updatedUser } = await getUserData(user.id);
@@ -381,78 +703,356 @@ const App: React.FC = () => {
         setDailyUsage(updatedUser.daily_usage_count);
       }
     } catch (error: any) {
+      // Cancelled by the user: nothing to report, the server doesn't count it
+      if (isAbortError(error) || abortController.signal.aborted) return;
+
       console.error('Failed to generate:', error);
-      
-      // Check if it's a quota error
-      const isQuotaError = error.message?.includes('quota') || error.message?.includes('Quota');
-      
-      const errorHtml = `
-        <!DOCTYPE html>
-        <html>
-        <body style="background:#09090b; color:#f87171; font-family:sans-serif; display:flex; flex-direction:column; align-items:center; justify-content:center; height:100vh; margin:0;">
-            <div style="text-align:center; max-width:600px; padding:40px; border:1px solid #27272a; border-radius:12px; background:#18181b;">
-                <h2 style="margin-bottom:10px; color:#ef4444;">${isQuotaError ? 'API Quota Exceeded' : 'System Error'}</h2>
-                <p style="color:#a1a1aa; margin-bottom:20px;">
-                  ${isQuotaError 
-                    ? 'The AI service quota has been exceeded. Please check your Google Cloud billing and quota limits.'
-                    : 'The application encountered an unexpected error.'}
-                </p>
-                ${isQuotaError ? `
-                <div style="background:#27272a; padding:15px; border-radius:8px; margin-bottom:20px; border:1px solid #3f3f46;">
-                  <p style="color:#e4e4e7; font-size:14px; margin-bottom:10px;">What to do:</p>
-                  <ul style="color:#a1a1aa; font-size:12px; text-align:left; list-style-position:inside;">
-                    <li>Check your Google Cloud Console for quota limits</li>
-                    <li>Verify your billing is active</li>
-                    <li>Request a quota increase if needed</li>
-                    <li>Try again later when quota resets</li>
-                  </ul>
-                  <a href="https://ai.google.dev/gemini-api/docs/rate-limits" target="_blank" style="color:#f97316; text-decoration:underline; font-size:12px; margin-top:10px; display:inline-block;">Learn more about rate limits</a>
-                </div>
-                ` : ''}
-                <div style="background:#27272a; padding:15px; border-radius:8px; overflow:auto; text-align:left; max-height:200px; margin-bottom:20px; border:1px solid #3f3f46;">
-                    <code style="color:#e4e4e7; font-size:12px;">${
-                      error.message || String(error)
-                    }</code>
-                </div>
-            </div>
-        </body>
-        </html>
-      `;
-      setActiveCreation({
-        id: 'error-report',
-        name: 'Error Report',
-        html: errorHtml,
-        timestamp: new Date(),
-        purchased: true,
-      } as Creation);
+      showGenerationError(error);
     } finally {
-      setIsGenerating(false);
+      // A cancelled run may already have been replaced by a newer one
+      if (generationAbortRef.current === abortController) {
+        generationAbortRef.current = null;
+        setIsGenerating(false);
+        setStreamingHtml('');
+      }
+    }
+  };
+
+  // Re-attach to a generation that was still running (or finished unseen) when the page was reloaded
+  useEffect(() => {
+    if (!user || isLoadingAuth) return;
+    let abortController: AbortController | null = null;
+    let ignore = false;
+
+    const resumePendingJob = async () => {
+      try {
+        const [job] = await fetchPendingJobs();
+        if (!job || ignore || generationAbortRef.current) return;
+
+        abortController = new AbortController();
+        generationAbortRef.current = abortController;
+        lastGenerationRef.current = null;
+        setIsGenerating(true);
+        setStreamingHtml('');
+        setActiveCreation(null);
+        setVariants([]);
+        setGenerationError(null);
+
+        const { html, warnings, model, provenance } = await resumeGeneration(job.id, setStreamingHtml, abortController.signal);
+        const creation: Creation = {
+          id: crypto.randomUUID(),
+          name: creationName(job.prompt, job.fileNames, job.mode),
+          html,
+          warnings,
+          model,
+          provenance,
+          timestamp: new Date(job.createdAt),
+          purchased: false,
+          mode: job.mode,
+        };
+
+        setActiveCreation(creation);
+        setHistory((prev) => [creation, ...prev]);
+        persistCreation(user.id, creation);
+
+        const { user: updatedUser } = await getUserData(user.id);
+        if (updatedUser) {
+          setDailyUsage(updatedUser.daily_usage_count);
+        }
+      } catch (error: any) {
+        if (isAbortError(error) || abortController?.signal.aborted) return;
+        console.error('Failed to resume generation:', error);
+        if (abortController) showGenerationError(error);
+      } finally {
+        if (abortController && generationAbortRef.current === abortController) {
+          generationAbortRef.current = null;
+          setIsGenerating(false);
+          setStreamingHtml('');
+        }
+      }
+    };
+
+    resumePendingJob();
+
+    return () => {
+      // Don't re-attach for a user who has signed out in the meantime
+      ignore = true;
+    };
+  }, [user?.id, isLoadingAuth]);
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    setIsGenerating(false);
+    setStreamingHtml('');
+    setActiveCreation(null);
+    setVariants([]);
+  };
+
+  // Make one variant the active creation; the others stay in the archive
+  const handlePromoteVariant = (creation: Creation) => {
+    setVariants([]);
+    setActiveCreation(creation);
+    setHistory((prev) => [creation, ...prev.filter((c) => c.id !== creation.id)]);
+  };
+
+  // Apply a follow-up instruction to the active creation, producing a new revision
+  const handleRefine = async (instruction: string) => {
+    if (!user) {
+      setShowAuthModal(true);
+      return;
+    }
+    if (!activeCreation) return;
+
+    const turns = activeCreation.turns || [];
+    const { html, warnings, model } = await refineCreation(
+      activeCreation.html,
+      instruction,
+      activeCreation.mode || 'web',
+      turns,
+      user.id,
+    );
+
+    const refined: Creation = {
+      ...activeCreation,
+      html,
+      warnings,
+      model,
+      revision: (activeCreation.revision || 1) + 1,
+      turns: [...turns, { instruction, timestamp: new Date() }],
+    };
+
+    setActiveCreation(refined);
+    setHistory((prev) => prev.map((c) => (c.id === refined.id ? refined : c)));
+    syncCreationHtml(user.id, refined, { kind: 'refinement', instruction, model });
+
+    // Refinements count toward daily usage, refresh user data
+    const { user: updatedUser } = await getUserData(user.id);
+    if (updatedUser) {
+      setDailyUsage(updatedUser.daily_usage_count);
+    }
+  };
+
+  // Click-to-edit: rewrite one element of the active creation and patch it into the document
+  const handleRefineElement = async (selection: ElementSelection, instruction: string) => {
+    if (!user) {
+      setShowAuthModal(true);
+      return;
+    }
+    if (!activeCreation) return;
+
+    const mode = activeCreation.mode || 'web';
+    const { fragment, model } = await refineFragment(selection.outerHTML, instruction, selection.selector, mode);
+    const html = patchFragment(activeCreation.html, selection.selector, fragment);
+    // The old warnings were about the document before the patch
+    const warnings = await analyzeHtml(html, mode).catch((error) => {
+      console.warn('Could not check the edited document:', error);
+      return undefined;
+    });
+
+    const refined: Creation = {
+      ...activeCreation,
+      html,
+      warnings,
+      model: model || activeCreation.model,
+      revision: (activeCreation.revision || 1) + 1,
+      turns: [...(activeCreation.turns || []), { instruction, selector: selection.selector, timestamp: new Date() }],
+    };
+
+    setActiveCreation(refined);
+    setHistory((prev) => prev.map((c) => (c.id === refined.id ? refined : c)));
+    syncCreationHtml(user.id, refined, { kind: 'edit', instruction, model });
+
+    // Element edits count toward daily usage, refresh user data
+    const { user: updatedUser } = await getUserData(user.id);
+    if (updatedUser) {
+      setDailyUsage(updatedUser.daily_usage_count);
     }
   };
 
+  const handleSaveTemplate = async (name: string, body: string, mode: GenerationMode) => {
+    const { template, error } = await saveTemplate(name, body, mode);
+    if (error || !template) throw new Error(error || 'Failed to save template');
+    // Curated templates stay first, newest saved template after them
+    setTemplates((prev) => [...prev.filter((t) => t.curated), template, ...prev.filter((t) => !t.curated)]);
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    const { error } = await deleteTemplate(id);
+    if (error) throw new Error(error);
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  // Fix the active creation's HTML structure (no model call, not counted as usage)
+  const handleRepair = async () => {
+    if (!activeCreation) return;
+
+    const { html, warnings } = await repairHtml(activeCreation.html, activeCreation.mode);
+    const repaired: Creation = { ...activeCreation, html, warnings, revision: (activeCreation.revision || 1) + 1 };
+
+    setActiveCreation(repaired);
+    setHistory((prev) => prev.map((c) => (c.id === repaired.id ? repaired : c)));
+    if (user) syncCreationHtml(user.id, repaired, { kind: 'repair' });
+  };
+
+  // Make a saved revision of the active creation current again (the server appends it as a new revision)
+  const handleRestoreRevision = async (revision: number) => {
+    if (!activeCreation) return;
+
+    const { restored, error } = await restoreRevision(activeCreation.id, revision);
+    if (error || !restored) throw new Error(error || 'Failed to restore revision');
+
+    const updated: Creation = {
+      ...activeCreation,
+      html: restored.html,
+      warnings: restored.warnings,
+      revision: restored.revision,
+      updatedAt: restored.updatedAt,
+    };
+    setActiveCreation(updated);
+    setHistory((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+  };
+
   const handleReset = () => {
+    if (isGenerating) {
+      handleCancelGeneration();
+      return;
+    }
     setActiveCreation(null);
+    setVariants([]);
     setIsGenerating(false);
+    setGenerationError(null);
+  };
+
+  // Re-run the generation that failed
+  const handleRetryGeneration = () => {
+    const last = lastGenerationRef.current;
+    if (last) handleGenerate(last.promptText, last.files, last.mode, last.variantCount, false, last.template);
   };
 
-  const handleSelectCreation = (creation: Creation) => setActiveCreation(creation);
+  // Generate the reused result again, skipping the server's cache
+  const handleRegenerate = () => {
+    const last = lastGenerationRef.current;
+    if (last) handleGenerate(last.promptText, last.files, last.mode, last.variantCount, true, last.template);
+  };
+
+  // The session expired mid-generation: clear it and ask the user to sign in again
+  const handleSignInAgain = async () => {
+    await handleSignOut();
+    setShowAuthModal(true);
+  };
 
-  const handleDeleteCreation = async (id: string) => {
-    if (window.confirm('Delete this creation?')) {
-      // Only delete from memory (no database storage)
-      setHistory((prev) => prev.filter((c) => c.id !== id));
-      if (activeCreation?.id === id) setActiveCreation(null);
+  // Listed creations are summaries: their HTML is fetched when they're opened
+  const handleSelectCreation = async (creation: Creation) => {
+    setGenerationError(null);
+    if (!creation.partial || !user) {
+      if (user) void markCreationOpened(user.id, creation.id);
+      setActiveCreation(creation);
+      return;
+    }
+
+    const { creation: full, error } = await fetchCreation(user.id, creation.id);
+    if (!full) {
+      alert(`Failed to open creation: ${error}`);
+      return;
+    }
+    setHistory((prev) => prev.map((c) => (c.id === full.id ? full : c)));
+    setActiveCreation(full);
+  };
+
+  // Open a creation found in the archive browser (it may be older than the pages loaded so far)
+  const handleOpenFromArchive = (creation: Creation) => {
+    const loaded = history.find((c) => c.id === creation.id);
+    if (!loaded) {
+      savedIdsRef.current.add(creation.id);
+      setHistory((prev) => mergeCreations(prev, [creation]));
+    }
+    setShowArchiveBrowser(false);
+    handleSelectCreation(loaded || creation);
+  };
+
+  // Returns whether the creation was deleted
+  const handleDeleteCreation = async (id: string): Promise<boolean> => {
+    if (!window.confirm('Delete this creation?')) return false;
+
+    await pendingSavesRef.current.get(id);
+    if (user && savedIdsRef.current.has(id)) {
+      const { error } = await deleteCreation(user.id, id);
+      if (error) {
+        alert(`Failed to delete creation: ${error}`);
+        return false;
+      }
+      savedIdsRef.current.delete(id);
+    }
+    setHistory((prev) => prev.filter((c) => c.id !== id));
+    setVariants((prev) => prev.filter((c) => c.id !== id));
+    if (activeCreation?.id === id) setActiveCreation(null);
+    return true;
+  };
+
+  // Tag a creation or move it to another folder
+  const handleOrganizeCreation = async (creation: Creation, updates: CreationUpdates): Promise<{ error: any }> => {
+    if (!user) return { error: 'Sign in to organise your archive' };
+
+    await pendingSavesRef.current.get(creation.id);
+    if (!savedIdsRef.current.has(creation.id) && history.some((c) => c.id === creation.id)) {
+      return { error: 'This creation is not saved to your archive yet' };
+    }
+    const { error } = await updateCreation(user.id, creation.id, updates);
+    if (error) return { error };
+
+    const organize = (c: Creation) => (c.id === creation.id ? { ...c, ...updates } : c);
+    setHistory((prev) => prev.map(organize));
+    setVariants((prev) => prev.map(organize));
+    setActiveCreation((prev) => prev && organize(prev));
+    return { error: null };
+  };
+
+  const handleRenameCreation = async (id: string) => {
+    const creation = history.find((c) => c.id === id);
+    const name = creation && window.prompt('Rename creation', creation.name)?.trim();
+    if (!creation || !name || name === creation.name) return;
+
+    const rename = (c: Creation) => (c.id === id ? { ...c, name } : c);
+    setHistory((prev) => prev.map(rename));
+    setVariants((prev) => prev.map(rename));
+    setActiveCreation((prev) => prev && rename(prev));
+
+    await pendingSavesRef.current.get(id);
+    if (user && savedIdsRef.current.has(id)) {
+      const { error } = await updateCreation(user.id, id, { name });
+      if (error) console.error('Failed to rename creation:', error);
     }
   };
 
   const handleMarkPurchased = (id: string) => {
-    // Mark creation as purchased in state
+    // Mark creation as purchased in state and in the archive
     setHistory((prev) => prev.map(c => c.id === id ? { ...c, purchased: true } : c));
+    savePurchase(id);
     if (activeCreation?.id === id) {
       setActiveCreation({ ...activeCreation, purchased: true });
     }
   };
 
+  // Next page of the archive (older creations)
+  const handleLoadMoreCreations = async () => {
+    if (!user || isLoadingMoreCreations) return;
+
+    setIsLoadingMoreCreations(true);
+    const { creations, nextCursor, offline, error } = await fetchUserCreations(user.id, { cursor: archiveCursorRef.current });
+    setIsLoadingMoreCreations(false);
+    setIsOffline(offline);
+    if (error) {
+      console.error('Error loading more creations:', error);
+      return;
+    }
+
+    creations.forEach((creation) => savedIdsRef.current.add(creation.id));
+    archiveCursorRef.current = nextCursor;
+    setArchiveHasMore(nextCursor !== null);
+    setHistory((prev) => mergeCreations(prev, creations));
+  };
+
   const handleUpgradeToPro = async () => {
     if (!user) {
       setShowAuthModal(true);
@@ -522,11 +1122,17 @@ const App: React.FC = () => {
             timestamp: new Date(parsed.timestamp || Date.now()),
             id: parsed.id || crypto.randomUUID(),
             purchased: parsed.purchased || false,
+            turns: parsed.turns?.map((turn: any) => ({
+              ...turn,
+              timestamp: new Date(turn.timestamp),
+            })),
           };
           setHistory((prev) => {
             const exists = prev.some((c) => c.id === importedCreation.id);
             return exists ? prev : [importedCreation, ...prev];
           });
+          if (user && !savedIdsRef.current.has(importedCreation.id)) persistCreation(user.id, importedCreation);
+          setGenerationError(null);
           setActiveCreation(importedCreation);
         }
       } catch (err) {
@@ -591,7 +1197,9 @@ const App: React.FC = () => {
       setDailyUsage(0);
       setCreditBalance(null);
       setActiveCreation(null);
+      setVariants([]);
       setIsGenerating(false);
+      setGenerationError(null);
       await loadExamples();
     } catch (error) {
       console.error('Sign out error:', error);
@@ -638,8 +1246,9 @@ const App: React.FC = () => {
     }
   };
 
-  const isFocused = !!activeCreation || isGenerating;
+  const isFocused = !!activeCreation || isGenerating || variants.length > 0 || !!generationError;
   const currentLimit = isPro ? PRO_DAILY_LIMIT : FREE_DAILY_LIMIT;
+  const remainingGenerations = Math.max(0, currentLimit - dailyUsage);
 
   // Show loading state while initializing
   if (isLoadingAuth) {
@@ -665,6 +1274,31 @@ const App: React.FC = () => {
         onClose={() => setShowAuthModal(false)}
         onSuccess={handleAuthSuccess}
       />
+      <BrandKitManager
+        isOpen={showBrandKitManager}
+        onClose={() => setShowBrandKitManager(false)}
+        brandKits={brandKits}
+        onSaved={(kit) => {
+          setBrandKits((prev) =>
+            [...prev.filter((k) => k.id !== kit.id), kit].sort((a, b) => a.name.localeCompare(b.name)),
+          );
+          setBrandKitId(kit.id);
+        }}
+        onDeleted={(id) => {
+          setBrandKits((prev) => prev.filter((k) => k.id !== id));
+          if (brandKitId === id) setBrandKitId(null);
+        }}
+      />
+      {user && (
+        <ArchiveBrowser
+          isOpen={showArchiveBrowser}
+          onClose={() => setShowArchiveBrowser(false)}
+          userId={user.id}
+          onOpen={handleOpenFromArchive}
+          onUpdate={handleOrganizeCreation}
+          onDelete={handleDeleteCreation}
+        />
+      )}
       <div className="fixed inset-0 bg-[#050505] z-0"></div>
       <div className="fixed inset-0 bg-tech-grid z-0 opacity-40 pointer-events-none"></div>
       <div className="fixed top-[-20%] left-1/2 -translate-x-1/2 w-[800px] h-[600px] bg-orange-600/20 rounded-full blur-[120px] pointer-events-none fanta-glow z-0 mix-blend-screen"></div>
@@ -744,6 +1378,15 @@ const App: React.FC = () => {
               onGenerate={handleGenerate}
               isGenerating={isGenerating}
               disabled={isFocused || limitReached}
+              maxVariants={remainingGenerations}
+              brandKits={brandKits}
+              brandKitId={brandKits.some((kit) => kit.id === brandKitId) ? brandKitId : null}
+              onBrandKitChange={setBrandKitId}
+              onManageBrandKits={user ? () => setShowBrandKitManager(true) : undefined}
+              templates={templates}
+              onSaveTemplate={user ? handleSaveTemplate : undefined}
+              onDeleteTemplate={user ? handleDeleteTemplate : undefined}
+              lastResultReused={cachedCreation !== null}
             />
             <div className="mt-3 sm:mt-4 flex items-center space-x-2 flex-wrap justify-center gap-2">
               {user && creditBalance !== null ? (
@@ -793,6 +1436,12 @@ const App: React.FC = () => {
               history={history}
               onSelect={handleSelectCreation}
               onDelete={handleDeleteCreation}
+              onRename={handleRenameCreation}
+              offline={Boolean(user) && isOffline}
+              hasMore={archiveHasMore}
+              isLoadingMore={isLoadingMoreCreations}
+              onLoadMore={handleLoadMoreCreations}
+              onBrowse={user ? () => setShowArchiveBrowser(true) : undefined}
             />
           </div>
           <div className="flex items-center space-x-3 sm:space-x-4 px-2">
@@ -811,14 +1460,28 @@ const App: React.FC = () => {
       </div>
 
       {/* 🔒 Only mount LivePreview when needed */}
-      {(isGenerating || activeCreation) && (
+      {(isGenerating || activeCreation || variants.length > 0 || generationError) && (
         <LivePreview
           creation={activeCreation}
+          variants={variants}
+          onPromoteVariant={handlePromoteVariant}
           isLoading={isGenerating}
+          streamingHtml={streamingHtml}
           isFocused={isFocused}
           onReset={handleReset}
+          onCancel={handleCancelGeneration}
           onPurchase={handlePurchase}
           onMarkPurchased={handleMarkPurchased}
+          onRefine={handleRefine}
+          onRefineElement={handleRefineElement}
+          onRestoreRevision={user ? handleRestoreRevision : undefined}
+          onRepair={handleRepair}
+          error={generationError}
+          onRetry={lastGenerationRef.current ? handleRetryGeneration : undefined}
+          cachedAt={cachedCreation && cachedCreation.id === activeCreation?.id ? cachedCreation.cachedAt ?? '' : null}
+          onRegenerate={lastGenerationRef.current ? handleRegenerate : undefined}
+          onSignIn={handleSignInAgain}
+          onUpgrade={handleGoPro}
         />
       )}
 
@@ -12,13 +12,14 @@ import {
   ArrowPathIcon,
   ShieldCheckIcon,
 } from '@heroicons/react/24/outline';
-import { getAnalytics, getAllUsers, getAllCreations, updateUserRole, updateUserSubscription, deleteUser, deleteCreation } from '../services/admin-api';
-import type { Analytics, AdminUser, AdminCreation } from '../services/admin-api';
+import { getAnalytics, getModelUsage, getAllUsers, getAllCreations, updateUserRole, updateUserSubscription, deleteUser, deleteCreation } from '../services/admin-api';
+import type { Analytics, ModelUsage, AdminUser, AdminCreation } from '../services/admin-api';
 import { getCurrentUser, signOut } from '../services/auth-api';
 
 export const AdminDashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'creations'>('overview');
   const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [modelUsage, setModelUsage] = useState<ModelUsage | null>(null);
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [creations, setCreations] = useState<AdminCreation[]>([]);
   const [loading, setLoading] = useState(true);
@@ -72,6 +73,8 @@ export const AdminDashboard: React.FC = () => {
 
     try {
       if (activeTab === 'overview') {
+        // Model usage is optional: a failure here doesn't block the overview
+        getModelUsage().then(({ data }) => setModelUsage(data));
         const { data, error: analyticsError } = await getAnalytics();
         if (analyticsError) {
           // Check if it's an auth error
@@ -297,6 +300,56 @@ export const AdminDashboard: React.FC = () => {
               />
             </div>
 
+            {/* Model usage: how often generations needed the fallback model */}
+            {modelUsage && (
+              <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6">
+                <div className="flex items-baseline justify-between mb-4">
+                  <h2 className="text-lg font-semibold">Model Fallback</h2>
+                  <span className="text-xs text-zinc-500">Last {modelUsage.days} days</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                  <div>
+                    <div className="text-2xl font-bold">{(modelUsage.fallbackRate * 100).toFixed(1)}%</div>
+                    <div className="text-xs text-zinc-500">Fallback rate</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{modelUsage.fallbackCalls}</div>
+                    <div className="text-xs text-zinc-500">of {modelUsage.totalCalls} calls used the fallback</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{modelUsage.retriedCalls}</div>
+                    <div className="text-xs text-zinc-500">calls needed retries</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{modelUsage.totalRetries}</div>
+                    <div className="text-xs text-zinc-500">retries in total</div>
+                  </div>
+                </div>
+                {modelUsage.models.length > 0 && (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-zinc-500 border-b border-zinc-800">
+                        <th className="py-2 font-medium">Model</th>
+                        <th className="py-2 font-medium">Provider</th>
+                        <th className="py-2 font-medium text-right">Calls</th>
+                        <th className="py-2 font-medium text-right">As fallback</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {modelUsage.models.map((row) => (
+                        <tr key={`${row.provider}:${row.model}`} className="border-b border-zinc-800/50">
+                          <td className="py-2 font-mono text-xs">{row.model}</td>
+                          <td className="py-2 text-zinc-400">{row.provider}</td>
+                          <td className="py-2 text-right">{row.calls}</td>
+                          <td className="py-2 text-right">{row.fallbackCalls}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
             {/* Quick Actions */}
             <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6">
               <h2 className="text-lg font-semibold mb-4">Quick Actions</h2>
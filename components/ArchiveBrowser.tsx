@@ -0,0 +1,511 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  XMarkIcon,
+  MagnifyingGlassIcon,
+  Squares2X2Icon,
+  ListBulletIcon,
+  FolderIcon,
+  FolderPlusIcon,
+  PencilIcon,
+  TrashIcon,
+  TagIcon,
+  CheckBadgeIcon,
+  ArrowPathIcon,
+  ArrowDownTrayIcon,
+} from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { CreationThumbnail } from './CreationThumbnail';
+import type { CreationUpdates } from '../services/creations-cache';
+import { fetchUserCreations, fetchCreationTags, setKeepOffline, CreationFilters, TagCount } from '../services/creations-api';
+import { fetchFolders, saveFolder, deleteFolder, CreationFolder, MAX_FOLDER_NAME_LENGTH } from '../services/folders-api';
+
+interface ArchiveBrowserProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  onOpen: (creation: Creation) => void;
+  onUpdate: (creation: Creation, updates: CreationUpdates) => Promise<{ error: any }>;
+  onDelete: (id: string) => Promise<boolean>; // False when cancelled or it failed
+}
+
+type Layout = 'grid' | 'list';
+
+const MODE_LABELS: Record<NonNullable<Creation['mode']>, string> = {
+  web: 'Web App',
+  mobile: 'Mobile UI',
+  social: 'TikTok/Reels',
+  logo: 'Logo & Brand',
+  video: 'AI Video',
+  slides: 'Slides',
+  email: 'Email',
+  dashboard: 'Dashboard',
+};
+
+const SEARCH_DELAY_MS = 300;
+
+const formatSize = (length: number) => (length < 1024 ? `${length} B` : `${Math.round(length / 1024)} KB`);
+
+const parseTagInput = (value: string) => [...new Set(value.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+const SidebarButton: React.FC<{ active: boolean; onClick: () => void; label: string; count?: number }> = ({ active, onClick, label, count }) => (
+  <button
+    onClick={onClick}
+    className={`flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded-md text-xs text-left transition-colors ${
+      active ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50'
+    }`}
+  >
+    <FolderIcon className="w-3.5 h-3.5 flex-shrink-0" />
+    <span className="truncate">{label}</span>
+    {count !== undefined && <span className="ml-auto text-[10px] font-mono text-zinc-600">{count}</span>}
+  </button>
+);
+
+/**
+ * The whole archive in one place: full-text search, filters by mode, purchase state, tag and
+ * folder, in a grid or list. Creations can be tagged, filed, opened and deleted from here.
+ */
+export const ArchiveBrowser: React.FC<ArchiveBrowserProps> = ({ isOpen, onClose, userId, onOpen, onUpdate, onDelete }) => {
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<CreationFilters>({});
+  const [layout, setLayout] = useState<Layout>('grid');
+  const [creations, setCreations] = useState<Creation[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [offline, setOffline] = useState(false);
+  const [folders, setFolders] = useState<CreationFolder[]>([]);
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Ignores answers to superseded searches
+  const requestRef = useRef(0);
+  // Escape leaves the tag editor without saving
+  const discardTagsRef = useRef(false);
+
+  const loadSidebar = useCallback(async () => {
+    const [{ folders: loadedFolders }, { tags: loadedTags }] = await Promise.all([fetchFolders(), fetchCreationTags()]);
+    setFolders(loadedFolders);
+    setTags(loadedTags);
+  }, []);
+
+  // The first page (cursor null) replaces the results, later ones are appended
+  const loadPage = useCallback(async (cursor: string | null) => {
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    const result = await fetchUserCreations(userId, { cursor, filters });
+    if (request !== requestRef.current) return;
+
+    setIsLoading(false);
+    setOffline(result.offline);
+    setError(result.error);
+    setNextCursor(result.nextCursor);
+    setCreations((prev) => (cursor === null ? result.creations : [...prev, ...result.creations]));
+  }, [userId, filters]);
+
+  useEffect(() => {
+    if (isOpen) loadSidebar();
+  }, [isOpen, loadSidebar]);
+
+  useEffect(() => {
+    if (isOpen) loadPage(null);
+  }, [isOpen, loadPage]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setFilters((prev) => (prev.search === (searchInput.trim() || undefined) ? prev : { ...prev, search: searchInput.trim() || undefined }));
+    }, SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setEditingTagsId(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const setFilter = (changes: Partial<CreationFilters>) => setFilters((prev) => ({ ...prev, ...changes }));
+
+  const applyUpdate = async (creation: Creation, updates: CreationUpdates) => {
+    setError(null);
+    const { error: updateError } = await onUpdate(creation, updates);
+    if (updateError) {
+      setError(updateError);
+      return;
+    }
+    // Drop it from the view when it no longer matches the filters
+    const updated = { ...creation, ...updates };
+    const leavesView =
+      (filters.tag && !updated.tags?.includes(filters.tag)) ||
+      (filters.folderId === 'none' ? Boolean(updated.folderId) : filters.folderId && updated.folderId !== filters.folderId);
+    setCreations((prev) => (leavesView ? prev.filter((c) => c.id !== creation.id) : prev.map((c) => (c.id === creation.id ? updated : c))));
+    loadSidebar();
+  };
+
+  const handleSaveTags = async (creation: Creation) => {
+    setEditingTagsId(null);
+    if (discardTagsRef.current) {
+      discardTagsRef.current = false;
+      return;
+    }
+    const next = parseTagInput(tagDraft);
+    if (next.join(',') !== (creation.tags || []).join(',')) await applyUpdate(creation, { tags: next });
+  };
+
+  const handleToggleOffline = async (creation: Creation) => {
+    setError(null);
+    const { creation: marked, error: markError } = await setKeepOffline(userId, creation, !creation.keepOffline);
+    if (markError) setError(markError);
+    setCreations((prev) => prev.map((c) => (c.id === creation.id ? marked : c)));
+  };
+
+  const handleDelete = async (creation: Creation) => {
+    if (!(await onDelete(creation.id))) return;
+    setCreations((prev) => prev.filter((c) => c.id !== creation.id));
+    loadSidebar();
+  };
+
+  const handleNewFolder = async () => {
+    const name = window.prompt('Folder name')?.trim();
+    if (!name) return;
+    const { folder, error: saveError } = await saveFolder(name.slice(0, MAX_FOLDER_NAME_LENGTH));
+    if (saveError || !folder) {
+      setError(saveError || 'Failed to create folder');
+      return;
+    }
+    setFolders((prev) => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const handleRenameFolder = async (folder: CreationFolder) => {
+    const name = window.prompt('Rename folder', folder.name)?.trim();
+    if (!name || name === folder.name) return;
+    const { folder: renamed, error: saveError } = await saveFolder(name.slice(0, MAX_FOLDER_NAME_LENGTH), folder.id);
+    if (saveError || !renamed) {
+      setError(saveError || 'Failed to rename folder');
+      return;
+    }
+    setFolders((prev) =>
+      prev.map((f) => (f.id === folder.id ? { ...f, name: renamed.name } : f)).sort((a, b) => a.name.localeCompare(b.name)),
+    );
+  };
+
+  const handleDeleteFolder = async (folder: CreationFolder) => {
+    if (!window.confirm(`Delete the "${folder.name}" folder? Its creations stay in your archive.`)) return;
+    const { error: deleteError } = await deleteFolder(folder.id);
+    if (deleteError) {
+      setError(deleteError);
+      return;
+    }
+    setFolders((prev) => prev.filter((f) => f.id !== folder.id));
+    setCreations((prev) => prev.map((c) => (c.folderId === folder.id ? { ...c, folderId: null } : c)));
+    if (filters.folderId === folder.id) setFilter({ folderId: undefined });
+  };
+
+  const folderName = (id?: string | null) => folders.find((folder) => folder.id === id)?.name;
+
+  const renderTags = (creation: Creation) =>
+    editingTagsId === creation.id ? (
+      <input
+        autoFocus
+        value={tagDraft}
+        onChange={(e) => setTagDraft(e.target.value)}
+        onBlur={() => handleSaveTags(creation)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') discardTagsRef.current = true;
+          if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+        }}
+        onClick={(e) => e.stopPropagation()}
+        placeholder="landing, client-x"
+        className="w-full bg-zinc-950 border border-zinc-700 rounded px-1.5 py-0.5 text-[11px] text-zinc-200 focus:outline-none focus:border-orange-500"
+      />
+    ) : (
+      <div className="flex flex-wrap items-center gap-1">
+        {(creation.tags || []).map((tag) => (
+          <button
+            key={tag}
+            onClick={(e) => {
+              e.stopPropagation();
+              setFilter({ tag });
+            }}
+            className="px-1.5 py-0.5 rounded bg-zinc-800 text-[10px] text-zinc-400 hover:text-zinc-100"
+          >
+            #{tag}
+          </button>
+        ))}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setEditingTagsId(creation.id);
+            setTagDraft((creation.tags || []).join(', '));
+          }}
+          className="p-0.5 text-zinc-600 hover:text-zinc-300"
+          title="Edit tags (comma separated)"
+        >
+          <TagIcon className="w-3 h-3" />
+        </button>
+      </div>
+    );
+
+  const renderActions = (creation: Creation) => (
+    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      <select
+        value={creation.folderId || ''}
+        onChange={(e) => applyUpdate(creation, { folderId: e.target.value || null })}
+        className="max-w-[7rem] bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] text-zinc-400 focus:outline-none"
+        title="Move to folder"
+      >
+        <option value="">Unfiled</option>
+        {folders.map((folder) => (
+          <option key={folder.id} value={folder.id}>{folder.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => handleToggleOffline(creation)}
+        className={`p-1 rounded ${creation.keepOffline ? 'text-orange-400' : 'text-zinc-600 hover:text-zinc-300'}`}
+        title={creation.keepOffline ? 'Kept offline on this device (click to stop)' : 'Keep offline on this device'}
+      >
+        <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={() => handleDelete(creation)}
+        className="p-1 text-zinc-600 hover:text-red-500 rounded"
+        title="Delete"
+      >
+        <TrashIcon className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-zinc-800">
+          <span className="font-semibold text-zinc-100 mr-2">Archive</span>
+          <div className="relative flex-1 min-w-[12rem]">
+            <MagnifyingGlassIcon className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
+            <input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search names, prompts and page text"
+              className="w-full bg-zinc-950 border border-zinc-800 rounded-md pl-8 pr-2 py-1.5 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-orange-500"
+            />
+          </div>
+          <select
+            value={filters.mode || ''}
+            onChange={(e) => setFilter({ mode: (e.target.value || undefined) as Creation['mode'] })}
+            className="bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-300 focus:outline-none"
+          >
+            <option value="">All modes</option>
+            {Object.entries(MODE_LABELS).map(([mode, label]) => (
+              <option key={mode} value={mode}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.purchased === undefined ? '' : String(filters.purchased)}
+            onChange={(e) => setFilter({ purchased: e.target.value === '' ? undefined : e.target.value === 'true' })}
+            className="bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-300 focus:outline-none"
+          >
+            <option value="">Any status</option>
+            <option value="true">Purchased</option>
+            <option value="false">Not purchased</option>
+          </select>
+          <div className="flex rounded-md border border-zinc-800 overflow-hidden">
+            {([['grid', Squares2X2Icon], ['list', ListBulletIcon]] as const).map(([option, Icon]) => (
+              <button
+                key={option}
+                onClick={() => setLayout(option)}
+                className={`p-1.5 ${layout === option ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-200'}`}
+                title={option === 'grid' ? 'Grid' : 'List'}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="ml-1 text-zinc-500 hover:text-white transition-colors" title="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          {/* Folders and tags */}
+          <div className="hidden sm:flex w-56 flex-shrink-0 flex-col gap-4 p-3 border-r border-zinc-800 overflow-y-auto">
+            <div>
+              <div className="flex items-center justify-between px-2 mb-1">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">Folders</span>
+                <button onClick={handleNewFolder} className="text-zinc-500 hover:text-zinc-200" title="New folder">
+                  <FolderPlusIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex flex-col gap-0.5">
+                <SidebarButton active={!filters.folderId} onClick={() => setFilter({ folderId: undefined })} label="All creations" />
+                <SidebarButton active={filters.folderId === 'none'} onClick={() => setFilter({ folderId: 'none' })} label="Unfiled" />
+                {folders.map((folder) => (
+                  <div key={folder.id} className="group flex items-center">
+                    <SidebarButton
+                      active={filters.folderId === folder.id}
+                      onClick={() => setFilter({ folderId: folder.id })}
+                      label={folder.name}
+                      count={folder.creationCount}
+                    />
+                    <button
+                      onClick={() => handleRenameFolder(folder)}
+                      className="p-1 text-zinc-600 hover:text-zinc-200 opacity-0 group-hover:opacity-100"
+                      title="Rename folder"
+                    >
+                      <PencilIcon className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteFolder(folder)}
+                      className="p-1 text-zinc-600 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                      title="Delete folder"
+                    >
+                      <TrashIcon className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {tags.length > 0 && (
+              <div>
+                <span className="block px-2 mb-1 text-[10px] font-bold uppercase tracking-wider text-zinc-500">Tags</span>
+                <div className="flex flex-wrap gap-1 px-2">
+                  {tags.map(({ tag, count }) => (
+                    <button
+                      key={tag}
+                      onClick={() => setFilter({ tag: filters.tag === tag ? undefined : tag })}
+                      className={`px-1.5 py-0.5 rounded text-[11px] transition-colors ${
+                        filters.tag === tag ? 'bg-orange-500/20 text-orange-300' : 'bg-zinc-800 text-zinc-400 hover:text-zinc-100'
+                      }`}
+                    >
+                      #{tag} <span className="font-mono text-[10px] text-zinc-600">{count}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Results */}
+          <div className="flex-1 min-w-0 overflow-y-auto p-4">
+            {(error || offline || filters.tag) && (
+              <div className="flex flex-wrap items-center gap-3 mb-3 text-xs">
+                {filters.tag && (
+                  <button onClick={() => setFilter({ tag: undefined })} className="px-2 py-0.5 rounded bg-orange-500/20 text-orange-300">
+                    #{filters.tag} ×
+                  </button>
+                )}
+                {offline && (
+                  <span className="text-amber-500/80">
+                    Offline: searching the copy saved on this device (creations opened recently or kept offline are available in full)
+                  </span>
+                )}
+                {error && <span className="text-red-400">{error}</span>}
+              </div>
+            )}
+
+            {!isLoading && creations.length === 0 && (
+              <p className="py-12 text-center text-sm text-zinc-500">No creations match.</p>
+            )}
+
+            {layout === 'grid' ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {creations.map((creation) => (
+                  <div
+                    key={creation.id}
+                    onClick={() => onOpen(creation)}
+                    className="group flex flex-col bg-zinc-950/60 border border-zinc-800 hover:border-zinc-600 rounded-lg overflow-hidden cursor-pointer"
+                  >
+                    <div className={`relative h-36 overflow-hidden ${creation.partial ? 'bg-zinc-800/60' : 'bg-white'}`}>
+                      {creation.partial ? (
+                        // Listed without its HTML: the source image stands in until it's opened
+                        <>
+                          {creation.thumbnailUrl && (
+                            <CreationThumbnail url={creation.thumbnailUrl} className="absolute inset-0 w-full h-full object-cover" />
+                          )}
+                          {offline && !creation.html && (
+                            <span className="absolute inset-0 flex items-center justify-center text-[10px] font-mono text-zinc-500">
+                              Not saved for offline use
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        // Static preview: scripts stay off so a page of results renders cheaply
+                        <iframe
+                          title={creation.name}
+                          srcDoc={creation.html}
+                          sandbox=""
+                          loading="lazy"
+                          tabIndex={-1}
+                          className="absolute top-0 left-0 w-[400%] h-[400%] origin-top-left pointer-events-none"
+                          style={{ transform: 'scale(0.25)' }}
+                        />
+                      )}
+                    </div>
+                    <div className="flex flex-col gap-1.5 p-3">
+                      <div className="flex items-center gap-1.5">
+                        <h3 className="flex-1 text-sm font-medium text-zinc-200 truncate">{creation.name}</h3>
+                        {creation.purchased && <CheckBadgeIcon className="w-4 h-4 text-green-500 flex-shrink-0" title="Purchased" />}
+                      </div>
+                      <p className="text-[10px] font-mono text-zinc-600">
+                        {MODE_LABELS[creation.mode || 'web']} · {creation.timestamp.toLocaleDateString()}
+                      </p>
+                      {renderTags(creation)}
+                      {renderActions(creation)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-col divide-y divide-zinc-800 border border-zinc-800 rounded-lg">
+                {creations.map((creation) => (
+                  <div
+                    key={creation.id}
+                    onClick={() => onOpen(creation)}
+                    className="flex flex-wrap sm:flex-nowrap items-center gap-3 px-3 py-2 hover:bg-zinc-800/40 cursor-pointer"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-1.5">
+                        <span className="text-sm text-zinc-200 truncate">{creation.name}</span>
+                        {creation.purchased && <CheckBadgeIcon className="w-4 h-4 text-green-500 flex-shrink-0" title="Purchased" />}
+                      </div>
+                      {renderTags(creation)}
+                    </div>
+                    <span className="w-24 text-[10px] font-mono text-zinc-500">{MODE_LABELS[creation.mode || 'web']}</span>
+                    <span className="w-16 text-[10px] font-mono text-zinc-600 text-right">
+                      {formatSize(creation.size ?? creation.html.length)}
+                    </span>
+                    <span className="w-24 text-[10px] font-mono text-zinc-500 truncate">{folderName(creation.folderId) || '—'}</span>
+                    <span className="w-20 text-[10px] font-mono text-zinc-600">{creation.timestamp.toLocaleDateString()}</span>
+                    {renderActions(creation)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(nextCursor !== null || isLoading) && (
+              <div className="flex justify-center mt-4">
+                <button
+                  onClick={() => loadPage(nextCursor)}
+                  disabled={isLoading}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-md border border-zinc-800 text-xs text-zinc-400 hover:text-zinc-100 hover:border-zinc-600 disabled:opacity-60 disabled:cursor-wait"
+                >
+                  <ArrowPathIcon className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+                  {isLoading ? 'Loading' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,357 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon, SwatchIcon, PlusIcon, TrashIcon, PhotoIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
+import {
+  BrandKit,
+  BrandKitInput,
+  saveBrandKit,
+  deleteBrandKit,
+  MAX_BRAND_COLORS,
+  MAX_LOGO_BYTES,
+} from '../services/brand-kits-api';
+
+interface BrandKitManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  brandKits: BrandKit[];
+  onSaved: (brandKit: BrandKit) => void;
+  onDeleted: (id: string) => void;
+}
+
+const EMPTY_KIT: BrandKitInput = {
+  name: '',
+  palette: [{ name: 'Primary', hex: '#f97316' }],
+  fonts: { heading: '', body: '' },
+  logo: null,
+  voiceNotes: '',
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(file);
+  });
+
+export const BrandKitManager: React.FC<BrandKitManagerProps> = ({
+  isOpen,
+  onClose,
+  brandKits,
+  onSaved,
+  onDeleted,
+}) => {
+  // null = list view, 'new' = creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BrandKitInput>(EMPTY_KIT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setEditingId(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const startEditing = (kit?: BrandKit) => {
+    setError(null);
+    if (kit) {
+      const { id, updatedAt, ...input } = kit;
+      setEditingId(id);
+      setDraft({ ...input, fonts: { heading: input.fonts.heading || '', body: input.fonts.body || '' } });
+    } else {
+      setEditingId('new');
+      setDraft(EMPTY_KIT);
+    }
+  };
+
+  const updateColor = (index: number, changes: Partial<BrandKitInput['palette'][number]>) => {
+    setDraft((prev) => ({
+      ...prev,
+      palette: prev.palette.map((color, i) => (i === index ? { ...color, ...changes } : color)),
+    }));
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(`Logo must be under ${Math.round(MAX_LOGO_BYTES / 1024)}KB.`);
+      return;
+    }
+    try {
+      const logo = await readAsDataUrl(file);
+      setDraft((prev) => ({ ...prev, logo }));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to read logo:', err);
+      setError('Could not read the logo file.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      setError('Give the brand kit a name.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const { brandKit, error: saveError } = await saveBrandKit(
+      draft,
+      editingId && editingId !== 'new' ? editingId : undefined,
+    );
+    setIsSaving(false);
+
+    if (saveError || !brandKit) {
+      setError(saveError || 'Failed to save brand kit');
+      return;
+    }
+    onSaved(brandKit);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (kit: BrandKit) => {
+    if (!confirm(`Delete the "${kit.name}" brand kit?`)) return;
+
+    const { error: deleteError } = await deleteBrandKit(kit.id);
+    if (deleteError) {
+      setError(deleteError);
+      return;
+    }
+    onDeleted(kit.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-2 text-zinc-100">
+              <div className="bg-orange-500/10 p-2 rounded-lg">
+                <SwatchIcon className="w-6 h-6 text-orange-500" />
+              </div>
+              <span className="font-semibold text-lg">
+                {editingId === null ? 'Brand Kits' : editingId === 'new' ? 'New Brand Kit' : 'Edit Brand Kit'}
+              </span>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-zinc-500 hover:text-white transition-colors"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+          {editingId === null ? (
+            <div className="space-y-3">
+              {brandKits.length === 0 && (
+                <p className="text-sm text-zinc-400">
+                  Save your colors, fonts, logo and tone once and apply them to any generation.
+                </p>
+              )}
+              {brandKits.map((kit) => (
+                <div
+                  key={kit.id}
+                  className="flex items-center gap-3 p-3 bg-zinc-950/60 border border-zinc-800 rounded-lg"
+                >
+                  {kit.logo ? (
+                    <img src={kit.logo} alt="" className="w-10 h-10 object-contain rounded bg-zinc-800 flex-shrink-0" />
+                  ) : (
+                    <div className="w-10 h-10 rounded bg-zinc-800 flex items-center justify-center flex-shrink-0">
+                      <PhotoIcon className="w-5 h-5 text-zinc-600" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-zinc-100 truncate">{kit.name}</p>
+                    <div className="flex mt-1 space-x-1">
+                      {kit.palette.map((color, i) => (
+                        <span
+                          key={i}
+                          title={color.name || color.hex}
+                          className="w-4 h-4 rounded-full border border-zinc-700"
+                          style={{ backgroundColor: color.hex }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => startEditing(kit)}
+                    className="p-1.5 text-zinc-500 hover:text-zinc-100 transition-colors"
+                    title="Edit"
+                  >
+                    <PencilSquareIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(kit)}
+                    className="p-1.5 text-zinc-500 hover:text-red-400 transition-colors"
+                    title="Delete"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => startEditing()}
+                className="w-full flex items-center justify-center space-x-2 p-3 border border-dashed border-zinc-700 hover:border-orange-500/50 rounded-lg text-sm text-zinc-400 hover:text-zinc-100 transition-colors"
+              >
+                <PlusIcon className="w-4 h-4" />
+                <span>New brand kit</span>
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <label className="block">
+                <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Name</span>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Acme Coffee"
+                  className="mt-1 w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-orange-500/50"
+                />
+              </label>
+
+              <div>
+                <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Palette</span>
+                <div className="mt-1 space-y-2">
+                  {draft.palette.map((color, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={color.hex.length === 4
+                          ? `#${color.hex.slice(1).split('').map((c) => c + c).join('')}`
+                          : color.hex}
+                        onChange={(e) => updateColor(i, { hex: e.target.value })}
+                        className="w-9 h-9 bg-transparent border border-zinc-700 rounded cursor-pointer flex-shrink-0"
+                      />
+                      <input
+                        type="text"
+                        value={color.name}
+                        onChange={(e) => updateColor(i, { name: e.target.value })}
+                        placeholder="Role (e.g. Accent)"
+                        className="flex-1 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-orange-500/50"
+                      />
+                      <span className="w-16 text-xs font-mono text-zinc-500">{color.hex}</span>
+                      <button
+                        onClick={() => setDraft({ ...draft, palette: draft.palette.filter((_, j) => j !== i) })}
+                        className="p-1 text-zinc-500 hover:text-red-400"
+                        title="Remove color"
+                      >
+                        <XMarkIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {draft.palette.length < MAX_BRAND_COLORS && (
+                    <button
+                      onClick={() => setDraft({ ...draft, palette: [...draft.palette, { name: '', hex: '#ffffff' }] })}
+                      className="flex items-center space-x-1 text-xs text-zinc-400 hover:text-zinc-100"
+                    >
+                      <PlusIcon className="w-3.5 h-3.5" />
+                      <span>Add color</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Heading font</span>
+                  <input
+                    type="text"
+                    value={draft.fonts.heading}
+                    onChange={(e) => setDraft({ ...draft, fonts: { ...draft.fonts, heading: e.target.value } })}
+                    placeholder="e.g. Playfair Display"
+                    className="mt-1 w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-orange-500/50"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Body font</span>
+                  <input
+                    type="text"
+                    value={draft.fonts.body}
+                    onChange={(e) => setDraft({ ...draft, fonts: { ...draft.fonts, body: e.target.value } })}
+                    placeholder="e.g. Inter"
+                    className="mt-1 w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-orange-500/50"
+                  />
+                </label>
+              </div>
+
+              <div>
+                <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Logo</span>
+                <div className="mt-1 flex items-center gap-3">
+                  {draft.logo ? (
+                    <img src={draft.logo} alt="Logo" className="w-14 h-14 object-contain rounded bg-zinc-800" />
+                  ) : (
+                    <div className="w-14 h-14 rounded bg-zinc-800 flex items-center justify-center">
+                      <PhotoIcon className="w-6 h-6 text-zinc-600" />
+                    </div>
+                  )}
+                  <button
+                    onClick={() => logoInputRef.current?.click()}
+                    className="px-3 py-1.5 text-xs rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+                  >
+                    {draft.logo ? 'Replace' : 'Upload'}
+                  </button>
+                  {draft.logo && (
+                    <button
+                      onClick={() => setDraft({ ...draft, logo: null })}
+                      className="px-3 py-1.5 text-xs rounded-lg text-zinc-500 hover:text-red-400"
+                    >
+                      Remove
+                    </button>
+                  )}
+                  <input
+                    ref={logoInputRef}
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp,image/svg+xml"
+                    className="hidden"
+                    onChange={handleLogoChange}
+                  />
+                </div>
+              </div>
+
+              <label className="block">
+                <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Voice notes</span>
+                <textarea
+                  value={draft.voiceNotes}
+                  onChange={(e) => setDraft({ ...draft, voiceNotes: e.target.value })}
+                  placeholder="e.g. Warm and playful, short sentences, never use jargon"
+                  rows={3}
+                  className="mt-1 w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-orange-500/50 resize-none"
+                />
+              </label>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 text-sm rounded-lg text-zinc-400 hover:text-zinc-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-sm font-medium rounded-lg bg-orange-600 text-white hover:bg-orange-500 disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ClipboardDocumentIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+
+interface CreationDetailsProps {
+  creation: Creation;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-3 py-1.5 border-b border-zinc-800/60 last:border-b-0">
+    <dt className="text-zinc-500 flex-shrink-0">{label}</dt>
+    <dd className="text-zinc-200 text-right break-words min-w-0">{children}</dd>
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section>
+    <h4 className="mb-1 text-[10px] font-mono uppercase tracking-wider text-zinc-500">{title}</h4>
+    <dl className="text-xs">{children}</dl>
+  </section>
+);
+
+/**
+ * "Details" drawer: how a creation was generated (its provenance), so a result can be
+ * reproduced or audited. Older and imported creations may not have a provenance.
+ */
+export const CreationDetails: React.FC<CreationDetailsProps> = ({ creation, onClose }) => {
+  const [copied, setCopied] = useState<'prompt' | 'json' | null>(null);
+  const provenance = creation.provenance;
+
+  const copy = async (what: 'prompt' | 'json', text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(what);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
+  const refinements = creation.turns?.length ?? 0;
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-30 w-full sm:w-80 flex flex-col bg-[#121214] border-l border-zinc-800 shadow-2xl">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+        <h3 className="text-sm font-semibold text-zinc-100">Details</h3>
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-md hover:bg-zinc-800" title="Close details">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        {provenance ? (
+          <>
+            <section>
+              <div className="mb-1 flex items-center justify-between">
+                <h4 className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">Prompt</h4>
+                {provenance.prompt && (
+                  <button
+                    onClick={() => copy('prompt', provenance.prompt)}
+                    className="flex items-center gap-1 text-[10px] text-zinc-500 hover:text-zinc-200"
+                    title="Copy prompt"
+                  >
+                    {copied === 'prompt' ? <CheckIcon className="w-3 h-3" /> : <ClipboardDocumentIcon className="w-3 h-3" />}
+                    <span>{copied === 'prompt' ? 'Copied' : 'Copy'}</span>
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-zinc-200 whitespace-pre-wrap break-words bg-zinc-950/60 border border-zinc-800 rounded-md p-2 max-h-40 overflow-y-auto">
+                {provenance.prompt || <span className="text-zinc-600">No prompt (files only)</span>}
+              </p>
+            </section>
+
+            <Section title="Generation">
+              <Row label="Mode">{provenance.mode}</Row>
+              <Row label="Provider">{provenance.provider}</Row>
+              <Row label="Model">{provenance.model || provenance.settings.model}</Row>
+              {provenance.settings.usedFallback && (
+                <Row label="Fallback">Yes, {provenance.settings.model} was overloaded</Row>
+              )}
+              {provenance.settings.fallbackModel && !provenance.settings.usedFallback && (
+                <Row label="Fallback model">{provenance.settings.fallbackModel}</Row>
+              )}
+              <Row label="Retries">{provenance.settings.retries}</Row>
+              <Row label="Duration">{formatDuration(provenance.durationMs)}</Row>
+              <Row label="Tokens">
+                {provenance.tokens
+                  ? `${provenance.tokens.input.toLocaleString()} in · ${provenance.tokens.output.toLocaleString()} out`
+                  : 'Not reported'}
+              </Row>
+              {provenance.variant && (
+                <Row label="Variant">
+                  {provenance.variant} of {provenance.variantCount}
+                </Row>
+              )}
+              <Row label="Generated">{new Date(provenance.generatedAt).toLocaleString()}</Row>
+              {provenance.cached && (
+                <Row label="Cached">
+                  Reused a result generated {provenance.cachedAt ? new Date(provenance.cachedAt).toLocaleString() : 'earlier'}
+                </Row>
+              )}
+            </Section>
+
+            <Section title="References">
+              <Row label="Brand kit">{provenance.brandKit ? provenance.brandKit.name || provenance.brandKit.id : 'None'}</Row>
+              <Row label="Template">{provenance.template ? provenance.template.name || provenance.template.id : 'None'}</Row>
+            </Section>
+
+            {(provenance.files.length > 0 || provenance.datasets.length > 0) && (
+              <Section title="Inputs">
+                {provenance.files.map((file, i) => (
+                  <Row key={`file-${i}`} label={file.label || `File ${i + 1}`}>
+                    {file.name || file.mimeType}
+                  </Row>
+                ))}
+                {provenance.datasets.map((dataset) => (
+                  <Row key={`data-${dataset.name}`} label="Dataset">
+                    {dataset.name} ({dataset.rows.toLocaleString()} rows)
+                  </Row>
+                ))}
+              </Section>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-zinc-500">
+            No generation details were recorded for this creation (it was imported or created before details were tracked).
+          </p>
+        )}
+
+        <Section title="Current version">
+          <Row label="Revision">{creation.revision || 1}</Row>
+          {refinements > 0 && <Row label="Refinements">{refinements}</Row>}
+          {creation.model && <Row label="Latest model">{creation.model}</Row>}
+          <Row label="Created">{creation.timestamp.toLocaleString()}</Row>
+        </Section>
+      </div>
+
+      {provenance && (
+        <div className="px-4 py-3 border-t border-zinc-800">
+          <button
+            onClick={() => copy('json', JSON.stringify(provenance, null, 2))}
+            className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md border border-zinc-800 text-xs text-zinc-300 hover:bg-zinc-800"
+            title="Copy the full provenance as JSON"
+          >
+            {copied === 'json' ? <CheckIcon className="w-3.5 h-3.5" /> : <ClipboardDocumentIcon className="w-3.5 h-3.5" />}
+            <span>{copied === 'json' ? 'Copied' : 'Copy as JSON'}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
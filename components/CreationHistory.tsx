@@ -3,25 +3,60 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon, LockClosedIcon, CheckBadgeIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon, LockClosedIcon, CheckBadgeIcon, TrashIcon, CodeBracketIcon, ArrowPathIcon, PencilIcon, SignalSlashIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+import type { HtmlWarning, GenerationProvenance } from '../services/gemini';
+import { CreationThumbnail } from './CreationThumbnail';
+
+export interface CreationTurn {
+  instruction: string; // Follow-up instruction sent to the refine endpoint
+  selector?: string; // Set when only this element was rewritten (click-to-edit)
+  timestamp: Date;
+}
+
+export interface CreationSource {
+  dataUrl: string; // Base64 data URL (image, PDF or HTML page)
+  name: string; // Original file name
+  label?: string; // User label, e.g. "Style reference"
+}
 
 export interface Creation {
   id: string;
   name: string;
   html: string; // HTML content (all modes use HTML, including video which is animated HTML/CSS)
-  originalImage?: string; // Base64 data URL
+  originalImage?: string; // Base64 data URL (first source file)
+  sourceFiles?: CreationSource[]; // All source files, in the order sent to the model
   timestamp: Date;
+  updatedAt?: Date; // Revision timestamp: last saved change (or a local one not synced yet)
   purchased?: boolean; // Track if the user paid for this
-  mode?: 'web' | 'mobile' | 'social' | 'logo' | 'video'; // Generation mode
+  mode?: 'web' | 'mobile' | 'social' | 'logo' | 'video' | 'slides' | 'email' | 'dashboard'; // Generation mode
+  revision?: number; // Bumped on every refinement (1 = original generation)
+  turns?: CreationTurn[]; // Refinement history, oldest first
+  warnings?: HtmlWarning[]; // Structural problems found in the generated HTML
+  model?: string; // Model that produced the current HTML
+  provenance?: GenerationProvenance; // How the original HTML was generated (prompt, settings, usage...)
+  tags?: string[]; // User tags (lowercase)
+  folderId?: string | null; // Archive folder (null = unfiled)
+  partial?: boolean; // Listed from a summary: `html` is empty (or an older cached version) until fetched with fetchCreation
+  thumbnailUrl?: string; // Source image thumbnail (API path), from listings
+  originalImageType?: string; // MIME type of the first source file, from listings
+  size?: number; // HTML length, from listings
+  openedAt?: Date; // Last opened on this device (recently opened creations are kept for offline use)
+  keepOffline?: boolean; // Marked to stay available offline on this device
 }
 
 interface CreationHistoryProps {
   history: Creation[];
   onSelect: (creation: Creation) => void;
   onDelete: (id: string) => void;
+  onRename?: (id: string) => void;
+  offline?: boolean; // Showing the offline copy; changes sync when the connection returns
+  hasMore?: boolean; // More saved creations on the server
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onBrowse?: () => void; // Open the archive browser (search, tags, folders)
 }
 
-export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, onDelete }) => {
+export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, onDelete, onRename, offline, hasMore, isLoadingMore, onLoadMore, onBrowse }) => {
   if (history.length === 0) return null;
 
   return (
@@ -30,12 +65,34 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
         <ClockIcon className="w-4 h-4 text-zinc-500" />
         <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">Archive</h2>
         <div className="h-px flex-1 bg-zinc-800"></div>
+        {offline && (
+          <span
+            className="flex items-center gap-1 text-[10px] font-mono text-amber-500/80"
+            title="Creations listed while online are saved on this device; changes sync when you're back online"
+          >
+            <SignalSlashIcon className="w-3.5 h-3.5" />
+            Offline
+          </span>
+        )}
+        {onBrowse && (
+          <button
+            onClick={onBrowse}
+            className="flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-200 transition-colors"
+            title="Search, tag and organise your archive"
+          >
+            <Squares2X2Icon className="w-3.5 h-3.5" />
+            Browse
+          </button>
+        )}
       </div>
       
       {/* Horizontal Scroll Container for Compact Layout */}
       <div className="flex overflow-x-auto space-x-4 pb-2 px-2 scrollbar-hide">
         {history.map((item) => {
-          const isPdf = item.originalImage?.startsWith('data:application/pdf');
+          // Listed summaries only carry the source file's type
+          const sourceType = item.originalImage?.slice(5, item.originalImage.indexOf(';')) || item.originalImageType;
+          const isPdf = sourceType === 'application/pdf';
+          const isHtml = sourceType === 'text/html';
           return (
             <div
               key={item.id}
@@ -56,13 +113,34 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
               >
                 <TrashIcon className="w-3.5 h-3.5" />
               </button>
+              {onRename && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRename(item.id);
+                  }}
+                  className="absolute top-1.5 right-9 p-1.5 bg-zinc-900/80 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all z-20 backdrop-blur-sm border border-transparent hover:border-zinc-700"
+                  title="Rename"
+                >
+                  <PencilIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+
+              {item.thumbnailUrl && (
+                <CreationThumbnail
+                  url={item.thumbnailUrl}
+                  className="absolute inset-0 w-full h-full object-cover opacity-20 group-hover:opacity-30 transition-opacity"
+                />
+              )}
 
               <div className="p-4 flex flex-col h-full relative z-10">
                 <div className="flex items-start justify-between mb-2">
                   <div className="p-1.5 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50">
                       {isPdf ? (
                           <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      ) : item.originalImage ? (
+                      ) : isHtml ? (
+                          <CodeBracketIcon className="w-4 h-4 text-zinc-400" />
+                      ) : sourceType ? (
                           <PhotoIcon className="w-4 h-4 text-zinc-400" />
                       ) : (
                           <DocumentIcon className="w-4 h-4 text-zinc-400" />
@@ -97,6 +175,17 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
             </div>
           );
         })}
+        {hasMore && onLoadMore && (
+          <button
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="flex-shrink-0 flex flex-col items-center justify-center gap-2 w-28 h-28 bg-zinc-900/30 hover:bg-zinc-800 border border-dashed border-zinc-800 hover:border-zinc-600 rounded-lg text-zinc-500 hover:text-zinc-300 transition-all disabled:opacity-60 disabled:cursor-wait"
+            title="Load older creations"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${isLoadingMore ? 'animate-spin' : ''}`} />
+            <span className="text-[10px] font-mono uppercase tracking-wider">{isLoadingMore ? 'Loading' : 'Load more'}</span>
+          </button>
+        )}
       </div>
       <style>{`
         .scrollbar-hide::-webkit-scrollbar {
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { fetchThumbnail } from '../services/creations-api';
+
+interface CreationThumbnailProps {
+  url: string; // Creation.thumbnailUrl
+  className?: string;
+}
+
+/**
+ * A creation's listed thumbnail; renders nothing until (or unless) it loads
+ */
+export const CreationThumbnail: React.FC<CreationThumbnailProps> = ({ url, className }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let ignore = false;
+    setSrc(null);
+    fetchThumbnail(url).then((objectUrl) => {
+      if (!ignore) setSrc(objectUrl);
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [url]);
+
+  return src ? <img src={src} alt="" loading="lazy" className={className} /> : null;
+};
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import {
+  ArrowPathIcon,
+  ArrowRightOnRectangleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  PencilSquareIcon,
+  ShieldExclamationIcon,
+  SparklesIcon,
+} from '@heroicons/react/24/outline';
+import { GenerationError, GenerationErrorType } from '../services/generation-errors';
+
+interface GenerationErrorPanelProps {
+  error: GenerationError;
+  onRetry?: () => void; // Re-run the failed generation
+  onSignIn?: () => void;
+  onUpgrade?: () => Promise<void> | void;
+  onEditPrompt: () => void; // Close the preview and go back to the prompt
+}
+
+interface ErrorCopy {
+  title: string;
+  description: string;
+  icon: React.ComponentType<{ className?: string }>;
+}
+
+const ERROR_COPY: Record<GenerationErrorType, ErrorCopy> = {
+  auth_expired: {
+    title: 'Session expired',
+    description: 'Your sign-in has expired. Sign in again to continue generating.',
+    icon: ArrowRightOnRectangleIcon,
+  },
+  daily_limit: {
+    title: 'Daily limit reached',
+    description: '',
+    icon: ClockIcon,
+  },
+  provider_quota: {
+    title: 'AI service busy',
+    description: 'The AI service has run out of capacity for now. This is on our side; please try again in a few minutes.',
+    icon: ExclamationTriangleIcon,
+  },
+  safety_block: {
+    title: 'Request blocked',
+    description: 'The AI safety filters blocked this request. Rephrase the prompt or use different source files and try again.',
+    icon: ShieldExclamationIcon,
+  },
+  timeout: {
+    title: 'Generation timed out',
+    description: 'The generation took too long and was stopped. It was not counted toward your daily limit.',
+    icon: ClockIcon,
+  },
+  malformed_output: {
+    title: 'Nothing usable came back',
+    description: 'The AI returned an empty or unusable response. Retrying usually fixes this.',
+    icon: ExclamationTriangleIcon,
+  },
+  cancelled: {
+    title: 'Generation cancelled',
+    description: 'The generation was cancelled before it finished.',
+    icon: ExclamationTriangleIcon,
+  },
+  unknown: {
+    title: 'Something went wrong',
+    description: 'The generation failed unexpectedly.',
+    icon: ExclamationTriangleIcon,
+  },
+};
+
+const primaryButton =
+  'flex items-center space-x-2 px-4 py-2 rounded-lg bg-orange-600 text-white hover:bg-orange-500 text-xs font-bold transition-colors disabled:opacity-50';
+const secondaryButton =
+  'flex items-center space-x-2 px-4 py-2 rounded-lg border border-zinc-800 bg-zinc-900/50 text-zinc-400 hover:text-zinc-100 hover:border-zinc-600 text-xs font-medium transition-colors';
+
+/**
+ * Explains why a generation failed, with the call to action for that failure type
+ */
+export const GenerationErrorPanel: React.FC<GenerationErrorPanelProps> = ({
+  error,
+  onRetry,
+  onSignIn,
+  onUpgrade,
+  onEditPrompt,
+}) => {
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  const copy = ERROR_COPY[error.type] || ERROR_COPY.unknown;
+  const Icon = copy.icon;
+  // The daily limit message already says what's left / what to do
+  const description = error.type === 'daily_limit' ? error.message : copy.description;
+  // Server detail is only useful when the type alone doesn't explain the failure
+  const detail = error.type === 'unknown' ? error.message : error.details.message;
+
+  const handleUpgrade = async () => {
+    setIsUpgrading(true);
+    try {
+      await onUpgrade?.();
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const editPromptButton = (
+    <button onClick={onEditPrompt} className={secondaryButton}>
+      <PencilSquareIcon className="w-4 h-4" />
+      <span>Edit prompt</span>
+    </button>
+  );
+  const retryButton = onRetry && (
+    <button onClick={onRetry} className={primaryButton}>
+      <ArrowPathIcon className="w-4 h-4" />
+      <span>Try again</span>
+    </button>
+  );
+
+  let actions: React.ReactNode;
+  switch (error.type) {
+    case 'auth_expired':
+      actions = onSignIn && (
+        <button onClick={onSignIn} className={primaryButton}>
+          <ArrowRightOnRectangleIcon className="w-4 h-4" />
+          <span>Sign in again</span>
+        </button>
+      );
+      break;
+    case 'daily_limit':
+      actions = (
+        <>
+          {!error.details.isPro && onUpgrade && (
+            <button onClick={handleUpgrade} disabled={isUpgrading} className={primaryButton}>
+              <SparklesIcon className="w-4 h-4" />
+              <span>{isUpgrading ? 'Redirecting...' : 'Go Pro'}</span>
+            </button>
+          )}
+          {editPromptButton}
+        </>
+      );
+      break;
+    case 'safety_block':
+      actions = editPromptButton;
+      break;
+    default:
+      actions = (
+        <>
+          {retryButton}
+          {editPromptButton}
+        </>
+      );
+  }
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center p-6">
+      <div className="w-full max-w-md text-center space-y-4 p-6 sm:p-8 rounded-xl border border-zinc-800 bg-[#121214]">
+        <div className="mx-auto w-12 h-12 rounded-full bg-red-500/10 flex items-center justify-center">
+          <Icon className="w-6 h-6 text-red-400" />
+        </div>
+        <div className="space-y-2">
+          <h3 className="text-zinc-100 font-semibold text-lg">{copy.title}</h3>
+          <p className="text-zinc-400 text-sm">{description}</p>
+        </div>
+        {detail && (
+          <pre className="max-h-32 overflow-auto text-left whitespace-pre-wrap break-words rounded-lg border border-zinc-800 bg-black/50 p-3 text-[11px] font-mono text-zinc-500">
+            {detail}
+          </pre>
+        )}
+        {actions && <div className="flex flex-wrap items-center justify-center gap-2 pt-2">{actions}</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { CropRect } from '../services/file-preprocessing';
+
+interface ImageCropDialogProps {
+  file: File;
+  crop?: CropRect;
+  onApply: (crop: CropRect | undefined) => void;
+  onClose: () => void;
+}
+
+// Selections smaller than this (fraction of either side) are treated as a click, not a crop
+const MIN_CROP = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Drag a rectangle over an image to crop it before upload
+ */
+export const ImageCropDialog: React.FC<ImageCropDialogProps> = ({ file, crop, onApply, onClose }) => {
+  const [imageUrl, setImageUrl] = useState('');
+  const [selection, setSelection] = useState<CropRect | undefined>(crop);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Pointer position as fractions of the displayed (EXIF-rotated) image
+  const toFraction = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = toFraction(e);
+    setSelection(undefined);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = toFraction(e);
+    setSelection({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    setSelection((current) =>
+      current && current.width >= MIN_CROP && current.height >= MIN_CROP ? current : undefined,
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-zinc-100">Crop image</h3>
+            <p className="text-xs text-zinc-500 truncate">Drag over the part of {file.name} to send</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-zinc-200 rounded-md hover:bg-zinc-800">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex justify-center bg-black/50 p-4">
+          <div
+            className="relative select-none touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {imageUrl && (
+              <img
+                ref={imageRef}
+                src={imageUrl}
+                alt={file.name}
+                draggable={false}
+                className="block max-h-[60vh] max-w-full"
+              />
+            )}
+            {selection && (
+              <div
+                className="absolute border-2 border-orange-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none"
+                style={{
+                  left: `${selection.x * 100}%`,
+                  top: `${selection.y * 100}%`,
+                  width: `${selection.width * 100}%`,
+                  height: `${selection.height * 100}%`,
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-zinc-800">
+          <button
+            onClick={() => onApply(undefined)}
+            className="px-3 py-1.5 rounded-lg text-xs text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+          >
+            Use full image
+          </button>
+          <button
+            onClick={() => onApply(selection)}
+            disabled={!selection}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold bg-orange-600 text-white hover:bg-orange-500 disabled:opacity-40"
+          >
+            Apply crop
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,13 +3,64 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useCallback, useState, useEffect, useRef } from 'react';
-import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, PaperClipIcon, XMarkIcon, DocumentIcon, LockClosedIcon, DevicePhoneMobileIcon, ComputerDesktopIcon, VideoCameraIcon, PaintBrushIcon, FilmIcon } from '@heroicons/react/24/outline';
-import { GenerationMode } from '../services/gemini';
+import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, PaperClipIcon, XMarkIcon, DocumentIcon, PhotoIcon, LockClosedIcon, DevicePhoneMobileIcon, ComputerDesktopIcon, VideoCameraIcon, PaintBrushIcon, FilmIcon, ChevronUpIcon, ChevronDownIcon, SwatchIcon, BookmarkIcon, ScissorsIcon, ArrowPathIcon, PresentationChartBarIcon, EnvelopeIcon, ChartBarIcon, TableCellsIcon, CodeBracketIcon } from '@heroicons/react/24/outline';
+import { GenerationMode, GenerationReference } from '../services/gemini';
+import { BrandKit } from '../services/brand-kits-api';
+import { PromptTemplate, getPlaceholders, fillTemplate } from '../services/templates-api';
+import {
+  CropRect,
+  PreparedFile,
+  MAX_PAYLOAD_BYTES,
+  prepareFile,
+  payloadSize,
+  getPdfPageCount,
+  parsePageRange,
+  formatBytes,
+  HTML_ACCEPT,
+  isHtmlFile,
+} from '../services/file-preprocessing';
+import { Dataset, DATASET_ACCEPT, isDataFile, parseDatasetFile, datasetSize } from '../services/datasets';
+import { ImageCropDialog } from './ImageCropDialog';
+
+// Maximum number of source files per generation (kept in sync with the backend)
+const MAX_FILES = 6;
+
+// Parallel variants per prompt (1 = a single streamed generation)
+const VARIANT_OPTIONS = [1, 2, 3, 4];
+
+export interface SelectedFile {
+  id: string;
+  file: File;
+  label: string; // Optional user label, e.g. "Home screen" or "Style reference"
+  crop?: CropRect; // Images: part of the image to send
+  pages?: number[]; // PDFs: pages to send as images (the whole PDF when unset)
+}
+
+// Images the browser can crop (animated GIFs and SVGs are sent unchanged)
+const isCroppable = (file: File) =>
+  file.type.startsWith('image/') && !['image/gif', 'image/svg+xml'].includes(file.type);
 
 interface InputAreaProps {
-  onGenerate: (prompt: string, file: File | undefined, mode: GenerationMode) => void;
+  // `regenerate` skips the server's cache of identical recent requests
+  onGenerate: (
+    prompt: string,
+    files: SelectedFile[],
+    mode: GenerationMode,
+    variantCount: number,
+    regenerate?: boolean,
+    template?: GenerationReference | null, // Template the prompt was filled from
+  ) => void;
   isGenerating: boolean;
   disabled?: boolean;
+  maxVariants?: number; // Generations left today; each variant uses one
+  brandKits?: BrandKit[];
+  brandKitId?: string | null; // Brand kit applied to the next generation (any mode)
+  onBrandKitChange?: (id: string | null) => void;
+  onManageBrandKits?: () => void;
+  templates?: PromptTemplate[]; // Curated and saved templates (all modes)
+  onSaveTemplate?: (name: string, body: string, mode: GenerationMode) => Promise<void>;
+  onDeleteTemplate?: (id: string) => Promise<void>;
+  lastResultReused?: boolean; // The last result came from the cache (an identical recent request)
 }
 
 const CyclingText = () => {
@@ -42,11 +93,93 @@ const CyclingText = () => {
     );
 };
 
-export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating, disabled = false }) => {
+// Template chips for the current mode, plus saving the current prompt as a template
+const TemplateStrip = ({
+  templates,
+  canSave,
+  disabled,
+  onApply,
+  onSave,
+  onDelete,
+}: {
+  templates: PromptTemplate[];
+  canSave: boolean;
+  disabled: boolean;
+  onApply: (template: PromptTemplate) => void;
+  onSave?: () => void;
+  onDelete?: (template: PromptTemplate) => void;
+}) => (
+  <div className="flex items-center gap-1.5 mb-2 overflow-x-auto scrollbar-hide text-[10px] sm:text-xs">
+    <span className="text-zinc-500 font-mono uppercase tracking-wider flex-shrink-0">Templates</span>
+    {templates.map((template) => (
+      <span
+        key={template.id}
+        className="group/template flex items-center flex-shrink-0 bg-zinc-900/80 border border-zinc-800 hover:border-zinc-600 rounded-full"
+      >
+        <button
+          onClick={() => onApply(template)}
+          disabled={disabled}
+          title={template.body}
+          className="px-2 py-1 text-zinc-400 hover:text-zinc-100 whitespace-nowrap disabled:opacity-50"
+        >
+          {template.name}
+        </button>
+        {!template.curated && onDelete && (
+          <button
+            onClick={() => onDelete(template)}
+            disabled={disabled}
+            className="hidden group-hover/template:block pr-1.5 text-zinc-600 hover:text-red-400"
+            title="Delete template"
+          >
+            <XMarkIcon className="w-3 h-3" />
+          </button>
+        )}
+      </span>
+    ))}
+    {onSave && (
+      <button
+        onClick={onSave}
+        disabled={disabled || !canSave}
+        className="flex items-center space-x-1 px-2 py-1 flex-shrink-0 text-zinc-500 hover:text-orange-400 disabled:opacity-30 disabled:hover:text-zinc-500"
+        title="Save this prompt as a template (use {placeholders} for the parts that change)"
+      >
+        <BookmarkIcon className="w-3.5 h-3.5" />
+        <span>Save</span>
+      </button>
+    )}
+  </div>
+);
+
+export const InputArea: React.FC<InputAreaProps> = ({
+  onGenerate,
+  isGenerating,
+  disabled = false,
+  maxVariants = VARIANT_OPTIONS.length,
+  brandKits = [],
+  brandKitId = null,
+  onBrandKitChange,
+  onManageBrandKits,
+  templates = [],
+  onSaveTemplate,
+  onDeleteTemplate,
+  lastResultReused = false,
+}) => {
   const [isDragging, setIsDragging] = useState(false);
   const [prompt, setPrompt] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Template the prompt was filled from (recorded in the generation's provenance)
+  const [appliedTemplate, setAppliedTemplate] = useState<GenerationReference | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
   const [mode, setMode] = useState<GenerationMode>('web');
+  const [variantCount, setVariantCount] = useState(1);
+  // Values for `{placeholder}` fields in the prompt
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+  // Upload-ready version of each selected file (null when it couldn't be processed)
+  const [prepared, setPrepared] = useState<Record<string, PreparedFile[] | null>>({});
+  // Parsed CSV / JSON files (null when a file couldn't be parsed)
+  const [datasets, setDatasets] = useState<Record<string, Dataset | null>>({});
+  const [pageCounts, setPageCounts] = useState<Record<string, number>>({});
+  const [pageInputs, setPageInputs] = useState<Record<string, string>>({});
+  const [croppingId, setCroppingId] = useState<string | null>(null);
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -59,26 +192,81 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
     }
   }, [prompt]);
 
-  const handleFile = (file: File) => {
-    if (file.type.startsWith('image/') || file.type === 'application/pdf') {
-      setSelectedFile(file);
-    } else {
-      alert("Please upload an image or PDF.");
+  const handleFiles = (files: FileList | File[]) => {
+    const incoming = Array.from(files);
+    const accepted = incoming.filter(
+      (file) => file.type.startsWith('image/') || file.type === 'application/pdf' || isDataFile(file) || isHtmlFile(file)
+    );
+    if (accepted.length < incoming.length) {
+      alert("Please upload images, PDFs, HTML pages, or CSV / JSON data only.");
     }
+
+    setSelectedFiles((prev) => {
+      const room = MAX_FILES - prev.length;
+      if (accepted.length > room) {
+        alert(`You can attach up to ${MAX_FILES} files.`);
+      }
+      const added = accepted.slice(0, Math.max(0, room)).map((file) => ({
+        id: crypto.randomUUID(),
+        file,
+        label: '',
+      }));
+      added
+        .filter(({ file }) => file.type === 'application/pdf')
+        .forEach(({ id, file }) => {
+          getPdfPageCount(file)
+            .then((count) => setPageCounts((counts) => ({ ...counts, [id]: count })))
+            .catch((error) => console.warn('Could not read PDF pages:', error));
+        });
+      return [...prev, ...added];
+    });
   };
 
+  // Downscale / crop / rasterise (or parse data files) in the background so the upload size is known before sending
+  useEffect(() => {
+    let ignore = false;
+    selectedFiles.forEach((item) => {
+      if (isDataFile(item.file)) {
+        parseDatasetFile(item.file).then(
+          (dataset) => {
+            if (!ignore) setDatasets((prev) => ({ ...prev, [item.id]: dataset }));
+          },
+          (error) => {
+            console.warn(`Could not parse ${item.file.name}:`, error);
+            if (!ignore) setDatasets((prev) => ({ ...prev, [item.id]: null }));
+          },
+        );
+        return;
+      }
+      prepareFile(item.file, item).then(
+        (files) => {
+          if (!ignore) setPrepared((prev) => ({ ...prev, [item.id]: files }));
+        },
+        (error) => {
+          console.warn(`Could not process ${item.file.name}:`, error);
+          if (!ignore) setPrepared((prev) => ({ ...prev, [item.id]: null }));
+        },
+      );
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [selectedFiles]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-        handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+        handleFiles(e.target.files);
     }
+    // Allow re-selecting the same file later
+    e.target.value = '';
   };
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
     if (disabled || isGenerating) return;
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(e.dataTransfer.files);
     }
   }, [disabled, isGenerating]);
 
@@ -94,9 +282,59 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
     setIsDragging(false);
   }, []);
 
-  const handleSubmit = () => {
-    if (!prompt.trim() && !selectedFile) return;
-    onGenerate(prompt, selectedFile || undefined, mode);
+  // Drop back if the remaining daily generations no longer cover the selection
+  useEffect(() => {
+    if (variantCount > Math.max(1, maxVariants)) {
+      setVariantCount(Math.max(1, Math.min(maxVariants, VARIANT_OPTIONS.length)));
+    }
+  }, [maxVariants, variantCount]);
+
+  const placeholders = getPlaceholders(prompt);
+  const hasEmptyFields = placeholders.some((name) => !fieldValues[name]?.trim());
+  const modeTemplates = templates.filter((template) => template.mode === mode);
+
+  const preparedFiles = selectedFiles.map((item) => prepared[item.id]);
+  const uploadBytes =
+    preparedFiles.reduce((total, files) => total + (files ? payloadSize(files) : 0), 0) +
+    selectedFiles.reduce((total, item) => total + (datasets[item.id] ? datasetSize(datasets[item.id]!) : 0), 0);
+  const unreadableData = selectedFiles.some((item) => datasets[item.id] === null);
+  // Rasterised PDF pages are sent as separate files
+  const uploadFileCount = preparedFiles.reduce((total, files) => total + (files?.length ?? 1), 0);
+  const uploadTooLarge = uploadBytes > MAX_PAYLOAD_BYTES;
+  const tooManyFiles = uploadFileCount > MAX_FILES;
+  const uploadBlocked = uploadTooLarge || tooManyFiles || unreadableData;
+
+  const handleSubmit = (regenerate = false) => {
+    if (!prompt.trim() && selectedFiles.length === 0) return;
+    if (hasEmptyFields || uploadBlocked) return;
+    onGenerate(fillTemplate(prompt, fieldValues), selectedFiles, mode, variantCount, regenerate, appliedTemplate);
+  };
+
+  const applyTemplate = (template: PromptTemplate) => {
+    setPrompt(template.body);
+    setAppliedTemplate({ id: template.id, name: template.name });
+    setFieldValues({});
+    textareaRef.current?.focus();
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!onSaveTemplate || !prompt.trim()) return;
+    const name = window.prompt('Template name', prompt.trim().slice(0, 40));
+    if (!name?.trim()) return;
+    try {
+      await onSaveTemplate(name.trim(), prompt, mode);
+    } catch (error: any) {
+      alert(error.message || 'Failed to save template');
+    }
+  };
+
+  const handleDeleteTemplate = async (template: PromptTemplate) => {
+    if (!onDeleteTemplate || !confirm(`Delete the "${template.name}" template?`)) return;
+    try {
+      await onDeleteTemplate(template.id);
+    } catch (error: any) {
+      alert(error.message || 'Failed to delete template');
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -106,18 +344,51 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
     }
   };
 
-  const clearFile = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    setSelectedFile(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const removeFile = (id: string) => {
+    setSelectedFiles((prev) => prev.filter((f) => f.id !== id));
+  };
+
+  const moveFile = (index: number, direction: -1 | 1) => {
+    setSelectedFiles((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const setFileLabel = (id: string, label: string) => {
+    setSelectedFiles((prev) => prev.map((f) => (f.id === id ? { ...f, label } : f)));
+  };
+
+  const setFileCrop = (id: string, crop: CropRect | undefined) => {
+    setSelectedFiles((prev) => prev.map((f) => (f.id === id ? { ...f, crop } : f)));
+    setCroppingId(null);
+  };
+
+  // Apply the typed page selection ("1-3, 5"); empty sends the whole PDF
+  const applyPageInput = (id: string) => {
+    const count = pageCounts[id];
+    const text = pageInputs[id]?.trim() || '';
+    const pages = text && count ? parsePageRange(text, count) : [];
+    setSelectedFiles((prev) => prev.map((f) => (f.id === id ? { ...f, pages: pages.length > 0 ? pages : undefined } : f)));
+    setPageInputs((prev) => ({ ...prev, [id]: pages.length > 0 ? text : '' }));
   };
 
+  const croppingFile = selectedFiles.find((f) => f.id === croppingId);
+
+  const hasFiles = selectedFiles.length > 0;
+
   const modes: { id: GenerationMode; label: string; icon: any }[] = [
       { id: 'web', label: 'Web App', icon: ComputerDesktopIcon },
       { id: 'mobile', label: 'Mobile UI', icon: DevicePhoneMobileIcon },
       { id: 'social', label: 'TikTok/Reels', icon: VideoCameraIcon },
       { id: 'logo', label: 'Logo & Brand', icon: PaintBrushIcon },
       { id: 'video', label: 'AI Video', icon: FilmIcon },
+      { id: 'slides', label: 'Slides', icon: PresentationChartBarIcon },
+      { id: 'email', label: 'Email', icon: EnvelopeIcon },
+      { id: 'dashboard', label: 'Dashboard', icon: ChartBarIcon },
   ];
 
   return (
@@ -188,7 +459,7 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
             <div className="relative z-10 flex flex-col items-center text-center w-full h-full p-4 sm:p-6 md:p-8">
                 
                 {/* Header Section */}
-                {!selectedFile && (
+                {!hasFiles && (
                     <div className="mb-4 sm:mb-5 md:mb-6 flex flex-col items-center transition-all duration-300">
                         <div className={`relative w-10 h-10 xs:w-12 xs:h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 rounded-xl sm:rounded-2xl flex items-center justify-center mb-3 sm:mb-4 transition-transform duration-500 ${isDragging ? 'scale-110' : ''}`}>
                             <div className={`absolute inset-0 rounded-xl sm:rounded-2xl bg-zinc-800 border border-zinc-700 shadow-xl flex items-center justify-center ${isGenerating ? 'animate-pulse' : ''}`}>
@@ -217,44 +488,144 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                                 )}
                             </h3>
                             <p className="text-zinc-500 text-[11px] xs:text-xs sm:text-sm md:text-sm font-light tracking-wide px-2">
-                                {disabled ? "Check back tomorrow for more credits." : "Drop an image, or type a prompt below"}
+                                {disabled ? "Check back tomorrow for more credits." : "Drop an image or an HTML page to remix, or type a prompt below"}
                             </p>
                         </div>
                     </div>
                 )}
 
-                {/* File Preview (If Selected) */}
-                {selectedFile && (
-                    <div className="w-full max-w-lg mb-6 animate-in fade-in zoom-in duration-300">
-                        <div className="relative flex items-center p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg group/file">
-                            <div className="w-10 h-10 flex-shrink-0 bg-zinc-800 rounded flex items-center justify-center border border-zinc-700">
-                                <DocumentIcon className="w-6 h-6 text-orange-400" />
-                            </div>
-                            <div className="ml-3 flex-1 min-w-0 text-left">
-                                <p className="text-sm font-medium text-zinc-200 truncate">{selectedFile.name}</p>
-                                <p className="text-xs text-zinc-500">{(selectedFile.size / 1024).toFixed(1)} KB</p>
+                {/* File List (If Selected) - order is the order sent to the model */}
+                {hasFiles && (
+                    <div className="w-full max-w-lg mb-6 space-y-2 animate-in fade-in zoom-in duration-300">
+                        {selectedFiles.map((item, index) => (
+                            <div key={item.id} className="relative flex items-center p-2 sm:p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg group/file">
+                                <div className="flex flex-col mr-1 sm:mr-2">
+                                    <button
+                                        onClick={() => moveFile(index, -1)}
+                                        disabled={index === 0 || disabled || isGenerating}
+                                        className="p-0.5 text-zinc-500 hover:text-zinc-200 disabled:opacity-30 disabled:hover:text-zinc-500"
+                                        title="Move up"
+                                    >
+                                        <ChevronUpIcon className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => moveFile(index, 1)}
+                                        disabled={index === selectedFiles.length - 1 || disabled || isGenerating}
+                                        className="p-0.5 text-zinc-500 hover:text-zinc-200 disabled:opacity-30 disabled:hover:text-zinc-500"
+                                        title="Move down"
+                                    >
+                                        <ChevronDownIcon className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                                <div className="w-10 h-10 flex-shrink-0 bg-zinc-800 rounded flex items-center justify-center border border-zinc-700">
+                                    {isDataFile(item.file) ? (
+                                        <TableCellsIcon className="w-6 h-6 text-orange-400" />
+                                    ) : isHtmlFile(item.file) ? (
+                                        <CodeBracketIcon className="w-6 h-6 text-orange-400" />
+                                    ) : item.file.type === 'application/pdf' ? (
+                                        <DocumentIcon className="w-6 h-6 text-orange-400" />
+                                    ) : (
+                                        <PhotoIcon className="w-6 h-6 text-orange-400" />
+                                    )}
+                                </div>
+                                <div className="ml-3 flex-1 min-w-0 text-left">
+                                    <p className="text-sm font-medium text-zinc-200 truncate">{item.file.name}</p>
+                                    <div className="flex items-center space-x-2">
+                                        {isDataFile(item.file) ? (
+                                            <span
+                                                className={`text-xs flex-shrink-0 ${datasets[item.id] === null ? 'text-red-400' : 'text-zinc-500'}`}
+                                                title={datasets[item.id]?.columns.map((column) => `${column.name} (${column.type})`).join(', ')}
+                                            >
+                                                {datasets[item.id] === null
+                                                    ? 'Could not read this file'
+                                                    : datasets[item.id] && `${datasets[item.id]!.rows.length.toLocaleString()} rows · ${datasets[item.id]!.columns.length} columns`}
+                                            </span>
+                                        ) : (
+                                            <span className="text-xs text-zinc-500 flex-shrink-0" title="Original size → upload size">
+                                                {formatBytes(item.file.size)}
+                                                {prepared[item.id] === null
+                                                    ? ' · not processed'
+                                                    : prepared[item.id] && ` → ${formatBytes(payloadSize(prepared[item.id]!) * 3 / 4)}`}
+                                            </span>
+                                        )}
+                                        {item.file.type === 'application/pdf' && pageCounts[item.id] > 0 && (
+                                            <input
+                                                type="text"
+                                                value={pageInputs[item.id] || ''}
+                                                onChange={(e) => setPageInputs((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                                                onBlur={() => applyPageInput(item.id)}
+                                                onKeyDown={(e) => e.key === 'Enter' && applyPageInput(item.id)}
+                                                placeholder={`All ${pageCounts[item.id]} pages`}
+                                                disabled={disabled || isGenerating}
+                                                title='Pages to send as images, e.g. "1-3, 5"'
+                                                className="w-24 flex-shrink-0 bg-transparent border-b border-zinc-700 focus:border-orange-500/50 text-xs text-zinc-300 placeholder-zinc-600 focus:outline-none py-0.5"
+                                            />
+                                        )}
+                                        <input
+                                            type="text"
+                                            value={item.label}
+                                            onChange={(e) => setFileLabel(item.id, e.target.value)}
+                                            placeholder="Label (e.g. style reference)"
+                                            disabled={disabled || isGenerating}
+                                            className="flex-1 min-w-0 bg-transparent border-b border-zinc-700 focus:border-orange-500/50 text-xs text-zinc-300 placeholder-zinc-600 focus:outline-none py-0.5"
+                                        />
+                                    </div>
+                                </div>
+                                {isCroppable(item.file) && (
+                                    <button
+                                        onClick={() => setCroppingId(item.id)}
+                                        disabled={disabled || isGenerating}
+                                        className={`ml-2 p-1.5 hover:bg-zinc-700 rounded-full transition-colors ${item.crop ? 'text-orange-400' : 'text-zinc-500 hover:text-zinc-200'}`}
+                                        title={item.crop ? 'Edit crop' : 'Crop'}
+                                    >
+                                        <ScissorsIcon className="w-4 h-4" />
+                                    </button>
+                                )}
+                                <button 
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        removeFile(item.id);
+                                    }}
+                                    disabled={disabled || isGenerating}
+                                    className="ml-2 p-1.5 hover:bg-zinc-700 rounded-full text-zinc-500 hover:text-red-400 transition-colors"
+                                >
+                                    <XMarkIcon className="w-5 h-5" />
+                                </button>
                             </div>
-                            <button 
-                                onClick={clearFile}
-                                disabled={disabled}
-                                className="p-1.5 hover:bg-zinc-700 rounded-full text-zinc-500 hover:text-red-400 transition-colors"
-                            >
-                                <XMarkIcon className="w-5 h-5" />
-                            </button>
-                        </div>
+                        ))}
+
+                        {/* Upload size after downscaling / rasterising */}
+                        <p className={`text-[11px] text-right font-mono ${uploadBlocked ? 'text-red-400' : 'text-zinc-500'}`}>
+                            {unreadableData
+                                ? 'Remove the data files that could not be read'
+                                : tooManyFiles
+                                ? `${uploadFileCount} files after splitting PDF pages (max ${MAX_FILES})`
+                                : `Upload ${formatBytes(uploadBytes)} of ${formatBytes(MAX_PAYLOAD_BYTES)}${uploadTooLarge ? ' - remove or crop files' : ''}`}
+                        </p>
                     </div>
                 )}
 
                 {/* Input Controls */}
                 <div className="w-full max-w-2xl relative">
+                    {(modeTemplates.length > 0 || onSaveTemplate) && (
+                        <TemplateStrip
+                            templates={modeTemplates}
+                            canSave={Boolean(prompt.trim())}
+                            disabled={disabled || isGenerating}
+                            onApply={applyTemplate}
+                            onSave={onSaveTemplate ? handleSaveTemplate : undefined}
+                            onDelete={onDeleteTemplate ? handleDeleteTemplate : undefined}
+                        />
+                    )}
+
                     <div className={`relative flex items-end gap-2 bg-zinc-950/80 border focus-within:ring-1 rounded-xl p-2 transition-all shadow-lg ${disabled ? 'border-red-900/20' : 'border-zinc-700 focus-within:border-orange-500/50 focus-within:ring-orange-500/50'}`}>
                         
                         {/* Attach Button */}
                         <button 
                             className="p-2 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-lg transition-colors flex-shrink-0"
                             onClick={() => fileInputRef.current?.click()}
-                            title="Attach Image or PDF"
-                            disabled={disabled}
+                            title="Attach Images, PDFs, HTML Pages or Data (CSV / JSON)"
+                            disabled={disabled || selectedFiles.length >= MAX_FILES}
                         >
                             <PaperClipIcon className="w-5 h-5" />
                         </button>
@@ -263,18 +634,28 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                         <textarea
                             ref={textareaRef}
                             value={prompt}
-                            onChange={(e) => setPrompt(e.target.value)}
+                            onChange={(e) => {
+                                setPrompt(e.target.value);
+                                // An emptied prompt no longer comes from the template
+                                if (!e.target.value.trim()) setAppliedTemplate(null);
+                            }}
                             onKeyDown={handleKeyDown}
                             placeholder={
                                 disabled 
                                 ? "Limit reached." 
-                                : selectedFile 
+                                : hasFiles 
                                     ? "Add instructions (optional)..." 
                                     : mode === 'social' 
                                         ? "Describe the video vibe (e.g., 'Energetic sneaker ad')..."
                                         : mode === 'logo'
                                             ? "Describe the brand (e.g., 'Minimal coffee shop')..."
-                                            : "Describe what you want to build..."
+                                            : mode === 'slides'
+                                                ? "Paste an outline or describe the deck (e.g., 'Seed pitch for a bike-sharing app')..."
+                                                : mode === 'email'
+                                                    ? "Describe the email (e.g., 'Monthly newsletter for a bakery')..."
+                                                    : mode === 'dashboard'
+                                                        ? "Attach a CSV / JSON file and describe the dashboard..."
+                                                        : "Describe what you want to build..."
                             }
                             className={`w-full bg-transparent border-none text-zinc-100 placeholder-zinc-600 focus:ring-0 resize-none py-2 px-1 max-h-32 text-sm md:text-base leading-relaxed ${disabled ? 'cursor-not-allowed opacity-50' : ''}`}
                             rows={1}
@@ -283,11 +664,11 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
 
                         {/* Submit Button */}
                         <button
-                            onClick={handleSubmit}
-                            disabled={!prompt.trim() && !selectedFile || disabled || isGenerating}
+                            onClick={() => handleSubmit()}
+                            disabled={!prompt.trim() && !hasFiles || hasEmptyFields || uploadBlocked || disabled || isGenerating}
                             className={`
                                 p-2 rounded-lg flex-shrink-0 transition-all duration-200
-                                ${(!prompt.trim() && !selectedFile) || disabled
+                                ${(!prompt.trim() && !hasFiles) || hasEmptyFields || uploadBlocked || disabled
                                     ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' 
                                     : 'bg-orange-600 text-white hover:bg-orange-500 shadow-lg shadow-orange-900/20'
                                 }
@@ -300,6 +681,90 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                             )}
                         </button>
                     </div>
+
+                    {/* Template Fields - one per {placeholder} in the prompt */}
+                    {placeholders.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2 text-[11px] sm:text-xs">
+                            {placeholders.map((name) => (
+                                <label key={name} className="flex items-center bg-zinc-900/80 border border-zinc-800 focus-within:border-orange-500/50 rounded-lg overflow-hidden">
+                                    <span className="px-2 py-1 font-mono text-orange-400/80 bg-zinc-800/60">{name}</span>
+                                    <input
+                                        type="text"
+                                        value={fieldValues[name] || ''}
+                                        onChange={(e) => setFieldValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                                        onKeyDown={handleKeyDown}
+                                        disabled={disabled || isGenerating}
+                                        className="w-28 sm:w-36 bg-transparent border-none px-2 py-1 text-zinc-100 placeholder-zinc-600 focus:ring-0 focus:outline-none"
+                                        placeholder="..."
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Cache hit: the same request again would reuse the result too */}
+                    {lastResultReused && (
+                        <div className="flex items-center justify-between gap-2 mt-2 px-3 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900/50 text-[11px] sm:text-xs text-zinc-400">
+                            <span>The last result was reused from an identical request and didn't count toward your limit.</span>
+                            <button
+                                onClick={() => handleSubmit(true)}
+                                disabled={!prompt.trim() && !hasFiles || hasEmptyFields || uploadBlocked || disabled || isGenerating}
+                                className="flex items-center space-x-1 flex-shrink-0 text-orange-400 hover:text-orange-300 disabled:opacity-40"
+                            >
+                                <ArrowPathIcon className="w-3.5 h-3.5" />
+                                <span>Regenerate anyway</span>
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between mt-2 gap-2 text-[10px] sm:text-xs">
+                        {/* Brand Kit Selector */}
+                        {onManageBrandKits ? (
+                            <div className="flex items-center space-x-2 min-w-0">
+                                <span className="text-zinc-500 font-mono uppercase tracking-wider">Brand</span>
+                                <select
+                                    value={brandKitId ?? ''}
+                                    onChange={(e) => onBrandKitChange?.(e.target.value || null)}
+                                    disabled={disabled || isGenerating}
+                                    className="max-w-[8rem] sm:max-w-[12rem] bg-zinc-900/80 border border-zinc-800 rounded-full px-2 py-1 text-zinc-300 focus:outline-none focus:border-orange-500/50 truncate disabled:opacity-50"
+                                >
+                                    <option value="">None</option>
+                                    {brandKits.map((kit) => (
+                                        <option key={kit.id} value={kit.id}>{kit.name}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={onManageBrandKits}
+                                    className="p-1 text-zinc-500 hover:text-orange-400 transition-colors"
+                                    title="Manage brand kits"
+                                >
+                                    <SwatchIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ) : <span />}
+
+                        {/* Variants Selector */}
+                        <div className="flex items-center space-x-2">
+                            <span className="text-zinc-500 font-mono uppercase tracking-wider">Variants</span>
+                            <div className="inline-flex bg-zinc-900/80 rounded-full p-0.5 border border-zinc-800">
+                                {VARIANT_OPTIONS.map((n) => (
+                                    <button
+                                        key={n}
+                                        onClick={() => setVariantCount(n)}
+                                        disabled={disabled || isGenerating || (n > 1 && n > maxVariants)}
+                                        title={n > 1 && n > maxVariants ? 'Not enough generations left today' : `${n} ${n === 1 ? 'design' : 'designs side by side'}`}
+                                        className={`w-6 h-6 rounded-full font-mono transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+                                            variantCount === n
+                                                ? 'bg-zinc-800 text-orange-400 border border-zinc-700'
+                                                : 'text-zinc-500 hover:text-zinc-300'
+                                        }`}
+                                    >
+                                        {n}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
                 </div>
 
             </div>
@@ -307,13 +772,23 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
             <input
                 type="file"
                 ref={fileInputRef}
-                accept="image/*,application/pdf"
+                accept={`image/*,application/pdf,${HTML_ACCEPT},${DATASET_ACCEPT}`}
+                multiple
                 className="hidden"
                 onChange={handleFileChange}
                 disabled={isGenerating || disabled}
             />
         </div>
       </div>
+
+      {croppingFile && (
+        <ImageCropDialog
+          file={croppingFile.file}
+          crop={croppingFile.crop}
+          onApply={(crop) => setFileCrop(croppingFile.id, crop)}
+          onClose={() => setCroppingId(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
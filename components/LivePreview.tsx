@@ -14,18 +14,73 @@ import {
   PhotoIcon,
   SparklesIcon,
   DocumentIcon,
+  PaperAirplaneIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon,
+  WrenchScrewdriverIcon,
+  ArrowPathIcon,
+  PresentationChartBarIcon,
+  DocumentArrowDownIcon,
+  DevicePhoneMobileIcon,
+  CursorArrowRaysIcon,
+  InformationCircleIcon,
+  ClockIcon,
 } from '@heroicons/react/24/outline';
-import { Creation } from './CreationHistory';
+import { Creation, CreationSource } from './CreationHistory';
 import { requestDownload } from '../services/credits';
 import { InsufficientCreditsModal } from './InsufficientCreditsModal';
+import { GenerationErrorPanel } from './GenerationErrorPanel';
+import { GenerationError } from '../services/generation-errors';
+import { SlidePresenter } from './SlidePresenter';
+import { CreationDetails } from './CreationDetails';
+import { RevisionHistory } from './RevisionHistory';
+import { printDeck } from '../services/slides';
+import { isRepairable } from '../services/gemini';
+import { formatBytes, decodeHtmlDataUrl } from '../services/file-preprocessing';
+import { ElementSelection, elementSelector, findSourceElement } from '../services/inspector';
 
 interface LivePreviewProps {
   creation: Creation | null;
   isLoading: boolean;
+  streamingHtml?: string; // Partial HTML while a generation is streaming
   isFocused: boolean;
   onReset: () => void;
+  onCancel?: () => void; // Abort the in-flight generation
   onPurchase?: (id: string, plan: 'onetime' | 'subscription') => void;
   onMarkPurchased?: (id: string) => void;
+  onRefine?: (instruction: string) => Promise<void>;
+  onRepair?: () => Promise<void>; // Fix structural problems listed in creation.warnings
+  variants?: Creation[]; // Parallel variants awaiting a pick
+  onPromoteVariant?: (creation: Creation) => void;
+  error?: GenerationError | null; // Why the last generation failed
+  onRetry?: () => void; // Re-run the failed generation
+  onSignIn?: () => void;
+  onUpgrade?: () => Promise<void>;
+  cachedAt?: string | null; // Set when the creation was reused from an identical recent request
+  onRegenerate?: () => void; // Generate it again, bypassing the cache
+  onRefineElement?: (selection: ElementSelection, instruction: string) => Promise<void>; // Click-to-edit
+  onRestoreRevision?: (revision: number) => Promise<void>; // Make a saved revision current again
+}
+
+// Minimum delay between iframe refreshes while streaming (each refresh reloads the document)
+const PARTIAL_RENDER_INTERVAL = 400;
+
+// Email mode: phone widths the preview can be narrowed to (null = full width)
+const EMAIL_PREVIEW_WIDTHS = [null, 414, 375, 320];
+// Gmail clips larger messages (kept in sync with server/html-validation.js)
+const EMAIL_CLIP_BYTES = 102 * 1024;
+
+// Click-to-edit popover size, used to keep it inside the preview
+const EDIT_POPOVER_WIDTH = 320;
+const EDIT_POPOVER_HEIGHT = 120;
+
+// Position of an element of the preview document, relative to the preview panel
+interface OverlayRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
 }
 
 // Add type definition for the global pdfjsLib and html2canvas
@@ -172,6 +227,243 @@ const PdfRenderer = ({ dataUrl }: { dataUrl: string }) => {
   );
 };
 
+// Follow-up prompt for refining the current creation
+const RefineBar = ({
+  creation,
+  onRefine,
+}: {
+  creation: Creation;
+  onRefine: (instruction: string) => Promise<void>;
+}) => {
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const turns = creation.turns || [];
+
+  const handleSubmit = async () => {
+    const text = instruction.trim();
+    if (!text || isRefining) return;
+
+    setIsRefining(true);
+    setError(null);
+    try {
+      await onRefine(text);
+      setInstruction('');
+    } catch (err: any) {
+      console.error('Refinement failed:', err);
+      setError(err.message || 'Refinement failed. Please try again.');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  return (
+    <div className="shrink-0 border-t border-zinc-800 bg-[#121214] px-2 sm:px-4 py-2 space-y-1.5">
+      {turns.length > 0 && (
+        <div className="flex items-center space-x-2 overflow-x-auto scrollbar-hide">
+          <span className="text-[10px] font-mono uppercase text-zinc-600 flex-shrink-0">
+            Rev {creation.revision || 1}
+          </span>
+          {turns.map((turn, i) => (
+            <span
+              key={i}
+              title={`${turn.selector ? `${turn.selector}\n` : ''}${turn.timestamp.toLocaleString()}`}
+              className="text-[10px] text-zinc-400 bg-zinc-900 border border-zinc-800 rounded-full px-2 py-0.5 whitespace-nowrap flex-shrink-0"
+            >
+              {turn.selector && <CursorArrowRaysIcon className="inline w-3 h-3 mr-0.5 -mt-0.5" />}
+              {turn.instruction}
+            </span>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-[11px] text-red-400">{error}</p>}
+      <div className="flex items-center gap-2 bg-zinc-950/80 border border-zinc-700 focus-within:border-orange-500/50 rounded-lg p-1.5">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder="Ask for a change (e.g. 'make the header blue')..."
+          disabled={isRefining}
+          className="flex-1 bg-transparent border-none text-zinc-100 placeholder-zinc-600 focus:ring-0 focus:outline-none text-xs sm:text-sm px-1"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={!instruction.trim() || isRefining}
+          className={`p-1.5 rounded-md flex-shrink-0 transition-colors ${
+            !instruction.trim() || isRefining
+              ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
+              : 'bg-orange-600 text-white hover:bg-orange-500'
+          }`}
+          title="Refine"
+        >
+          {isRefining ? (
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+          ) : (
+            <PaperAirplaneIcon className="w-4 h-4" />
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Prompt for rewriting the element picked in inspect mode
+const ElementEditPopover = ({
+  selection,
+  style,
+  onSubmit,
+  onClose,
+}: {
+  selection: ElementSelection;
+  style: React.CSSProperties;
+  onSubmit: (instruction: string) => Promise<void>;
+  onClose: () => void;
+}) => {
+  const [instruction, setInstruction] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    const text = instruction.trim();
+    if (!text || isSaving) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(text);
+    } catch (err: any) {
+      console.error('Element edit failed:', err);
+      setError(err.message || 'Could not change this element. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute z-20 rounded-lg border border-zinc-700 bg-[#121214] shadow-2xl p-2 space-y-1.5"
+      style={{ ...style, width: EDIT_POPOVER_WIDTH }}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] font-mono uppercase text-orange-400 truncate" title={selection.selector}>
+          &lt;{selection.tagName}&gt;
+        </span>
+        <button onClick={onClose} className="p-0.5 text-zinc-500 hover:text-zinc-200" title="Cancel">
+          <XMarkIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {error && <p className="text-[11px] text-red-400">{error}</p>}
+      <div className="flex items-center gap-2 bg-zinc-950/80 border border-zinc-700 focus-within:border-orange-500/50 rounded-md p-1">
+        <input
+          type="text"
+          autoFocus
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmit();
+            } else if (e.key === 'Escape') {
+              onClose();
+            }
+          }}
+          placeholder="Change this element (e.g. 'make it rounded')..."
+          disabled={isSaving}
+          className="flex-1 min-w-0 bg-transparent border-none text-zinc-100 placeholder-zinc-600 focus:ring-0 focus:outline-none text-xs px-1"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={!instruction.trim() || isSaving}
+          className={`p-1 rounded flex-shrink-0 transition-colors ${
+            !instruction.trim() || isSaving
+              ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
+              : 'bg-orange-600 text-white hover:bg-orange-500'
+          }`}
+          title="Apply"
+        >
+          {isSaving ? (
+            <div className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+          ) : (
+            <PaperAirplaneIcon className="w-3.5 h-3.5" />
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Problems found in the generated HTML, with a one-click structural repair
+const WarningsBar = ({
+  creation,
+  onRepair,
+}: {
+  creation: Creation;
+  onRepair: () => Promise<void>;
+}) => {
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const warnings = creation.warnings || [];
+
+  const handleRepair = async () => {
+    setIsRepairing(true);
+    setError(null);
+    try {
+      await onRepair();
+    } catch (err: any) {
+      console.error('Repair failed:', err);
+      setError(err.message || 'Repair failed. Please try again.');
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  return (
+    <div className="shrink-0 border-t border-amber-500/20 bg-amber-500/5 px-2 sm:px-4 py-2 space-y-1">
+      <div className="flex items-center gap-2">
+        <ExclamationTriangleIcon className="w-4 h-4 text-amber-400 flex-shrink-0" />
+        <button
+          onClick={() => setExpanded((value) => !value)}
+          className="flex-1 min-w-0 text-left text-[11px] sm:text-xs text-amber-200/90 truncate"
+          title={expanded ? 'Hide details' : 'Show details'}
+        >
+          {warnings.length === 1
+            ? warnings[0].message
+            : `${warnings.length} problems found in the generated HTML`}
+        </button>
+        {/* Email compatibility warnings are fixed by refining, not by repair */}
+        {warnings.some(isRepairable) && (
+          <button
+            onClick={handleRepair}
+            disabled={isRepairing}
+            className="flex items-center space-x-1 px-2 py-1 rounded-md text-[11px] font-medium bg-amber-500/10 text-amber-300 border border-amber-500/30 hover:bg-amber-500/20 disabled:opacity-50 flex-shrink-0"
+          >
+            {isRepairing ? (
+              <div className="w-3.5 h-3.5 border-2 border-amber-300/30 border-t-amber-300 rounded-full animate-spin"></div>
+            ) : (
+              <WrenchScrewdriverIcon className="w-3.5 h-3.5" />
+            )}
+            <span>Repair</span>
+          </button>
+        )}
+      </div>
+      {expanded && warnings.length > 1 && (
+        <ul className="pl-6 space-y-0.5 text-[11px] text-amber-200/70 list-disc list-inside">
+          {warnings.map((warning) => (
+            <li key={warning.code}>{warning.message}</li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="pl-6 text-[11px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
 // Payment Modal Component
 const PurchaseModal = ({
   isOpen,
@@ -347,19 +639,47 @@ const PurchaseModal = ({
 export const LivePreview: React.FC<LivePreviewProps> = ({
   creation,
   isLoading,
+  streamingHtml = '',
   isFocused,
   onReset,
+  onCancel,
   onPurchase,
   onMarkPurchased,
+  onRefine,
+  onRepair,
+  variants = [],
+  onPromoteVariant,
+  error = null,
+  onRetry,
+  onSignIn,
+  onUpgrade,
+  cachedAt = null,
+  onRegenerate,
+  onRefineElement,
+  onRestoreRevision,
 }) => {
   const [loadingStep, setLoadingStep] = useState(0);
   const [showSplitView, setShowSplitView] = useState(false);
+  const [sourceIndex, setSourceIndex] = useState(0);
   const [showPurchaseModal, setShowPurchaseModal] = useState(false);
   const [showInsufficientCredits, setShowInsufficientCredits] = useState(false);
   const [currentCredits, setCurrentCredits] = useState(0);
   const [isExporting, setIsExporting] = useState(false);
   const [isExportingPng, setIsExportingPng] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [showPresenter, setShowPresenter] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [emailWidth, setEmailWidth] = useState<number | null>(null);
+  const [partialHtml, setPartialHtml] = useState('');
+  const lastPartialRenderRef = useRef(0);
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  // Click-to-edit: hovered / picked element of the preview document
+  const [inspecting, setInspecting] = useState(false);
+  const [hoveredRect, setHoveredRect] = useState<OverlayRect | null>(null);
+  const [picked, setPicked] = useState<{ selection: ElementSelection; rect: OverlayRect } | null>(null);
+  const [inspectError, setInspectError] = useState<string | null>(null);
+  const previewPanelRef = useRef<HTMLDivElement>(null);
 
   // Handle loading animation steps
   useEffect(() => {
@@ -374,14 +694,159 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
     }
   }, [isLoading]);
 
+  // Throttle streamed HTML into the iframe
+  useEffect(() => {
+    if (!streamingHtml) {
+      setPartialHtml('');
+      return;
+    }
+    const elapsed = Date.now() - lastPartialRenderRef.current;
+    const timeout = setTimeout(() => {
+      lastPartialRenderRef.current = Date.now();
+      setPartialHtml(streamingHtml);
+    }, Math.max(0, PARTIAL_RENDER_INTERVAL - elapsed));
+    return () => clearTimeout(timeout);
+  }, [streamingHtml]);
+
+  // All input sources (older creations only have a single originalImage)
+  const sources: CreationSource[] =
+    creation?.sourceFiles && creation.sourceFiles.length > 0
+      ? creation.sourceFiles
+      : creation?.originalImage
+      ? [{ dataUrl: creation.originalImage, name: 'Input Source' }]
+      : [];
+  const activeSource = sources[Math.min(sourceIndex, sources.length - 1)];
+
   // Default to Split View when a new creation with an image is loaded
   useEffect(() => {
-    if (creation?.originalImage) {
+    if (creation?.originalImage || creation?.sourceFiles?.length) {
       setShowSplitView(true);
     } else {
       setShowSplitView(false);
     }
-  }, [creation]);
+    setSourceIndex(0);
+    setShowPresenter(false);
+    setEmailWidth(null);
+    setInspecting(false);
+  }, [creation?.id]);
+
+  // Leaving inspect mode drops the highlight and the popover
+  useEffect(() => {
+    if (inspecting) return;
+    setHoveredRect(null);
+    setPicked(null);
+    setInspectError(null);
+  }, [inspecting]);
+
+  // Inspect mode: highlight elements under the pointer and pick one on click (instead of
+  // the page handling the click). Listeners are re-attached whenever the document reloads.
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    const html = creation?.html;
+    if (!inspecting || !iframe || !html) return;
+
+    let detach: (() => void) | undefined;
+    let pickedElement: Element | null = null;
+
+    const toOverlayRect = (element: Element): OverlayRect => {
+      const frame = iframe.getBoundingClientRect();
+      const panel = previewPanelRef.current?.getBoundingClientRect() ?? frame;
+      const rect = element.getBoundingClientRect();
+      return {
+        top: frame.top - panel.top + rect.top,
+        left: frame.left - panel.left + rect.left,
+        width: rect.width,
+        height: rect.height,
+      };
+    };
+
+    const attach = () => {
+      detach?.();
+      const doc = iframe.contentDocument;
+      if (!doc?.body) return;
+
+      const pickable = (target: EventTarget | null): Element | null => {
+        const element = target as Element | null;
+        return element?.nodeType === Node.ELEMENT_NODE && element !== doc.body && doc.body.contains(element) ? element : null;
+      };
+      const handleMouseOver = (event: MouseEvent) => {
+        const element = pickable(event.target);
+        setHoveredRect(element ? toOverlayRect(element) : null);
+      };
+      const handleMouseLeave = () => setHoveredRect(null);
+      const handleClick = (event: MouseEvent) => {
+        const element = pickable(event.target);
+        if (!element) return;
+        event.preventDefault();
+        event.stopPropagation();
+
+        // The live DOM may differ from the source (scripts add and change elements), so the
+        // element is looked up in the creation's HTML and edited there
+        const selection = findSourceElement(html, elementSelector(element), element.tagName.toLowerCase());
+        if (!selection) {
+          pickedElement = null;
+          setPicked(null);
+          setInspectError("This element is built by the page's scripts and can't be edited on its own. Describe the change below instead.");
+          return;
+        }
+        pickedElement = element;
+        setInspectError(null);
+        setPicked({ selection, rect: toOverlayRect(element) });
+      };
+      const handleScroll = () => {
+        setHoveredRect(null);
+        if (pickedElement) {
+          const rect = toOverlayRect(pickedElement);
+          setPicked((current) => (current ? { ...current, rect } : current));
+        }
+      };
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Escape') setInspecting(false);
+      };
+
+      const previousCursor = doc.documentElement.style.cursor;
+      doc.documentElement.style.cursor = 'crosshair';
+      doc.addEventListener('mouseover', handleMouseOver);
+      doc.documentElement.addEventListener('mouseleave', handleMouseLeave);
+      doc.addEventListener('click', handleClick, true);
+      doc.addEventListener('scroll', handleScroll, true);
+      doc.addEventListener('keydown', handleKeyDown);
+      detach = () => {
+        doc.documentElement.style.cursor = previousCursor;
+        doc.removeEventListener('mouseover', handleMouseOver);
+        doc.documentElement.removeEventListener('mouseleave', handleMouseLeave);
+        doc.removeEventListener('click', handleClick, true);
+        doc.removeEventListener('scroll', handleScroll, true);
+        doc.removeEventListener('keydown', handleKeyDown);
+      };
+    };
+
+    attach();
+    iframe.addEventListener('load', attach);
+    return () => {
+      iframe.removeEventListener('load', attach);
+      detach?.();
+      setHoveredRect(null);
+    };
+  }, [inspecting, creation?.html]);
+
+  const handleRefineElement = async (instruction: string) => {
+    if (!picked || !onRefineElement) return;
+    await onRefineElement(picked.selection, instruction);
+    // The document reloads with the change; pick again for another edit
+    setPicked(null);
+  };
+
+  // Below the picked element when there is room, otherwise above it; always inside the panel
+  const popoverStyle = (rect: OverlayRect): React.CSSProperties => {
+    const panel = previewPanelRef.current;
+    const width = panel?.clientWidth ?? EDIT_POPOVER_WIDTH;
+    const height = panel?.clientHeight ?? EDIT_POPOVER_HEIGHT;
+    const below = rect.top + rect.height + 8;
+    const top = below + EDIT_POPOVER_HEIGHT <= height ? below : Math.max(8, rect.top - EDIT_POPOVER_HEIGHT - 8);
+    const left = Math.min(Math.max(8, rect.left), Math.max(8, width - EDIT_POPOVER_WIDTH - 8));
+    return { top: Math.min(top, Math.max(8, height - EDIT_POPOVER_HEIGHT - 8)), left };
+  };
 
   const handleDownloadHtml = () => {
     if (!creation || !creation.html) return;
@@ -439,6 +904,22 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
     }
   };
 
+  // Email mode: bytes as sent (UTF-8)
+  const emailSize = creation?.mode === 'email' ? new Blob([creation.html]).size : 0;
+  const cycleEmailWidth = () =>
+    setEmailWidth((width) => EMAIL_PREVIEW_WIDTHS[(EMAIL_PREVIEW_WIDTHS.indexOf(width) + 1) % EMAIL_PREVIEW_WIDTHS.length]);
+
+  // Decks print one slide per page (see server/slides.js); the print dialog saves the PDF
+  const handleExportPdf = async () => {
+    if (!creation) return;
+    setIsExportingPdf(true);
+    try {
+      await printDeck(creation.html, creation.name);
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
   const handleExportClick = async () => {
     if (!creation) return;
 
@@ -493,7 +974,7 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
   };
 
   // 🔒 IMPORTANT: avoid showing the preview overlay when nothing is happening
-  if (!isFocused && !isLoading && !creation) {
+  if (!isFocused && !isLoading && !creation && variants.length === 0 && !error) {
     return null;
   }
 
@@ -550,20 +1031,45 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
         {/* Center: Title */}
         <div className="flex items-center space-x-1.5 sm:space-x-2 text-zinc-500 flex-1 min-w-0 px-1 sm:px-2">
           <CodeBracketIcon className="w-2.5 h-2.5 sm:w-3 sm:h-3 flex-shrink-0" />
-          <span className="text-[10px] sm:text-[11px] font-mono uppercase tracking-wider truncate">
+          <span
+            className="text-[10px] sm:text-[11px] font-mono uppercase tracking-wider truncate"
+            title={!isLoading && creation?.model ? `Generated with ${creation.model}` : undefined}
+          >
             {isLoading
               ? 'Processing...'
+              : error
+              ? 'Generation failed'
               : creation
               ? creation.name
+              : variants.length > 0
+              ? `Choose a variant (${variants.length})`
               : 'Preview'}
           </span>
+          {!isLoading && creation && cachedAt !== null && (
+            <span
+              className="flex items-center space-x-1 px-1.5 py-0.5 rounded border border-zinc-800 bg-zinc-900/50 text-[10px] text-zinc-400 flex-shrink-0"
+              title={`Reused from an identical request${cachedAt ? ` (${new Date(cachedAt).toLocaleString()})` : ''}; not counted toward your daily limit`}
+            >
+              <span>Reused</span>
+              {onRegenerate && (
+                <button
+                  onClick={onRegenerate}
+                  className="flex items-center space-x-0.5 text-orange-400 hover:text-orange-300"
+                  title="Regenerate anyway (counts as a generation)"
+                >
+                  <ArrowPathIcon className="w-3 h-3" />
+                  <span className="hidden sm:inline">Regenerate</span>
+                </button>
+              )}
+            </span>
+          )}
         </div>
 
         {/* Right: Actions - Mobile Optimized */}
         <div className="flex items-center justify-end space-x-1 sm:space-x-2 flex-shrink-0">
           {!isLoading && creation && (
             <>
-              {creation.originalImage && (
+              {sources.length > 0 && (
                 <button
                   onClick={() => setShowSplitView(!showSplitView)}
                   title={
@@ -579,6 +1085,98 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                 </button>
               )}
 
+              {/* Slide decks: presenter view and PDF export */}
+              {creation.mode === 'slides' && (
+                <>
+                  <button
+                    onClick={() => setShowPresenter(true)}
+                    className="p-1 sm:p-1.5 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded-md transition-colors"
+                    title="Presenter View"
+                  >
+                    <PresentationChartBarIcon className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                  </button>
+                  <button
+                    onClick={handleExportPdf}
+                    disabled={isExportingPdf}
+                    className="p-1 sm:p-1.5 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded-md transition-colors"
+                    title="Export Slides (PDF)"
+                  >
+                    {isExportingPdf ? (
+                      <div className="w-3.5 h-3.5 sm:w-4 sm:h-4 border-2 border-zinc-500 border-t-zinc-200 rounded-full animate-spin"></div>
+                    ) : (
+                      <DocumentArrowDownIcon className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    )}
+                  </button>
+                </>
+              )}
+
+              {/* Email templates: size (Gmail clips large emails) and mobile width preview */}
+              {creation.mode === 'email' && (
+                <>
+                  <span
+                    className={`hidden sm:inline text-[10px] font-mono px-1.5 py-0.5 rounded border ${
+                      emailSize > EMAIL_CLIP_BYTES ? 'border-red-500/40 text-red-400' : 'border-zinc-800 text-zinc-500'
+                    }`}
+                    title={`Email size (Gmail clips emails over ${formatBytes(EMAIL_CLIP_BYTES)})`}
+                  >
+                    {formatBytes(emailSize)}
+                  </span>
+                  <button
+                    onClick={cycleEmailWidth}
+                    className={`flex items-center space-x-1 p-1 sm:p-1.5 rounded-md transition-all ${
+                      emailWidth ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800'
+                    }`}
+                    title={emailWidth ? `Mobile width: ${emailWidth}px (click for narrower)` : 'Preview at mobile width'}
+                  >
+                    <DevicePhoneMobileIcon className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    {emailWidth && <span className="text-[10px] font-mono">{emailWidth}</span>}
+                  </button>
+                </>
+              )}
+
+              {/* Click-to-edit: pick an element in the preview and change only that */}
+              {onRefineElement && hasHtml && (
+                <button
+                  onClick={() => setInspecting((value) => !value)}
+                  className={`p-1 sm:p-1.5 rounded-md transition-all ${
+                    inspecting ? 'bg-orange-600 text-white' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800'
+                  }`}
+                  title={inspecting ? 'Stop editing elements (Esc)' : 'Edit an element (click it in the preview)'}
+                >
+                  <CursorArrowRaysIcon className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                </button>
+              )}
+
+              {/* Saved revisions: compare and restore */}
+              {onRestoreRevision && hasHtml && (
+                <button
+                  onClick={() => {
+                    setShowHistory((value) => !value);
+                    setShowDetails(false);
+                  }}
+                  className={`p-1 sm:p-1.5 rounded-md transition-all ${
+                    showHistory ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800'
+                  }`}
+                  title="History"
+                >
+                  <ClockIcon className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                </button>
+              )}
+
+              {/* How this creation was generated */}
+              <button
+                onClick={() => {
+                  setShowDetails((value) => !value);
+                  setShowHistory(false);
+                }}
+                className={`p-1 sm:p-1.5 rounded-md transition-all ${
+                  showDetails ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800'
+                }`}
+                title="Details"
+              >
+                <InformationCircleIcon className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </button>
+
               {/* PNG Export Button */}
               <button
                 onClick={handleExportPng}
@@ -627,7 +1225,31 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
 
       {/* Main Content Area */}
       <div className="relative flex-1 w-full bg-[#09090b] overflow-hidden">
-        {isLoading ? (
+        {isLoading && partialHtml ? (
+          // Streaming: render the partial document as it is generated
+          <div className="absolute inset-0 bg-white">
+            <div className="absolute top-3 right-3 z-10 flex items-center space-x-2">
+              <div className="flex items-center space-x-2 bg-black/80 backdrop-blur text-zinc-300 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800 pointer-events-none">
+                <div className="w-1.5 h-1.5 bg-orange-400 rounded-full animate-pulse"></div>
+                <span>Streaming</span>
+              </div>
+              {onCancel && (
+                <button
+                  onClick={onCancel}
+                  className="bg-black/80 backdrop-blur text-zinc-300 hover:text-red-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800 hover:border-red-500/50 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+            <iframe
+              title="Streaming Preview"
+              srcDoc={partialHtml}
+              className="w-full h-full bg-white block"
+              sandbox="allow-scripts"
+            />
+          </div>
+        ) : isLoading ? (
           <div className="absolute inset-0 flex flex-col items-center justify-center p-8 w-full h-full z-20">
             {/* Technical Loading State */}
             <div className="w-full max-w-md space-y-8">
@@ -682,34 +1304,116 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                   completed={loadingStep > 3}
                 />
               </div>
+
+              {onCancel && (
+                <div className="flex justify-center">
+                  <button
+                    onClick={onCancel}
+                    className="flex items-center space-x-2 px-4 py-2 rounded-lg border border-zinc-800 bg-zinc-900/50 text-zinc-400 hover:text-red-400 hover:border-red-500/50 text-xs font-mono uppercase tracking-wide transition-colors"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                    <span>Cancel Generation</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : error ? (
+          <GenerationErrorPanel
+            error={error}
+            onRetry={onRetry}
+            onSignIn={onSignIn}
+            onUpgrade={onUpgrade}
+            onEditPrompt={onReset}
+          />
+        ) : !creation && variants.length > 0 ? (
+          // Variants grid: promote one to the active creation, the rest stay in the archive
+          <div className="absolute inset-0 overflow-y-auto p-2 sm:p-4">
+            <div className="grid gap-2 sm:gap-4 h-full min-h-[480px] grid-cols-1 md:grid-cols-2 auto-rows-fr">
+              {variants.map((variant) => (
+                <div
+                  key={variant.id}
+                  className="relative flex flex-col border border-zinc-800 rounded-lg overflow-hidden bg-white min-h-[240px]"
+                >
+                  <iframe
+                    title={variant.name}
+                    srcDoc={variant.html}
+                    className="w-full flex-1 bg-white block pointer-events-none"
+                    sandbox="allow-scripts"
+                  />
+                  <div className="flex items-center justify-between px-3 py-2 bg-[#121214] border-t border-zinc-800">
+                    <span className="text-[10px] sm:text-xs font-mono text-zinc-400 truncate pr-2">
+                      {variant.name}
+                    </span>
+                    <button
+                      onClick={() => onPromoteVariant?.(variant)}
+                      className="flex-shrink-0 px-2 sm:px-3 py-1 rounded-md text-[10px] sm:text-xs font-bold bg-orange-600 text-white hover:bg-orange-500 transition-colors"
+                    >
+                      Use this
+                    </button>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
         ) : hasHtml ? (
           <div className="absolute inset-0 flex flex-col md:flex-row">
-            {/* Split View: Left Panel (Original Image) */}
-            {showSplitView && creation?.originalImage && (
+            {/* Split View: Left Panel (Source Files) */}
+            {showSplitView && activeSource && (
               <div className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-800 bg-[#0c0c0e] relative flex flex-col shrink-0">
-                <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">
-                  Input Source
-                </div>
-                <div className="w-full h-full p-6 flex items-center justify-center overflow-hidden">
-                  {creation.originalImage.startsWith('data:application/pdf') ? (
-                    <PdfRenderer dataUrl={creation.originalImage} />
-                  ) : (
-                    <img
-                      src={creation.originalImage}
-                      alt="Original Input"
-                      className="max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded"
-                    />
+                <div className="absolute top-4 left-4 right-4 z-10 flex items-center justify-between pointer-events-none">
+                  <div className="bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800 truncate max-w-[70%]">
+                    {sources.length > 1 && `${sourceIndex + 1}/${sources.length} · `}
+                    {activeSource.label || activeSource.name}
+                  </div>
+                  {sources.length > 1 && (
+                    <div className="flex items-center space-x-1 pointer-events-auto">
+                      <button
+                        onClick={() => setSourceIndex((i) => (i - 1 + sources.length) % sources.length)}
+                        className="p-1 bg-black/80 backdrop-blur text-zinc-400 hover:text-zinc-100 rounded border border-zinc-800"
+                        title="Previous source"
+                      >
+                        <ChevronLeftIcon className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => setSourceIndex((i) => (i + 1) % sources.length)}
+                        className="p-1 bg-black/80 backdrop-blur text-zinc-400 hover:text-zinc-100 rounded border border-zinc-800"
+                        title="Next source"
+                      >
+                        <ChevronRightIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
                   )}
                 </div>
+                {activeSource.dataUrl.startsWith('data:text/html') ? (
+                  // Remixed page: rendered as it was uploaded
+                  <iframe
+                    title={activeSource.label || activeSource.name}
+                    srcDoc={decodeHtmlDataUrl(activeSource.dataUrl)}
+                    className="w-full h-full bg-white block"
+                    sandbox="allow-scripts"
+                  />
+                ) : (
+                  <div className="w-full h-full p-6 flex items-center justify-center overflow-hidden">
+                    {activeSource.dataUrl.startsWith('data:application/pdf') ? (
+                      <PdfRenderer dataUrl={activeSource.dataUrl} />
+                    ) : (
+                      <img
+                        src={activeSource.dataUrl}
+                        alt={activeSource.label || activeSource.name}
+                        className="max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded"
+                      />
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
             {/* App Preview Panel */}
             <div
+              ref={previewPanelRef}
               className={`relative h-full bg-white transition-all duration-500 ${
-                showSplitView && creation?.originalImage
+                showSplitView && activeSource
                   ? 'w-full md:w-1/2 h-1/2 md:h-full'
                   : 'w-full'
               }`}
@@ -718,13 +1422,52 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                 <div className="absolute top-0 inset-x-0 h-1 bg-gradient-to-r from-orange-500 to-yellow-500 z-10 pointer-events-none"></div>
               )}
 
-              <iframe
-                ref={iframeRef}
-                title="Gemini Live Preview"
-                srcDoc={creation?.html ?? ''}
-                className="w-full h-full bg-white block"
-                sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
-              />
+              <div className={`w-full h-full ${emailWidth ? 'flex justify-center bg-zinc-200' : ''}`}>
+                <iframe
+                  ref={iframeRef}
+                  title="Gemini Live Preview"
+                  srcDoc={creation?.html ?? ''}
+                  className={`h-full bg-white block ${emailWidth ? 'shadow-xl' : 'w-full'}`}
+                  style={emailWidth ? { width: emailWidth } : undefined}
+                  sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
+                />
+              </div>
+
+              {/* Inspect mode: hover highlight, picked element and its prompt */}
+              {inspecting && (
+                <>
+                  {hoveredRect && (
+                    <div
+                      className="absolute z-10 pointer-events-none border-2 border-orange-400/80 bg-orange-400/10 rounded-sm"
+                      style={hoveredRect}
+                    />
+                  )}
+                  {picked && (
+                    // Keyed so picking another element starts with an empty prompt
+                    <React.Fragment key={picked.selection.selector}>
+                      <div
+                        className="absolute z-10 pointer-events-none border-2 border-orange-500 rounded-sm"
+                        style={picked.rect}
+                      />
+                      <ElementEditPopover
+                        selection={picked.selection}
+                        style={popoverStyle(picked.rect)}
+                        onSubmit={handleRefineElement}
+                        onClose={() => setPicked(null)}
+                      />
+                    </React.Fragment>
+                  )}
+                  {!picked && (
+                    <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 max-w-[90%] pointer-events-none bg-black/80 backdrop-blur text-[11px] px-2.5 py-1.5 rounded border border-zinc-800 text-center">
+                      {inspectError ? (
+                        <span className="text-red-400">{inspectError}</span>
+                      ) : (
+                        <span className="text-zinc-300">Click an element to change it · Esc to stop</span>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           </div>
         ) : (
@@ -738,7 +1481,30 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
             </div>
           </div>
         )}
+
+        {showDetails && !isLoading && creation && (
+          <CreationDetails creation={creation} onClose={() => setShowDetails(false)} />
+        )}
+
+        {showHistory && !isLoading && creation && onRestoreRevision && (
+          <RevisionHistory creation={creation} onRestore={onRestoreRevision} onClose={() => setShowHistory(false)} />
+        )}
       </div>
+
+      {showPresenter && creation && (
+        <SlidePresenter html={creation.html} title={creation.name} onClose={() => setShowPresenter(false)} />
+      )}
+
+      {/* Structural problems in the generated HTML */}
+      {!isLoading && hasHtml && creation && onRepair &&
+        (creation.warnings?.length ?? 0) > 0 && (
+        <WarningsBar creation={creation} onRepair={onRepair} />
+      )}
+
+      {/* Follow-up prompt for refining the current creation */}
+      {!isLoading && hasHtml && creation && onRefine && (
+        <RefineBar creation={creation} onRefine={onRefine} />
+      )}
     </div>
   );
 };
\ No newline at end of file
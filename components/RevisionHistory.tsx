@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowUturnLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { CreationRevision, RevisionKind, fetchRevisions, fetchRevision } from '../services/revisions-api';
+import { diffHtml } from '../services/html-diff';
+
+interface RevisionHistoryProps {
+  creation: Creation;
+  onRestore: (revision: number) => Promise<void>;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<RevisionKind, string> = {
+  generation: 'Generated',
+  regeneration: 'Regenerated',
+  refinement: 'Refined',
+  edit: 'Element edit',
+  repair: 'Repaired',
+  restore: 'Restored',
+};
+
+type CompareView = 'rendered' | 'source';
+
+const PickButton: React.FC<{ label: 'A' | 'B'; active: boolean; onClick: () => void }> = ({ label, active, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`w-5 h-5 rounded text-[10px] font-mono border transition-colors ${
+      active
+        ? label === 'A' ? 'bg-red-500/20 border-red-500/60 text-red-300' : 'bg-green-500/20 border-green-500/60 text-green-300'
+        : 'border-zinc-700 text-zinc-500 hover:text-zinc-200 hover:border-zinc-500'
+    }`}
+    title={`Compare as ${label === 'A' ? 'the older side' : 'the newer side'}`}
+  >
+    {label}
+  </button>
+);
+
+/**
+ * Timeline of a creation's saved revisions: pick two to compare them rendered side by side
+ * or as a source diff, and restore any older one (appended as a new revision).
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ creation, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<CreationRevision[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [compare, setCompare] = useState<{ a: number | null; b: number | null }>({ a: null, b: null });
+  const [view, setView] = useState<CompareView>('rendered');
+  const [html, setHtml] = useState<Record<number, string>>({});
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  // Revisions never change, so their HTML is fetched once
+  const requestedRef = useRef<Set<number>>(new Set());
+
+  // Reload when the creation gets a new saved revision
+  useEffect(() => {
+    let ignore = false;
+    setIsLoading(true);
+    fetchRevisions(creation.id).then(({ revisions: loaded, error }) => {
+      if (ignore) return;
+      setIsLoading(false);
+      setLoadError(error);
+      setRevisions(loaded);
+      // Default: the latest revision against the one before it
+      setCompare({ a: loaded[1]?.revision ?? loaded[0]?.revision ?? null, b: loaded[0]?.revision ?? null });
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [creation.id, creation.revision, creation.updatedAt?.getTime()]);
+
+  useEffect(() => {
+    requestedRef.current.clear();
+    setHtml({});
+  }, [creation.id]);
+
+  useEffect(() => {
+    for (const number of [compare.a, compare.b]) {
+      if (number === null || requestedRef.current.has(number)) continue;
+      requestedRef.current.add(number);
+      fetchRevision(creation.id, number).then(({ revision, error }) => {
+        if (error || !revision?.html) {
+          requestedRef.current.delete(number);
+          setLoadError(error || 'Failed to fetch revision');
+          return;
+        }
+        setHtml((prev) => ({ ...prev, [number]: revision.html! }));
+      });
+    }
+  }, [creation.id, compare.a, compare.b]);
+
+  const htmlA = compare.a !== null ? html[compare.a] : undefined;
+  const htmlB = compare.b !== null ? html[compare.b] : undefined;
+  const diff = useMemo(
+    () => (htmlA !== undefined && htmlB !== undefined && view === 'source' ? diffHtml(htmlA, htmlB) : null),
+    [htmlA, htmlB, view],
+  );
+  const latest = revisions[0]?.revision;
+
+  const handleRestore = async (revision: number) => {
+    setRestoring(revision);
+    setRestoreError(null);
+    try {
+      await onRestore(revision);
+    } catch (error: any) {
+      setRestoreError(error.message || 'Failed to restore revision');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderFrame = (number: number | null, content: string | undefined, tone: string) => (
+    <div className="flex flex-col min-w-0 min-h-0 border border-zinc-800 rounded-md overflow-hidden">
+      <div className={`px-2 py-1 text-[10px] font-mono border-b border-zinc-800 ${tone}`}>
+        {number !== null ? `Revision ${number}` : 'No revision'}
+      </div>
+      {content !== undefined ? (
+        <iframe title={`Revision ${number}`} srcDoc={content} sandbox="allow-scripts" className="flex-1 w-full bg-white" />
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-xs text-zinc-600">Loading…</div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col sm:flex-row bg-[#121214]">
+      {/* Timeline */}
+      <div className="sm:w-72 max-h-[40%] sm:max-h-none flex flex-col border-b sm:border-b-0 sm:border-r border-zinc-800">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <h3 className="text-sm font-semibold text-zinc-100">History</h3>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-md hover:bg-zinc-800" title="Close history">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading && revisions.length === 0 && <p className="p-4 text-xs text-zinc-500">Loading revisions…</p>}
+          {!isLoading && loadError && revisions.length === 0 && <p className="p-4 text-xs text-zinc-500">{loadError}</p>}
+          {revisions.map((revision) => (
+            <div key={revision.revision} className="flex items-start gap-2 px-4 py-2.5 border-b border-zinc-800/60">
+              <div className="flex flex-col gap-1 pt-0.5">
+                <PickButton
+                  label="A"
+                  active={compare.a === revision.revision}
+                  onClick={() => setCompare((prev) => ({ ...prev, a: revision.revision }))}
+                />
+                <PickButton
+                  label="B"
+                  active={compare.b === revision.revision}
+                  onClick={() => setCompare((prev) => ({ ...prev, b: revision.revision }))}
+                />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5 text-xs">
+                  <span className="font-mono text-zinc-500">#{revision.revision}</span>
+                  <span className="text-zinc-200">{KIND_LABELS[revision.kind] || revision.kind}</span>
+                  {revision.revision === latest && <span className="text-[10px] text-orange-400">Current</span>}
+                </div>
+                {revision.instruction && (
+                  <p className="mt-0.5 text-[11px] text-zinc-400 line-clamp-2 break-words" title={revision.instruction}>
+                    {revision.instruction}
+                  </p>
+                )}
+                <p className="mt-0.5 text-[10px] font-mono text-zinc-600">
+                  {revision.createdAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  {revision.model && ` · ${revision.model}`}
+                </p>
+              </div>
+              {revision.revision !== latest && (
+                <button
+                  onClick={() => handleRestore(revision.revision)}
+                  disabled={restoring !== null}
+                  className="flex items-center gap-1 px-1.5 py-1 rounded-md text-[10px] text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 disabled:opacity-50"
+                  title="Make this revision current again"
+                >
+                  {restoring === revision.revision ? (
+                    <div className="w-3 h-3 border-2 border-zinc-500 border-t-zinc-200 rounded-full animate-spin"></div>
+                  ) : (
+                    <ArrowUturnLeftIcon className="w-3 h-3" />
+                  )}
+                  <span>Restore</span>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        {restoreError && <p className="px-4 py-2 text-[11px] text-red-400 border-t border-zinc-800">{restoreError}</p>}
+      </div>
+
+      {/* Comparison */}
+      {revisions.length > 0 && (
+        <div className="flex-1 min-w-0 min-h-0 flex flex-col">
+          <div className="flex items-center gap-3 px-4 py-2 border-b border-zinc-800">
+            <div className="flex rounded-md border border-zinc-800 overflow-hidden text-[11px]">
+              {(['rendered', 'source'] as CompareView[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-2.5 py-1 capitalize ${view === option ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-200'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <span className="text-[11px] font-mono text-zinc-500">
+              <span className="text-red-300">#{compare.a ?? '–'}</span> → <span className="text-green-300">#{compare.b ?? '–'}</span>
+            </span>
+            {diff && (
+              <span className="ml-auto text-[11px] font-mono">
+                <span className="text-green-400">+{diff.added}</span> <span className="text-red-400">−{diff.removed}</span>
+              </span>
+            )}
+          </div>
+
+          {view === 'rendered' ? (
+            <div className="flex-1 min-h-0 grid grid-cols-2 gap-2 p-2">
+              {renderFrame(compare.a, htmlA, 'text-red-300')}
+              {renderFrame(compare.b, htmlB, 'text-green-300')}
+            </div>
+          ) : !diff ? (
+            <div className="flex-1 flex items-center justify-center text-xs text-zinc-600">Loading…</div>
+          ) : diff.added === 0 && diff.removed === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-xs text-zinc-500">These revisions are identical.</div>
+          ) : (
+            <div className="flex-1 overflow-auto font-mono text-[11px] leading-5">
+              {diff.lines.map((line, index) =>
+                line.type === 'skipped' ? (
+                  <div key={index} className="px-3 text-zinc-600 bg-zinc-900/60 select-none">
+                    ⋯ {line.count} unchanged line{line.count === 1 ? '' : 's'}
+                  </div>
+                ) : (
+                  <div
+                    key={index}
+                    className={`flex whitespace-pre ${
+                      line.type === 'added' ? 'bg-green-500/10 text-green-200' : line.type === 'removed' ? 'bg-red-500/10 text-red-200' : 'text-zinc-400'
+                    }`}
+                  >
+                    <span className="w-10 flex-shrink-0 pr-2 text-right text-zinc-600 select-none">{line.oldLine ?? ''}</span>
+                    <span className="w-10 flex-shrink-0 pr-2 text-right text-zinc-600 select-none">{line.newLine ?? ''}</span>
+                    <span className="w-4 flex-shrink-0 select-none">{line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}</span>
+                    <span>{line.text}</span>
+                  </div>
+                ),
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ArrowPathIcon,
+  ArrowTopRightOnSquareIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { DECK_SANDBOX, DeckWindow, SlideChange, getSpeakerNotes, goToSlide, openDeckWindow, readSlideChange } from '../services/slides';
+
+interface SlidePresenterProps {
+  html: string; // Deck generated in 'slides' mode
+  title: string;
+  onClose: () => void;
+}
+
+const formatElapsed = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Presenter view: current and next slide, speaker notes and a timer.
+ * An audience window can be opened on a second screen; it follows the presenter.
+ */
+export const SlidePresenter: React.FC<SlidePresenterProps> = ({ html, title, onClose }) => {
+  const notes = useMemo(() => getSpeakerNotes(html), [html]);
+  const [index, setIndex] = useState(0);
+  const [count, setCount] = useState(notes.length);
+  const [elapsed, setElapsed] = useState(0);
+  const currentRef = useRef<HTMLIFrameElement>(null);
+  const nextRef = useRef<HTMLIFrameElement>(null);
+  const audienceRef = useRef<DeckWindow | null>(null);
+
+  const go = (target: number) => setIndex(Math.max(0, Math.min(count - 1, target)));
+
+  // Keep every view on the presenter's slide
+  useEffect(() => {
+    goToSlide(currentRef.current?.contentWindow, index);
+    goToSlide(nextRef.current?.contentWindow, index + 1);
+    audienceRef.current?.goTo(index);
+  }, [index]);
+
+  // Navigating inside the current slide or the audience window moves the presenter too
+  const followSlide = (change: SlideChange) => {
+    setCount(change.count);
+    setIndex(change.index);
+  };
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== currentRef.current?.contentWindow) return;
+      const change = readSlideChange(event);
+      if (change) followSlide(change);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') return onClose();
+      const step = { ArrowRight: 1, ArrowDown: 1, PageDown: 1, ' ': 1, ArrowLeft: -1, ArrowUp: -1, PageUp: -1 }[e.key];
+      if (step) setIndex((i) => Math.max(0, Math.min(count - 1, i + step)));
+      else if (e.key === 'Home') setIndex(0);
+      else if (e.key === 'End') setIndex(count - 1);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [count, onClose]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setElapsed((s) => s + 1), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // The audience window only lives as long as the presenter view
+  useEffect(() => () => audienceRef.current?.close(), []);
+
+  const openAudienceWindow = () => {
+    audienceRef.current?.close();
+    audienceRef.current = openDeckWindow(html, title, index, followSlide);
+  };
+
+  const currentNotes = notes[index];
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex flex-col bg-[#09090b] text-zinc-100">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-zinc-800">
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold truncate">{title}</h3>
+          <p className="text-[11px] font-mono uppercase tracking-wider text-zinc-500">
+            Slide {Math.min(index + 1, count)} / {count}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 px-2 py-1 rounded-md border border-zinc-800 font-mono text-sm text-zinc-300">
+            <span>{formatElapsed(elapsed)}</span>
+            <button onClick={() => setElapsed(0)} className="p-0.5 text-zinc-500 hover:text-zinc-200" title="Reset timer">
+              <ArrowPathIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <button
+            onClick={openAudienceWindow}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs text-zinc-300 hover:text-white hover:bg-zinc-800"
+            title="Show the deck on a second screen"
+          >
+            <ArrowTopRightOnSquareIcon className="w-4 h-4" />
+            <span className="hidden sm:inline">Audience window</span>
+          </button>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-zinc-200 rounded-md hover:bg-zinc-800" title="Exit presenter view">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex flex-col lg:flex-row gap-4 p-4">
+        {/* Current slide */}
+        <div className="flex-[2] min-h-0 flex items-center justify-center">
+          <div className="w-full max-h-full aspect-video bg-black rounded-lg overflow-hidden border border-zinc-800">
+            <iframe
+              ref={currentRef}
+              title="Current slide"
+              srcDoc={html}
+              onLoad={() => goToSlide(currentRef.current?.contentWindow, index)}
+              className="w-full h-full block"
+              sandbox={DECK_SANDBOX}
+            />
+          </div>
+        </div>
+
+        {/* Next slide and notes */}
+        <div className="flex-1 min-h-0 flex flex-col gap-4">
+          <div>
+            <p className="mb-1.5 text-[11px] font-mono uppercase tracking-wider text-zinc-500">Next</p>
+            <div className="aspect-video bg-black rounded-lg overflow-hidden border border-zinc-800">
+              {index + 1 < count ? (
+                <iframe
+                  ref={nextRef}
+                  title="Next slide"
+                  srcDoc={html}
+                  onLoad={() => goToSlide(nextRef.current?.contentWindow, index + 1)}
+                  className="w-full h-full block pointer-events-none"
+                  sandbox={DECK_SANDBOX}
+                  tabIndex={-1}
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-xs text-zinc-600">End of deck</div>
+              )}
+            </div>
+          </div>
+          <div className="flex-1 min-h-0 flex flex-col">
+            <p className="mb-1.5 text-[11px] font-mono uppercase tracking-wider text-zinc-500">Speaker notes</p>
+            <div className="flex-1 overflow-y-auto rounded-lg border border-zinc-800 bg-zinc-900/50 p-4 text-base leading-relaxed whitespace-pre-wrap">
+              {currentNotes || <span className="text-zinc-600">No notes for this slide.</span>}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-3 px-4 py-3 border-t border-zinc-800">
+        <button
+          onClick={() => go(index - 1)}
+          disabled={index === 0}
+          className="flex items-center gap-1 px-4 py-2 rounded-lg border border-zinc-800 text-sm text-zinc-300 hover:bg-zinc-800 disabled:opacity-40"
+        >
+          <ChevronLeftIcon className="w-4 h-4" />
+          <span>Previous</span>
+        </button>
+        <button
+          onClick={() => go(index + 1)}
+          disabled={index >= count - 1}
+          className="flex items-center gap-1 px-4 py-2 rounded-lg bg-orange-600 text-sm font-bold text-white hover:bg-orange-500 disabled:opacity-40"
+        >
+          <span>Next</span>
+          <ChevronRightIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,12 @@
+-- Migration: Add provenance columns to creations and generation_cache
+-- Run this if you already have a database without them
+-- Provenance: prompt, mode, provider / model settings, duration, token usage and the
+-- brand kit / template a result was generated with
+
+ALTER TABLE creations ADD COLUMN IF NOT EXISTS provenance JSONB;
+ALTER TABLE generation_cache ADD COLUMN IF NOT EXISTS provenance JSONB;
+
+-- Verify the columns were added
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE column_name = 'provenance' AND table_name IN ('creations', 'generation_cache');
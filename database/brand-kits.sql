@@ -0,0 +1,24 @@
+-- Brand Kits Table
+-- Per-user palette, fonts, logo and voice notes injected into generation requests
+
+CREATE TABLE IF NOT EXISTS brand_kits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  palette JSONB NOT NULL DEFAULT '[]', -- [{ name, hex }]
+  fonts JSONB NOT NULL DEFAULT '{}', -- { heading, body }
+  logo TEXT, -- Data URL (PNG, JPEG, WebP or SVG)
+  voice_notes TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_brand_kits_user_id ON brand_kits(user_id);
+
+-- Trigger to auto-update updated_at
+DROP TRIGGER IF EXISTS update_brand_kits_updated_at ON brand_kits;
+CREATE TRIGGER update_brand_kits_updated_at
+  BEFORE UPDATE ON brand_kits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
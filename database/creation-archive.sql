@@ -0,0 +1,45 @@
+-- Creation Archive Organisation
+-- User-defined folders and tags for creations, a full-text search vector over
+-- the name (weight A), prompt (B) and the text content of the HTML (C), and the
+-- MIME type of the source image (so archive listings never read the image itself).
+
+CREATE TABLE IF NOT EXISTS creation_folders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE creations ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE creations ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES creation_folders(id) ON DELETE SET NULL;
+ALTER TABLE creations ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(provenance->>'prompt', '')), 'B') ||
+    setweight(to_tsvector('simple', left(
+      regexp_replace(
+        regexp_replace(html, '<(script|style)[^>]*?>.*?</(script|style)>', ' ', 'gi'),
+        '<[^>]*>', ' ', 'g'
+      ),
+      100000
+    )), 'C')
+  ) STORED;
+ALTER TABLE creations ADD COLUMN IF NOT EXISTS original_image_type TEXT
+  GENERATED ALWAYS AS (
+    NULLIF(split_part(split_part(left(original_image, 100), ';', 1), ':', 2), '')
+  ) STORED;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_creation_folders_user_id ON creation_folders(user_id);
+CREATE INDEX IF NOT EXISTS idx_creations_folder_id ON creations(folder_id);
+CREATE INDEX IF NOT EXISTS idx_creations_tags ON creations USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_creations_search ON creations USING GIN (search_vector);
+
+-- Trigger to update updated_at timestamp
+DROP TRIGGER IF EXISTS update_creation_folders_updated_at ON creation_folders;
+CREATE TRIGGER update_creation_folders_updated_at
+  BEFORE UPDATE ON creation_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
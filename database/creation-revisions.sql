@@ -0,0 +1,25 @@
+-- Creation Revisions Table
+-- Every version of a creation's HTML: the original generation, regenerations, refinements,
+-- element edits, repairs and restores. Numbered per creation (1 = first saved version).
+
+CREATE TABLE IF NOT EXISTS creation_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  creation_id UUID NOT NULL REFERENCES creations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'generation', -- generation, regeneration, refinement, edit, repair, restore
+  instruction TEXT, -- Follow-up instruction (refinements / element edits) or restore note
+  model TEXT,
+  html TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (creation_id, revision)
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_creation_revisions_creation_id ON creation_revisions(creation_id, revision DESC);
+
+-- Existing creations start with their current HTML as revision 1
+INSERT INTO creation_revisions (creation_id, user_id, revision, kind, html, created_at)
+SELECT c.id, c.user_id, 1, 'generation', c.html, c.updated_at
+FROM creations c
+WHERE NOT EXISTS (SELECT 1 FROM creation_revisions r WHERE r.creation_id = c.id);
@@ -0,0 +1,19 @@
+-- Generation Cache Table
+-- Results of identical generation requests (same prompt, file bytes, mode, model and brand kit),
+-- reused within GENERATION_CACHE_WINDOW_MINUTES without counting toward daily usage
+
+CREATE TABLE IF NOT EXISTS generation_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  cache_key TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'web',
+  model TEXT,
+  html TEXT NOT NULL,
+  warnings JSONB NOT NULL DEFAULT '[]',
+  provenance JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, cache_key)
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_generation_cache_created_at ON generation_cache(created_at);
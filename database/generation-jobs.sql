@@ -0,0 +1,35 @@
+-- Generation Jobs Table
+-- Persists generation jobs so clients can poll, subscribe and re-attach after a reload
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  mode TEXT NOT NULL DEFAULT 'web',
+  prompt TEXT NOT NULL DEFAULT '',
+  metadata JSONB,
+  html TEXT,
+  error JSONB,
+  instance_id TEXT, -- Server instance running the job
+  heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Lease renewed while the job runs
+  delivered_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Lease columns for tables created before them
+ALTER TABLE generation_jobs ADD COLUMN IF NOT EXISTS instance_id TEXT;
+ALTER TABLE generation_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_id ON generation_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON generation_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_created_at ON generation_jobs(created_at DESC);
+
+-- Trigger to auto-update updated_at
+DROP TRIGGER IF EXISTS update_generation_jobs_updated_at ON generation_jobs;
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,16 @@
+-- Model Usage Table
+-- One row per successful model call: which model answered and whether it needed retries or the fallback model
+
+CREATE TABLE IF NOT EXISTS model_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  mode TEXT NOT NULL DEFAULT 'web',
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  fallback BOOLEAN NOT NULL DEFAULT false,
+  retries INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_model_usage_created_at ON model_usage(created_at DESC);
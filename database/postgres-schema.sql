@@ -24,8 +24,9 @@ CREATE TABLE IF NOT EXISTS creations (
   name TEXT NOT NULL,
   html TEXT NOT NULL,
   original_image TEXT,
-  mode TEXT NOT NULL DEFAULT 'web' CHECK (mode IN ('web', 'mobile', 'social', 'logo', 'video')),
+  mode TEXT NOT NULL DEFAULT 'web' CHECK (mode IN ('web', 'mobile', 'social', 'logo', 'video', 'slides', 'email', 'dashboard')),
   purchased BOOLEAN NOT NULL DEFAULT false,
+  provenance JSONB, -- Prompt, mode, model settings, duration, token usage, brand kit / template
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -0,0 +1,21 @@
+-- Prompt Templates Table
+-- User-saved prompt templates per generation mode ({placeholder} fields are filled in by the client)
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL DEFAULT 'web',
+  name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_user_mode ON prompt_templates(user_id, mode);
+
+-- Trigger to auto-update updated_at
+CREATE TRIGGER update_prompt_templates_updated_at
+  BEFORE UPDATE ON prompt_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -259,15 +259,15 @@ export async function resetDailyUsageIfNeeded(userId) {
 }
 
 /**
- * Increment daily usage
+ * Increment daily usage (by `amount` generations, e.g. for variants)
  */
-export async function incrementDailyUsage(userId) {
+export async function incrementDailyUsage(userId, amount = 1) {
   await resetDailyUsageIfNeeded(userId);
   await pool.query(
     `UPDATE users 
-     SET daily_usage_count = daily_usage_count + 1 
+     SET daily_usage_count = daily_usage_count + $2 
      WHERE id = $1`,
-    [userId]
+    [userId, amount]
   );
 }
 
@@ -0,0 +1,69 @@
+/**
+ * Brand kit database operations
+ */
+import pool from './db.js';
+
+const BRAND_KIT_COLUMNS = `id, user_id, name, palette, fonts, logo, voice_notes, created_at, updated_at`;
+
+/**
+ * Get all brand kits for a user
+ */
+export async function getUserBrandKits(userId) {
+  const result = await pool.query(
+    `SELECT ${BRAND_KIT_COLUMNS}
+     FROM brand_kits
+     WHERE user_id = $1
+     ORDER BY name ASC`,
+    [userId]
+  );
+  return result.rows;
+}
+
+/**
+ * Get a brand kit owned by a user
+ */
+export async function getBrandKit(brandKitId, userId) {
+  const result = await pool.query(
+    `SELECT ${BRAND_KIT_COLUMNS} FROM brand_kits WHERE id = $1 AND user_id = $2`,
+    [brandKitId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Create a brand kit
+ */
+export async function createBrandKit(userId, { name, palette, fonts, logo, voiceNotes }) {
+  const result = await pool.query(
+    `INSERT INTO brand_kits (user_id, name, palette, fonts, logo, voice_notes)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${BRAND_KIT_COLUMNS}`,
+    [userId, name, JSON.stringify(palette), JSON.stringify(fonts), logo, voiceNotes]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Replace a brand kit's contents. Returns null if the user doesn't own it.
+ */
+export async function updateBrandKit(brandKitId, userId, { name, palette, fonts, logo, voiceNotes }) {
+  const result = await pool.query(
+    `UPDATE brand_kits
+     SET name = $3, palette = $4, fonts = $5, logo = $6, voice_notes = $7
+     WHERE id = $1 AND user_id = $2
+     RETURNING ${BRAND_KIT_COLUMNS}`,
+    [brandKitId, userId, name, JSON.stringify(palette), JSON.stringify(fonts), logo, voiceNotes]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Delete a brand kit. Returns false if the user doesn't own it.
+ */
+export async function deleteBrandKit(brandKitId, userId) {
+  const result = await pool.query(
+    `DELETE FROM brand_kits WHERE id = $1 AND user_id = $2`,
+    [brandKitId, userId]
+  );
+  return result.rowCount > 0;
+}
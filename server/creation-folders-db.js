@@ -0,0 +1,72 @@
+/**
+ * Creation folder database operations
+ * A creation is in at most one folder (creations.folder_id); deleting a folder unfiles its creations
+ */
+import pool from './db.js';
+
+const FOLDER_COLUMNS = `id, user_id, name, created_at, updated_at`;
+
+/**
+ * Get all folders of a user, with how many creations each holds
+ */
+export async function getUserFolders(userId) {
+  const result = await pool.query(
+    `SELECT ${FOLDER_COLUMNS},
+       (SELECT COUNT(*)::int FROM creations c WHERE c.folder_id = creation_folders.id) AS creation_count
+     FROM creation_folders
+     WHERE user_id = $1
+     ORDER BY name ASC`,
+    [userId]
+  );
+  return result.rows;
+}
+
+/**
+ * Get a folder owned by a user
+ */
+export async function getFolder(folderId, userId) {
+  const result = await pool.query(
+    `SELECT ${FOLDER_COLUMNS} FROM creation_folders WHERE id = $1 AND user_id = $2`,
+    [folderId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Create a folder. Returns null if the user already has one with that name.
+ */
+export async function createFolder(userId, name) {
+  const result = await pool.query(
+    `INSERT INTO creation_folders (user_id, name)
+     VALUES ($1, $2)
+     ON CONFLICT (user_id, name) DO NOTHING
+     RETURNING ${FOLDER_COLUMNS}`,
+    [userId, name]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Rename a folder. Returns null if the user doesn't own it; throws the unique
+ * violation (code 23505) if another of their folders has that name.
+ */
+export async function renameFolder(folderId, userId, name) {
+  const result = await pool.query(
+    `UPDATE creation_folders SET name = $3
+     WHERE id = $1 AND user_id = $2
+     RETURNING ${FOLDER_COLUMNS}`,
+    [folderId, userId, name]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Delete a folder (its creations become unfiled). Returns false if the user doesn't own it.
+ */
+export async function deleteFolder(folderId, userId) {
+  const result = await pool.query(
+    `DELETE FROM creation_folders WHERE id = $1 AND user_id = $2`,
+    [folderId, userId]
+  );
+  return result.rowCount > 0;
+}
@@ -0,0 +1,53 @@
+/**
+ * Creation revision database operations
+ * Revisions are appended by creations-db.js whenever a creation's HTML changes
+ */
+import pool from './db.js';
+
+export const REVISION_KINDS = ['generation', 'regeneration', 'refinement', 'edit', 'repair', 'restore'];
+
+// Listings leave the HTML out (it's fetched per revision)
+const REVISION_SUMMARY_COLUMNS = `revision, kind, instruction, model, LENGTH(html) AS size, created_at`;
+
+/**
+ * Append a revision with the next number for the creation.
+ * `db` is the pool or the client of a transaction the creation was changed in.
+ */
+export async function insertRevision(db, creationId, userId, { html, kind = 'generation', instruction = null, model = null }) {
+  const result = await db.query(
+    `INSERT INTO creation_revisions (creation_id, user_id, revision, kind, instruction, model, html)
+     SELECT $1, $2, COALESCE(MAX(revision), 0) + 1, $3, $4, $5, $6
+     FROM creation_revisions
+     WHERE creation_id = $1
+     RETURNING ${REVISION_SUMMARY_COLUMNS}`,
+    [creationId, userId, kind, instruction, model, html]
+  );
+  return result.rows[0];
+}
+
+/**
+ * A creation's revisions, newest first (without their HTML)
+ */
+export async function getRevisions(creationId, userId) {
+  const result = await pool.query(
+    `SELECT ${REVISION_SUMMARY_COLUMNS}
+     FROM creation_revisions
+     WHERE creation_id = $1 AND user_id = $2
+     ORDER BY revision DESC`,
+    [creationId, userId]
+  );
+  return result.rows;
+}
+
+/**
+ * One revision of a creation, with its HTML
+ */
+export async function getRevision(creationId, userId, revision) {
+  const result = await pool.query(
+    `SELECT ${REVISION_SUMMARY_COLUMNS}, html
+     FROM creation_revisions
+     WHERE creation_id = $1 AND user_id = $2 AND revision = $3`,
+    [creationId, userId, revision]
+  );
+  return result.rows[0] || null;
+}
@@ -2,72 +2,288 @@
  * Creations database operations
  */
 import pool from './db.js';
+import { insertRevision } from './creation-revisions-db.js';
+
+const CREATION_COLUMNS = `id, user_id, name, html, original_image, mode, purchased, provenance, tags, folder_id, created_at, updated_at`;
+// Listing summaries leave out the HTML and the source image (fetched when a creation is opened).
+// octet_length reads the stored length without detoasting; original_image_type is a generated column.
+const CREATION_SUMMARY_COLUMNS = `id, name, mode, purchased, tags, folder_id, original_image_type, created_at, updated_at,
+  octet_length(html) AS size`;
+// Latest revision number, for listings
+const LATEST_REVISION = `(SELECT MAX(revision) FROM creation_revisions r WHERE r.creation_id = creations.id) AS revision`;
+
+// Run `work(client)` in a transaction
+async function inTransaction(work) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Prefix-match every word of a search: "land page" -> 'land:* & page:*' (null if no words)
+function toPrefixQuery(search) {
+  const words = (search || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
+
+// WHERE conditions and values for the archive filters. A search is always $2, so ordering
+// and cursors can refer to it (`rank` is then the match score, otherwise null).
+function buildFilters(userId, { search, mode, purchased, tag, folderId }) {
+  const conditions = ['user_id = $1'];
+  const values = [userId];
+  const addCondition = (sql, value) => {
+    values.push(value);
+    conditions.push(sql.replace('?', `$${values.length}`));
+  };
+
+  const query = toPrefixQuery(search);
+  if (query) addCondition(`search_vector @@ to_tsquery('simple', ?)`, query);
+  if (mode) addCondition('mode = ?', mode);
+  if (purchased !== undefined) addCondition('purchased = ?', purchased);
+  if (tag) addCondition('? = ANY(tags)', tag);
+  if (folderId === 'none') conditions.push('folder_id IS NULL');
+  else if (folderId) addCondition('folder_id = ?', folderId);
+
+  return { conditions, values, rank: query ? `ts_rank(search_vector, to_tsquery('simple', $2))` : null };
+}
 
 /**
- * Get all creations for a user
+ * Get a page of a user's creations, newest first (best match first when searching).
+ * Filters: `search` (full text over name, prompt and page text), `mode`, `purchased`,
+ * `tag` and `folderId` ('none' for unfiled creations).
+ * Fetches one extra row to tell whether there are more: returns { creations, hasMore }.
  */
-export async function getUserCreations(userId) {
+export async function getUserCreations(userId, { limit = 20, offset = 0, ...filters } = {}) {
+  const { conditions, values, rank } = buildFilters(userId, filters);
+  const order = rank ? `${rank} DESC, created_at DESC, id DESC` : 'created_at DESC, id DESC';
+  values.push(limit + 1, offset);
+
   const result = await pool.query(
-    `SELECT id, user_id, name, html, original_image, mode, purchased, created_at
-     FROM creations 
-     WHERE user_id = $1 
-     ORDER BY created_at DESC`,
+    `SELECT ${CREATION_COLUMNS}, ${LATEST_REVISION}
+     FROM creations
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY ${order}
+     LIMIT $${values.length - 1} OFFSET $${values.length}`,
+    values
+  );
+  return { creations: result.rows.slice(0, limit), hasMore: result.rows.length > limit };
+}
+
+/**
+ * Get a page of summaries of a user's creations (no HTML or source image), in the same order
+ * and with the same filters as getUserCreations, using keyset pagination: `after` is the
+ * position of the last row of the previous page ({ rank, createdAt, id }, as returned in
+ * `next`). Positions are kept as Postgres text so they compare exactly.
+ * Returns { creations, next } (next is null on the last page).
+ */
+export async function getUserCreationSummaries(userId, { limit = 20, after = null, ...filters } = {}) {
+  const { conditions, values, rank } = buildFilters(userId, filters);
+  const sortKey = rank ? `(${rank}, created_at, id)` : '(created_at, id)';
+  if (after) {
+    const position = rank ? [after.rank, after.createdAt, after.id] : [after.createdAt, after.id];
+    values.push(...position);
+    const params = position.map((_, i) => `$${values.length - position.length + i + 1}`);
+    if (rank) params[0] += '::real';
+    params[params.length - 2] += '::timestamptz';
+    params[params.length - 1] += '::uuid';
+    conditions.push(`${sortKey} < (${params.join(', ')})`);
+  }
+  values.push(limit + 1);
+
+  const result = await pool.query(
+    `SELECT ${CREATION_SUMMARY_COLUMNS}, ${LATEST_REVISION},
+       created_at::text AS position_created_at${rank ? `, ${rank}::text AS position_rank` : ''}
+     FROM creations
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY ${rank ? `${rank} DESC, ` : ''}created_at DESC, id DESC
+     LIMIT $${values.length}`,
+    values
+  );
+
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+  const next = result.rows.length > limit
+    ? { rank: last.position_rank ?? null, createdAt: last.position_created_at, id: last.id }
+    : null;
+  const creations = rows.map(({ position_created_at: _createdAt, position_rank: _rank, ...creation }) => creation);
+  return { creations, next };
+}
+
+/**
+ * A creation's source image (data URL) and when the creation last changed, for thumbnails
+ */
+export async function getCreationImage(creationId, userId) {
+  const result = await pool.query(
+    `SELECT original_image, updated_at FROM creations WHERE id = $1 AND user_id = $2`,
+    [creationId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * The tags a user has used, with how many creations carry each (most used first)
+ */
+export async function getUserTags(userId) {
+  const result = await pool.query(
+    `SELECT tag, COUNT(*)::int AS count
+     FROM creations, unnest(tags) AS tag
+     WHERE user_id = $1
+     GROUP BY tag
+     ORDER BY count DESC, tag ASC`,
     [userId]
   );
   return result.rows;
 }
 
 /**
- * Create a new creation
+ * Get one of a user's creations
  */
-export async function createCreation(userId, name, html, originalImage, mode) {
+export async function getCreation(creationId, userId) {
   const result = await pool.query(
-    `INSERT INTO creations (user_id, name, html, original_image, mode, purchased)
-     VALUES ($1, $2, $3, $4, $5, $6)
-     RETURNING id, user_id, name, html, original_image, mode, purchased, created_at`,
-    [userId, name, html, originalImage || null, mode, false]
+    `SELECT ${CREATION_COLUMNS}, ${LATEST_REVISION} FROM creations WHERE id = $1 AND user_id = $2`,
+    [creationId, userId]
   );
-  return result.rows[0];
+  return result.rows[0] || null;
+}
+
+/**
+ * Create a new creation, with its HTML as revision 1
+ * `provenance` records how it was generated (prompt, model settings, duration, tokens...)
+ * `id` lets the client keep the id it already uses; returns null when that id is taken.
+ */
+export async function createCreation(userId, name, html, originalImage, mode, provenance = null, id = null) {
+  const columns = ['user_id', 'name', 'html', 'original_image', 'mode', 'purchased', 'provenance'];
+  const values = [userId, name, html, originalImage || null, mode, false, provenance ? JSON.stringify(provenance) : null];
+  if (id) {
+    columns.unshift('id');
+    values.unshift(id);
+  }
+
+  return inTransaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO creations (${columns.join(', ')})
+       VALUES (${values.map((_, i) => `$${i + 1}`).join(', ')})
+       ON CONFLICT (id) DO NOTHING
+       RETURNING ${CREATION_COLUMNS}`,
+      values
+    );
+    const creation = result.rows[0];
+    if (!creation) return null;
+
+    const { revision } = await insertRevision(client, creation.id, userId, { html, model: provenance?.model || null });
+    return { ...creation, revision };
+  });
 }
 
+// Fields of `base` (see updateCreation) compared by value
+const BASE_COLUMNS = ['name', 'tags', 'folder_id'];
+
 /**
- * Update creation
+ * Update one of a user's creations; returns the updated row (null if not found)
+ * A new `html` is appended as a revision described by `revision` ({ kind, instruction, model }).
+ * `base` is the version the change was made against ({ revision, name, tags, folder_id }): the update
+ * then only applies if none of the fields it changes were changed since (html: the latest revision
+ * is still `base.revision`; the others: still the base value, or already the new one). Offline edits
+ * replayed later so lose to newer changes of the same fields, whatever the clocks say.
  */
-export async function updateCreation(creationId, updates) {
+export async function updateCreation(creationId, userId, updates, { base = null, revision = {} } = {}) {
   const fields = [];
   const values = [];
-  let paramCount = 1;
+  const params = {};
+  const set = (column, value) => {
+    if (value === undefined) return;
+    values.push(value);
+    params[column] = `$${values.length}`;
+    fields.push(`${column} = ${params[column]}`);
+  };
 
-  if (updates.purchased !== undefined) {
-    fields.push(`purchased = $${paramCount}`);
-    values.push(updates.purchased);
-    paramCount++;
+  set('purchased', updates.purchased);
+  set('name', updates.name);
+  set('html', updates.html);
+  set('tags', updates.tags);
+  set('folder_id', updates.folder_id);
+
+  if (fields.length === 0) return getCreation(creationId, userId);
+
+  values.push(creationId, userId);
+  const conditions = [`id = $${values.length - 1}`, `user_id = $${values.length}`];
+  for (const column of BASE_COLUMNS) {
+    if (!params[column] || base?.[column] === undefined) continue;
+    values.push(base[column]);
+    conditions.push(`(${column} IS NOT DISTINCT FROM $${values.length} OR ${column} IS NOT DISTINCT FROM ${params[column]})`);
   }
-  if (updates.name !== undefined) {
-    fields.push(`name = $${paramCount}`);
-    values.push(updates.name);
-    paramCount++;
+  const checksRevision = Boolean(params.html) && base?.revision !== undefined;
+  if (checksRevision) {
+    values.push(base.revision);
+    conditions.push(`(SELECT MAX(revision) FROM creation_revisions r WHERE r.creation_id = creations.id) = $${values.length}`);
   }
+  const query = `UPDATE creations SET ${fields.join(', ')}
+     WHERE ${conditions.join(' AND ')}
+     RETURNING ${CREATION_COLUMNS}`;
+
+  return inTransaction(async (client) => {
+    // Wait for concurrent updates, so the revision check sees the revisions they add
+    if (checksRevision) {
+      await client.query(`SELECT 1 FROM creations WHERE id = $1 AND user_id = $2 FOR UPDATE`, [creationId, userId]);
+    }
+    const result = await client.query(query, values);
+    const creation = result.rows[0];
+    if (!creation || updates.html === undefined) return creation || null;
 
-  if (fields.length === 0) return;
+    const added = await insertRevision(client, creationId, userId, { kind: 'edit', ...revision, html: updates.html });
+    return { ...creation, revision: added.revision };
+  });
+}
+
+/**
+ * Make an earlier revision the creation's current HTML, appended as a new 'restore' revision
+ * (nothing is overwritten). Returns null if the creation or revision doesn't exist.
+ */
+export async function restoreRevision(creationId, userId, revisionNumber) {
+  return inTransaction(async (client) => {
+    const source = await client.query(
+      `SELECT html, model FROM creation_revisions WHERE creation_id = $1 AND user_id = $2 AND revision = $3`,
+      [creationId, userId, revisionNumber]
+    );
+    if (!source.rows[0]) return null;
+
+    const { html, model } = source.rows[0];
+    const result = await client.query(
+      `UPDATE creations SET html = $1 WHERE id = $2 AND user_id = $3 RETURNING ${CREATION_COLUMNS}`,
+      [html, creationId, userId]
+    );
+    const creation = result.rows[0];
+    if (!creation) return null;
 
-  values.push(creationId);
-  const query = `UPDATE creations SET ${fields.join(', ')} WHERE id = $${paramCount}`;
-  
-  await pool.query(query, values);
+    const added = await insertRevision(client, creationId, userId, {
+      html,
+      kind: 'restore',
+      instruction: `Restored revision ${revisionNumber}`,
+      model,
+    });
+    return { ...creation, revision: added.revision };
+  });
 }
 
 /**
- * Delete creation
+ * Delete one of a user's creations; returns false if it wasn't found
  */
-export async function deleteCreation(creationId) {
-  await pool.query(`DELETE FROM creations WHERE id = $1`, [creationId]);
+export async function deleteCreation(creationId, userId) {
+  const result = await pool.query(`DELETE FROM creations WHERE id = $1 AND user_id = $2`, [creationId, userId]);
+  return result.rowCount > 0;
 }
 
 /**
  * Mark creation as purchased
  */
-export async function markCreationAsPurchased(creationId) {
-  await updateCreation(creationId, { purchased: true });
+export async function markCreationAsPurchased(creationId, userId) {
+  await updateCreation(creationId, userId, { purchased: true });
 }
-
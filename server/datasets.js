@@ -0,0 +1,147 @@
+/**
+ * Datasets (CSV / JSON uploads)
+ * The client parses data files into { name, columns: [{ name, type }], rows }. The model only
+ * sees the schema, column stats and a sample; the full rows are embedded into the generated
+ * document as `window.FANTA_DATASETS` so it works without the original file.
+ */
+
+// Marks the embedded data script (refinements keep it out of the prompt)
+export const DATASETS_SCRIPT_ID = 'fanta-datasets';
+// Stands in for the embedded data while a document is sent back to the model
+export const DATASETS_PLACEHOLDER = '{{DATASETS}}';
+
+const COLUMN_TYPES = ['number', 'date', 'boolean', 'string'];
+const SAMPLE_ROWS = 20;
+// Longest string value shown to the model in samples
+const SAMPLE_VALUE_LENGTH = 120;
+// String columns with this many distinct values or fewer are described as categories
+const MAX_CATEGORIES = 12;
+
+/**
+ * Validate the `datasets` of a generation request.
+ * Returns { datasets } or { error }.
+ */
+export function parseDatasets(datasets) {
+  if (datasets === undefined || datasets === null) return { datasets: [] };
+  if (!Array.isArray(datasets)) return { error: 'datasets must be an array' };
+
+  for (const dataset of datasets) {
+    if (typeof dataset?.name !== 'string' || !dataset.name.trim()) {
+      return { error: 'Each dataset needs a name' };
+    }
+    if (!Array.isArray(dataset.columns) || dataset.columns.some((column) => typeof column?.name !== 'string')) {
+      return { error: `Dataset "${dataset.name}" needs columns` };
+    }
+    if (!Array.isArray(dataset.rows)) {
+      return { error: `Dataset "${dataset.name}" needs rows` };
+    }
+  }
+
+  return {
+    datasets: datasets.map(({ name, label, columns, rows }) => ({
+      name: name.trim().slice(0, 255),
+      label: typeof label === 'string' ? label.trim().slice(0, 100) : undefined,
+      columns: columns.map((column) => ({
+        name: column.name,
+        type: COLUMN_TYPES.includes(column.type) ? column.type : 'string',
+      })),
+      rows,
+    })),
+  };
+}
+
+function truncateValue(value) {
+  return typeof value === 'string' && value.length > SAMPLE_VALUE_LENGTH
+    ? `${value.slice(0, SAMPLE_VALUE_LENGTH)}…`
+    : value;
+}
+
+// Range / categories of a column, to help the model pick charts and filters
+function describeColumn({ name, type }, rows) {
+  const values = rows.map((row) => row?.[name]).filter((value) => value !== null && value !== undefined && value !== '');
+  const empty = rows.length - values.length;
+  const parts = [`${name} (${type})`];
+
+  if (type === 'number') {
+    const numbers = values.filter((value) => typeof value === 'number');
+    if (numbers.length > 0) {
+      const min = numbers.reduce((a, b) => Math.min(a, b));
+      const max = numbers.reduce((a, b) => Math.max(a, b));
+      parts.push(`range ${min} to ${max}`);
+    }
+  } else if (type === 'date') {
+    const sorted = values.map(String).sort();
+    if (sorted.length > 0) parts.push(`from ${sorted[0]} to ${sorted[sorted.length - 1]}`);
+  } else if (type === 'string') {
+    const distinct = [...new Set(values.map(String))];
+    parts.push(distinct.length <= MAX_CATEGORIES
+      ? `categories: ${distinct.map((value) => JSON.stringify(truncateValue(value))).join(', ')}`
+      : `${distinct.length} distinct values`);
+  }
+
+  if (empty > 0) parts.push(`${empty} empty`);
+  return `- ${parts.join(', ')}`;
+}
+
+/**
+ * Describe datasets for the model: schema, column stats and the first rows
+ */
+export function describeDatasets(datasets) {
+  return datasets.map((dataset) => {
+    const sample = dataset.rows.slice(0, SAMPLE_ROWS).map((row) =>
+      JSON.stringify(Object.fromEntries(Object.entries(row || {}).map(([key, value]) => [key, truncateValue(value)]))),
+    );
+    return [
+      `Dataset "${dataset.name}"${dataset.label ? ` (${dataset.label})` : ''}: ${dataset.rows.length} rows.`,
+      `Read it at runtime as window.FANTA_DATASETS[${JSON.stringify(dataset.name)}] (an array of row objects). Never copy the rows into the document.`,
+      'Columns:',
+      ...dataset.columns.map((column) => describeColumn(column, dataset.rows)),
+      `First ${sample.length} rows:`,
+      ...sample,
+    ].join('\n');
+  }).join('\n\n');
+}
+
+function datasetsScript(datasets) {
+  const data = Object.fromEntries(datasets.map((dataset) => [dataset.name, dataset.rows]));
+  // `<` is escaped so values can't close the script element
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  return `<script id="${DATASETS_SCRIPT_ID}">window.FANTA_DATASETS = ${json};</script>`;
+}
+
+// Put a script first in <head> (before the document's own scripts run)
+function insertFirst(html, script) {
+  if (/<head\b[^>]*>/i.test(html)) return html.replace(/<head\b[^>]*>/i, (tag) => `${tag}\n${script}`);
+  if (/<html\b[^>]*>/i.test(html)) return html.replace(/<html\b[^>]*>/i, (tag) => `${tag}\n${script}`);
+  return `${script}\n${html}`;
+}
+
+/**
+ * Embed the full datasets into a generated document
+ */
+export function embedDatasets(html, datasets) {
+  if (!html || !datasets?.length) return html;
+  return insertFirst(html, datasetsScript(datasets));
+}
+
+const DATASETS_SCRIPT_PATTERN = new RegExp(`<script id="${DATASETS_SCRIPT_ID}">[\\s\\S]*?</script>`);
+
+/**
+ * Swap the embedded data script for a placeholder so refinement prompts don't resend the rows.
+ * Put it back with `restoreDatasets`.
+ */
+export function extractDatasets(html) {
+  const match = html.match(DATASETS_SCRIPT_PATTERN);
+  if (!match) return { html, script: null };
+  return { html: html.replace(match[0], DATASETS_PLACEHOLDER), script: match[0] };
+}
+
+/**
+ * Put back the data script removed by `extractDatasets` (re-inserted if the model dropped the placeholder)
+ */
+export function restoreDatasets(html, script) {
+  if (!html || !script) return html;
+  return html.includes(DATASETS_PLACEHOLDER)
+    ? html.replace(DATASETS_PLACEHOLDER, () => script)
+    : insertFirst(html, script);
+}
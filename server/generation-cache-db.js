@@ -0,0 +1,39 @@
+/**
+ * Generation cache database operations (results of identical requests, per user)
+ */
+import pool from './db.js';
+
+const CACHE_COLUMNS = `id, user_id, cache_key, mode, model, html, warnings, provenance, created_at`;
+
+/**
+ * Get a cached result newer than `windowMs`
+ */
+export async function getCachedGeneration(userId, cacheKey, windowMs) {
+  const result = await pool.query(
+    `SELECT ${CACHE_COLUMNS}
+     FROM generation_cache
+     WHERE user_id = $1 AND cache_key = $2
+       AND created_at > NOW() - make_interval(secs => $3)`,
+    [userId, cacheKey, windowMs / 1000]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Store (or refresh) a result, and drop the user's entries that have expired
+ */
+export async function storeCachedGeneration(userId, cacheKey, { mode, model, html, warnings, provenance }, windowMs) {
+  await pool.query(
+    `INSERT INTO generation_cache (user_id, cache_key, mode, model, html, warnings, provenance)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (user_id, cache_key)
+     DO UPDATE SET mode = EXCLUDED.mode, model = EXCLUDED.model, html = EXCLUDED.html,
+                   warnings = EXCLUDED.warnings, provenance = EXCLUDED.provenance, created_at = NOW()`,
+    [userId, cacheKey, mode, model || null, html, JSON.stringify(warnings || []), provenance ? JSON.stringify(provenance) : null]
+  );
+  await pool.query(
+    `DELETE FROM generation_cache
+     WHERE user_id = $1 AND created_at < NOW() - make_interval(secs => $2)`,
+    [userId, windowMs / 1000]
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Generation cache
+ * Repeating an identical request (same prompt, file bytes, datasets, mode, model and brand kit)
+ * within the cache window returns the stored result instead of calling the model.
+ * Cache hits don't count toward daily usage. Send `regenerate: true` to skip the cache.
+ *
+ * Configuration (environment):
+ *   GENERATION_CACHE_WINDOW_MINUTES   how long results are reused (default 60, 0 disables the cache)
+ */
+import crypto from 'crypto';
+import * as cacheDb from './generation-cache-db.js';
+
+const WINDOW_MS = Number.parseFloat(process.env.GENERATION_CACHE_WINDOW_MINUTES ?? '60') * 60 * 1000;
+
+export function isCacheEnabled() {
+  return WINDOW_MS > 0;
+}
+
+function sha256(value) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Cache key of a parsed generation request for `model`.
+ * Files are hashed by content (and order / label, since both change the prompt sent).
+ */
+export function getCacheKey({ prompt, files, datasets, mode, brandKit }, model) {
+  return sha256(JSON.stringify({
+    prompt: prompt.trim(),
+    mode,
+    model,
+    files: files.map((file) => ({
+      mimeType: file.mimeType,
+      label: file.label || null,
+      hash: sha256(file.data),
+    })),
+    datasets: datasets?.length ? sha256(JSON.stringify(datasets)) : null,
+    // The kit's settings, not its id: editing a kit invalidates its cached results
+    // (its name is in the system prompt too)
+    brandKit: brandKit
+      ? {
+          name: brandKit.name,
+          palette: brandKit.palette,
+          fonts: brandKit.fonts,
+          logo: brandKit.logo ? sha256(brandKit.logo) : null,
+          voiceNotes: brandKit.voiceNotes,
+        }
+      : null,
+  }));
+}
+
+/**
+ * The cached result for a key as a response body ({ html, warnings, model, provenance, cached, cachedAt }), or null.
+ * The provenance is the original generation's (server.js replaces it with the new request's).
+ */
+export async function lookup(userId, key) {
+  if (!isCacheEnabled()) return null;
+  try {
+    const entry = await cacheDb.getCachedGeneration(userId, key, WINDOW_MS);
+    if (!entry) return null;
+    return {
+      html: entry.html,
+      warnings: entry.warnings || [],
+      model: entry.model,
+      provenance: entry.provenance || undefined,
+      cached: true,
+      cachedAt: entry.created_at,
+    };
+  } catch (error) {
+    // A cache failure shouldn't block generating
+    console.warn('Generation cache lookup failed:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Remember a finished generation ({ mode, model, html, warnings, provenance })
+ */
+export function store(userId, key, result) {
+  if (!isCacheEnabled()) return;
+  cacheDb
+    .storeCachedGeneration(userId, key, result, WINDOW_MS)
+    .catch((error) => console.warn('Failed to cache generation:', error.message));
+}
@@ -0,0 +1,121 @@
+/**
+ * Generation error model
+ * Every generation failure sent to clients has a `type` from GENERATION_ERRORS
+ * (kept in sync with services/generation-errors.ts):
+ *   { error: <human readable message>, type, message?: <provider detail>, ...details }
+ */
+import { isQuotaError } from './generation.js';
+
+export const GENERATION_ERRORS = {
+  AUTH_EXPIRED: 'auth_expired',
+  DAILY_LIMIT: 'daily_limit',
+  PROVIDER_QUOTA: 'provider_quota',
+  SAFETY_BLOCK: 'safety_block',
+  TIMEOUT: 'timeout',
+  MALFORMED_OUTPUT: 'malformed_output',
+  CANCELLED: 'cancelled',
+  UNKNOWN: 'unknown',
+};
+
+const ERROR_STATUS = {
+  auth_expired: 401,
+  daily_limit: 429,
+  provider_quota: 503,
+  safety_block: 422,
+  timeout: 504,
+  malformed_output: 502,
+  cancelled: 499,
+  unknown: 500,
+};
+
+const DEFAULT_MESSAGES = {
+  auth_expired: 'Your session has expired. Please sign in again.',
+  daily_limit: 'Daily generation limit reached',
+  provider_quota: 'AI service quota exceeded',
+  safety_block: 'The request was blocked by the AI safety filters',
+  timeout: 'The generation took too long and was stopped',
+  malformed_output: 'The AI returned an empty or unusable response',
+  cancelled: 'Generation cancelled',
+  unknown: 'Failed to generate content',
+};
+
+// Finish reasons / block reasons reported by Gemini when content is filtered
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY'];
+
+// Longest a single generation may run before it's aborted as a timeout
+const GENERATION_TIMEOUT_MS = Number.parseInt(process.env.GENERATION_TIMEOUT_MS || '300000', 10);
+
+/**
+ * A typed generation failure
+ */
+export class GenerationError extends Error {
+  constructor(type, message = DEFAULT_MESSAGES[type], details = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.type = type;
+    this.details = details;
+  }
+}
+
+/**
+ * Check a Gemini response (or stream chunk) for a safety block; returns the reason or null
+ */
+export function getSafetyBlockReason(response) {
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) return blockReason;
+
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  return SAFETY_REASONS.includes(finishReason) ? finishReason : null;
+}
+
+/**
+ * Classify any error thrown during a generation
+ */
+export function toGenerationError(error) {
+  if (error instanceof GenerationError) return error;
+
+  const message = String(error?.message || '');
+  if (isQuotaError(error)) {
+    return new GenerationError(GENERATION_ERRORS.PROVIDER_QUOTA, undefined, { message });
+  }
+  if (error?.name === 'TimeoutError' || error?.status === 504 || message.includes('DEADLINE_EXCEEDED')) {
+    return new GenerationError(GENERATION_ERRORS.TIMEOUT, undefined, { message });
+  }
+  if (error?.name === 'AbortError') {
+    return new GenerationError(GENERATION_ERRORS.CANCELLED);
+  }
+  return new GenerationError(GENERATION_ERRORS.UNKNOWN, undefined, { message: message || String(error) });
+}
+
+/**
+ * Abort `controller` with a timeout error once the generation runs too long.
+ * Returns a function that clears the timer.
+ */
+export function abortOnTimeout(controller, ms = GENERATION_TIMEOUT_MS) {
+  const timer = setTimeout(() => controller.abort(new GenerationError(GENERATION_ERRORS.TIMEOUT)), ms);
+  return () => clearTimeout(timer);
+}
+
+/**
+ * The error a generation aborted through `signal` should report (explicit cancel or timeout)
+ */
+export function abortReason(signal) {
+  return signal?.reason instanceof GenerationError
+    ? signal.reason
+    : new GenerationError(GENERATION_ERRORS.CANCELLED);
+}
+
+/**
+ * Map an error to an HTTP status and JSON body
+ */
+export function generationErrorResponse(error) {
+  const generationError = toGenerationError(error);
+  return {
+    status: ERROR_STATUS[generationError.type] || 500,
+    body: {
+      error: generationError.message,
+      type: generationError.type,
+      ...generationError.details,
+    },
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Generation helpers
+ * Builds Gemini requests per generation mode and normalizes the output
+ */
+import { describeDatasets } from './datasets.js';
+
+export const GENERATION_MODES = ['web', 'mobile', 'social', 'logo', 'video', 'slides', 'email', 'dashboard'];
+
+// Maximum number of source files per generation (kept in sync with InputArea)
+export const MAX_FILES = 6;
+
+// Allowed number of parallel variants per request (kept in sync with InputArea)
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+// What a result may load from other sites, per mode (the rest may use the CDNs)
+const RESOURCE_RULES = {
+  default: `- Inline all CSS and JavaScript. You may load Tailwind CSS and Google Fonts from their CDNs.
+- Use placeholder images from https://placehold.co when imagery is needed.`,
+  email: `- Inline all CSS. Load no scripts or stylesheets from other sites (email clients strip them).
+- Use placeholder images from https://placehold.co when imagery is needed.`,
+  dashboard: `- Inline all CSS and JavaScript. Load nothing from a CDN or any other site: no scripts, stylesheets,
+  fonts or images (draw any imagery as inline SVG).`,
+};
+
+// How brand fonts are loaded, per mode
+const BRAND_FONT_RULES = {
+  default: 'load them from Google Fonts when available',
+  email: 'load them from Google Fonts with a <link>, and always follow them with a web-safe fallback stack',
+  dashboard: 'as installed fonts only, followed by a web-safe fallback stack; do not load web fonts',
+};
+
+function getBaseInstruction(mode) {
+  return `You are Fanta Build, an expert front-end engineer and designer.
+Turn the user's sketch, screenshot, document or description into a single, self-contained HTML file.
+- Return ONLY the HTML document, starting with <!DOCTYPE html>. No markdown, no explanations.
+${RESOURCE_RULES[mode] || RESOURCE_RULES.default}
+- The result must be interactive and work immediately when opened in a browser.`;
+}
+
+const MODE_INSTRUCTIONS = {
+  web: 'Build a responsive web application or website. Make navigation and key interactions functional.',
+  mobile: 'Build a mobile app UI in a centered phone-sized frame (390x844). Use touch-friendly controls and realistic app navigation.',
+  social: 'Build a vertical 9:16 animated promo (TikTok/Reels style) using HTML, CSS and JavaScript animations that loop automatically.',
+  logo: 'Design a logo and mini brand sheet: the logo as inline SVG, color palette swatches, typography samples and usage examples.',
+  video: 'Build an animated video-like scene with HTML/CSS/JS: timed scenes, transitions and captions that play automatically and loop.',
+  slides: `Build a presentation deck from the outline, notes or whiteboard photo.
+- Write every slide as a direct child of <body>: <section class="slide">...</section>, designed for a fixed 1280x720 canvas.
+- Put the speaker notes for each slide inside it as <aside class="notes">...</aside> (what to say, not what is on the slide).
+- Keep slides visual and concise: a title slide, one idea per slide, a closing slide.
+- Do not write navigation, slide transitions or print styles; the deck player adds them.`,
+  email: `Build an HTML email (newsletter or transactional) that renders in Gmail, Outlook and Apple Mail.
+- Lay it out with nested <table role="presentation"> elements, 600px wide and centered; no flexbox, grid, positioning or CSS variables.
+- Put all styles inline in style="" attributes. A <style> block may only hold @media queries for mobile.
+- No JavaScript, forms, video or web fonts without fallbacks; use web-safe font stacks.
+- Give images absolute URLs, explicit width/height and alt text. Keep the whole email under 100 KB.`,
+  dashboard: `Build an interactive data dashboard from the attached dataset(s): KPI cards, 3-6 charts that suit the columns
+(time series as line charts, categories as bar or donut charts), filters (date range, categories) that update every chart,
+and a sortable, searchable table of the rows. Without a dataset, create realistic sample data in the script.
+- Draw charts with inline SVG or <canvas> and plain JavaScript, and write plain CSS: load nothing from a CDN
+  (no Tailwind, chart libraries or web fonts), so the dashboard works offline.`,
+};
+
+// Placeholder the model uses for the brand logo; replaced with the logo data URL afterwards
+export const BRAND_LOGO_PLACEHOLDER = '{{BRAND_LOGO}}';
+
+// Logo formats the model can look at (SVG logos are only referenced by placeholder)
+const VISIBLE_LOGO_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Describe a brand kit for the system instruction
+ */
+function getBrandInstruction(brandKit, mode) {
+  const lines = [`Apply the "${brandKit.name}" brand kit consistently:`];
+
+  if (brandKit.palette?.length > 0) {
+    const colors = brandKit.palette
+      .map((color) => (color.name ? `${color.name} ${color.hex}` : color.hex))
+      .join(', ');
+    lines.push(`- Color palette: ${colors}. Build the color scheme from these colors only (plus neutral tints of them).`);
+  }
+
+  const { heading, body } = brandKit.fonts || {};
+  if (heading || body) {
+    const fonts = [heading && `"${heading}" for headings`, body && `"${body}" for body text`].filter(Boolean).join(' and ');
+    lines.push(`- Typography: use ${fonts} (${BRAND_FONT_RULES[mode] || BRAND_FONT_RULES.default}).`);
+  }
+
+  if (brandKit.logo) {
+    lines.push(`- Logo: show the existing logo with <img src="${BRAND_LOGO_PLACEHOLDER}" alt="${brandKit.name} logo"> wherever a logo belongs. Never redraw or replace it.`);
+  }
+
+  if (brandKit.voiceNotes?.trim()) {
+    lines.push(`- Voice and tone for all copy: ${brandKit.voiceNotes.trim()}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Get the system instruction for a generation mode, with an optional brand kit
+ */
+export function getSystemInstruction(mode, brandKit = null) {
+  const instruction = `${getBaseInstruction(mode)}\n\n${MODE_INSTRUCTIONS[mode] || MODE_INSTRUCTIONS.web}`;
+  return brandKit ? `${instruction}\n\n${getBrandInstruction(brandKit, mode)}` : instruction;
+}
+
+// Uploaded HTML pages (remix input) are sent to the model as text, not as inline data
+export const HTML_MIME_TYPE = 'text/html';
+
+const REMIX_NOTE = 'Existing HTML page to remix. Rebuild it as requested, keeping its content and {{ASSET_n}} images unless told otherwise:';
+
+/**
+ * Decode uploaded HTML pages into `file.text` for the prompt. Large data URLs are swapped for
+ * {{ASSET_n}} placeholders, collected in `assets` to be restored in the result.
+ */
+export function decodeHtmlFiles(files) {
+  const assets = [];
+  return {
+    files: files.map((file) => {
+      if (file.mimeType !== HTML_MIME_TYPE) return file;
+      const html = Buffer.from(file.data, 'base64').toString('utf8');
+      return { ...file, text: extractInlineAssets(html, assets).html };
+    }),
+    assets,
+  };
+}
+
+/**
+ * Build Gemini contents from the prompt, source files and datasets.
+ * Files keep the user's order; each is preceded by its label so the prompt can refer to it.
+ * HTML pages (decoded by `decodeHtmlFiles`) are sent as text.
+ * A brand kit's raster logo is sent first so the model can match its style.
+ * Datasets are described (schema and a sample), not sent in full.
+ */
+export function buildContents(prompt, files = [], brandKit = null, datasets = []) {
+  const parts = [];
+
+  const logo = brandKit?.logo?.match(/^data:([^;]+);base64,(.+)$/);
+  if (logo && VISIBLE_LOGO_TYPES.includes(logo[1])) {
+    parts.push({ text: `Brand logo (reference it as ${BRAND_LOGO_PLACEHOLDER}):` });
+    parts.push({ inlineData: { data: logo[2], mimeType: logo[1] } });
+  }
+
+  files.forEach((file, i) => {
+    const heading = files.length > 1 || file.label ? `File ${i + 1}${file.label ? ` (${file.label})` : ''}:` : '';
+    if (file.text !== undefined) {
+      parts.push({ text: [heading, REMIX_NOTE, file.text].filter(Boolean).join('\n') });
+      return;
+    }
+    if (heading) parts.push({ text: heading });
+    parts.push({ inlineData: { data: file.data, mimeType: file.mimeType } });
+  });
+
+  if (datasets.length > 0) {
+    parts.push({ text: describeDatasets(datasets) });
+  }
+
+  parts.push({
+    text: prompt && prompt.trim()
+      ? prompt
+      : 'Bring this to life as a fully functional, interactive result.',
+  });
+
+  return [{ role: 'user', parts }];
+}
+
+/**
+ * Get the system instruction for one of several parallel variants,
+ * nudging each towards a different design direction
+ */
+export function getVariantInstruction(mode, index, count, brandKit = null) {
+  return `${getSystemInstruction(mode, brandKit)}
+
+This is variant ${index + 1} of ${count} generated for the same request.
+Take a clearly distinct design direction (layout, color palette, typography) from the other variants.`;
+}
+
+/**
+ * Get the system instruction for refining an existing document
+ */
+export function getRefineInstruction(mode) {
+  return `${getSystemInstruction(mode)}
+
+You are now editing an existing document. Apply the requested change and return the complete updated HTML document.
+Keep everything that the change does not touch exactly as it is, including {{ASSET_n}} and {{DATASETS}} placeholders.`;
+}
+
+/**
+ * Build Gemini contents for a refinement turn.
+ * `history` holds earlier instructions (oldest first) so the model keeps their intent.
+ */
+export function buildRefineContents(html, instruction, history = []) {
+  const sections = [];
+
+  if (history.length > 0) {
+    const previous = history.map((turn, i) => `${i + 1}. ${turn.instruction}`).join('\n');
+    sections.push(`Changes already applied (oldest first):\n${previous}`);
+  }
+
+  sections.push(`Current HTML document:\n${html}`);
+  sections.push(`Apply this change: ${instruction}`);
+
+  return [{ role: 'user', parts: [{ text: sections.join('\n\n') }] }];
+}
+
+/**
+ * Get the system instruction for rewriting one element of a document (click-to-edit)
+ */
+export function getFragmentInstruction(mode) {
+  return `${getSystemInstruction(mode)}
+
+You are now editing a single element of an existing document, not the whole document.
+Apply the requested change and return only the updated HTML of that element: one fragment that replaces it in place.
+Do not return <!DOCTYPE>, <html>, <head> or <body>, and do not wrap the fragment in markdown.
+Keep the styling approach of the fragment (classes, inline styles) and keep {{ASSET_n}} placeholders as they are.`;
+}
+
+/**
+ * Build Gemini contents for a fragment rewrite.
+ * `selector` locates the element in the page, so the model knows where it sits.
+ */
+export function buildFragmentContents(fragment, instruction, selector = '') {
+  const sections = [];
+  if (selector) sections.push(`Element location in the page: ${selector}`);
+  sections.push(`Current element HTML:\n${fragment}`);
+  sections.push(`Apply this change to the element: ${instruction}`);
+  return [{ role: 'user', parts: [{ text: sections.join('\n\n') }] }];
+}
+
+/**
+ * Strip markdown code fences from a rewritten fragment.
+ * A model that returned a whole document anyway is reduced to its body content.
+ */
+export function extractFragment(text) {
+  if (!text) return '';
+
+  let fragment = text.trim();
+  const fenced = fragment.match(/```(?:html)?\s*([\s\S]*?)(?:```|$)/i);
+  if (fenced) {
+    fragment = fenced[1].trim();
+  }
+
+  const body = fragment.match(/<body\b[^>]*>([\s\S]*?)(?:<\/body\s*>|$)/i);
+  if (body) {
+    fragment = body[1].trim();
+  }
+
+  return fragment;
+}
+
+/**
+ * Strip markdown code fences and surrounding chatter from model output
+ */
+export function extractHtml(text) {
+  if (!text) return '';
+
+  let html = text.trim();
+  const fenced = html.match(/```(?:html)?\s*([\s\S]*?)(?:```|$)/i);
+  if (fenced) {
+    html = fenced[1].trim();
+  }
+
+  const docStart = html.search(/<!DOCTYPE html|<html/i);
+  if (docStart > 0) {
+    html = html.slice(docStart);
+  }
+
+  return html;
+}
+
+/**
+ * Swap the brand logo placeholder for the logo itself
+ */
+export function insertBrandLogo(html, brandKit) {
+  if (!html || !brandKit?.logo) return html;
+  return html.split(BRAND_LOGO_PLACEHOLDER).join(brandKit.logo);
+}
+
+// Data URLs longer than this are swapped out of documents sent back to the model
+const INLINE_ASSET_MIN_LENGTH = 1024;
+
+/**
+ * Replace large data URLs (e.g. an inserted brand logo) with short placeholders
+ * so refinement prompts don't resend them. Restore them with `restoreInlineAssets`.
+ * Pass `assets` to number placeholders across several documents.
+ */
+export function extractInlineAssets(html, assets = []) {
+  const stripped = html.replace(/data:[\w.+-]+\/[\w.+-]+;base64,[A-Za-z0-9+/=]+/g, (dataUrl) => {
+    if (dataUrl.length < INLINE_ASSET_MIN_LENGTH) return dataUrl;
+    let index = assets.indexOf(dataUrl);
+    if (index === -1) index = assets.push(dataUrl) - 1;
+    return `{{ASSET_${index}}}`;
+  });
+  return { html: stripped, assets };
+}
+
+/**
+ * Put back data URLs removed by `extractInlineAssets`
+ */
+export function restoreInlineAssets(html, assets) {
+  if (!html || assets.length === 0) return html;
+  return html.replace(/\{\{ASSET_(\d+)\}\}/g, (placeholder, index) => assets[Number(index)] ?? placeholder);
+}
+
+/**
+ * Detect Gemini quota / rate limit errors
+ */
+export function isQuotaError(error) {
+  const message = String(error?.message || '');
+  return error?.status === 429 ||
+    message.includes('RESOURCE_EXHAUSTED') ||
+    message.toLowerCase().includes('quota');
+}
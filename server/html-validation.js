@@ -0,0 +1,273 @@
+/**
+ * HTML validation & repair
+ * Checks generated documents for common model failures (code fences, missing
+ * <html>/<body>, dangling tags, truncated output) and repairs them without a model call.
+ * Email templates are also checked for email client compatibility.
+ */
+import { extractHtml } from './generation.js';
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+// Content is plain text up to the matching end tag
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// End tag may be omitted per the HTML spec, so not reported as dangling
+const OPTIONAL_END_TAGS = new Set([
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup',
+  'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'colgroup', 'rb', 'rt', 'rp',
+]);
+
+const TAG_NAME = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)/y;
+
+// Index of the `>` closing the tag opened at `start` (skips quoted attribute values), or -1
+function findTagEnd(html, start) {
+  let quote = null;
+  for (let i = start + 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Walk the document's tags.
+ * Returns the elements still open at the end and, if the text stops mid-construct,
+ * where: { index, inside: 'tag' | 'comment' | 'raw', name? }.
+ */
+function scanDocument(html) {
+  const open = [];
+  let truncated = null;
+  let i = 0;
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    if (lt === -1) break;
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      if (end === -1) {
+        truncated = { index: lt, inside: 'comment' };
+        break;
+      }
+      i = end + 3;
+      continue;
+    }
+
+    if (html.startsWith('<!', lt) || html.startsWith('<?', lt)) {
+      const end = html.indexOf('>', lt);
+      if (end === -1) {
+        truncated = { index: lt, inside: 'tag' };
+        break;
+      }
+      i = end + 1;
+      continue;
+    }
+
+    TAG_NAME.lastIndex = lt;
+    const match = TAG_NAME.exec(html);
+    if (!match) {
+      // A literal `<` in text
+      i = lt + 1;
+      continue;
+    }
+
+    const end = findTagEnd(html, lt);
+    if (end === -1) {
+      truncated = { index: lt, inside: 'tag' };
+      break;
+    }
+
+    const closing = match[1] === '/';
+    const name = match[2].toLowerCase();
+    i = end + 1;
+
+    if (closing) {
+      // Close the nearest matching element (and anything left open inside it);
+      // stray end tags are ignored like browsers do
+      const index = open.lastIndexOf(name);
+      if (index !== -1) open.length = index;
+      continue;
+    }
+
+    if (VOID_ELEMENTS.has(name) || html[end - 1] === '/') continue;
+    open.push(name);
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = html.toLowerCase().indexOf(`</${name}`, i);
+      const closeEnd = close === -1 ? -1 : html.indexOf('>', close);
+      if (closeEnd === -1) {
+        truncated = { index: i, inside: 'raw', name };
+        break;
+      }
+      open.pop();
+      i = closeEnd + 1;
+    }
+  }
+
+  return { open, truncated };
+}
+
+function describeTruncation(truncated) {
+  if (!truncated) return 'The document ends before </html>.';
+  if (truncated.inside === 'comment') return 'The document ends inside an HTML comment.';
+  if (truncated.inside === 'raw') return `The document ends inside a <${truncated.name}> element.`;
+  return 'The document ends in the middle of a tag.';
+}
+
+/**
+ * Strip code fences and check a generated document.
+ * Returns the cleaned HTML and a list of warnings ({ code, message }); an empty
+ * `html` means the output contained no document at all.
+ */
+export function analyzeHtml(text) {
+  const raw = (text || '').trim();
+  const html = extractHtml(raw);
+  const warnings = [];
+  if (!html) return { html, warnings };
+
+  if (html.length < raw.length) {
+    warnings.push({
+      code: 'extra_text',
+      message: raw.includes('```')
+        ? 'Markdown code fences were removed from the output.'
+        : 'Text around the HTML document was removed.',
+    });
+  }
+
+  if (!/^<!DOCTYPE html/i.test(html)) {
+    warnings.push({ code: 'missing_doctype', message: 'The document has no <!DOCTYPE html> declaration.' });
+  }
+  const hasHtmlTag = /<html[\s>]/i.test(html);
+  if (!hasHtmlTag) {
+    warnings.push({ code: 'missing_html', message: 'The document has no <html> element.' });
+  }
+  if (!/<body[\s>]/i.test(html)) {
+    warnings.push({ code: 'missing_body', message: 'The document has no <body> element.' });
+  }
+
+  const { open, truncated } = scanDocument(html);
+  if (truncated || (hasHtmlTag && !/<\/html\s*>/i.test(html))) {
+    warnings.push({
+      code: 'truncated',
+      message: `The output looks truncated. ${describeTruncation(truncated)}`,
+    });
+  }
+
+  const dangling = [...new Set(open.filter((name) => !OPTIONAL_END_TAGS.has(name)))];
+  if (dangling.length > 0) {
+    const listed = dangling.slice(0, 5).map((name) => `<${name}>`).join(', ');
+    warnings.push({
+      code: 'unclosed_tags',
+      message: `Unclosed tags: ${listed}${dangling.length > 5 ? ` and ${dangling.length - 5} more` : ''}.`,
+    });
+  }
+
+  return { html, warnings };
+}
+
+/**
+ * Repair a generated document: drop a cut-off tag, close dangling elements and
+ * add the missing doctype / <html> / <body> wrappers.
+ * Returns the repaired HTML and the warnings that still apply.
+ */
+export function repairHtml(text) {
+  let html = extractHtml((text || '').trim());
+  if (!html) return { html, warnings: [] };
+
+  const { truncated } = scanDocument(html);
+  if (truncated?.inside === 'tag') {
+    html = html.slice(0, truncated.index);
+  } else if (truncated?.inside === 'comment') {
+    html += ' -->';
+  }
+
+  // Close everything still open, innermost first (a cut-off <script> included)
+  const { open } = scanDocument(html);
+  html = html.trimEnd() + open.reverse().map((name) => `</${name}>`).join('');
+
+  if (!/<html[\s>]/i.test(html)) {
+    const body = html.replace(/^<!DOCTYPE[^>]*>\s*/i, '');
+    html = `<html>\n<head>\n<meta charset="UTF-8">\n</head>\n<body>\n${body}\n</body>\n</html>`;
+  } else if (!/<body[\s>]/i.test(html)) {
+    html = /<\/head\s*>/i.test(html)
+      ? html.replace(/<\/head\s*>/i, (tag) => `${tag}\n<body>`)
+      : html.replace(/<html[^>]*>/i, (tag) => `${tag}\n<body>`);
+    html = html.replace(/<\/html\s*>/i, (tag) => `</body>\n${tag}`);
+  }
+
+  if (!/^<!DOCTYPE html/i.test(html)) {
+    html = `<!DOCTYPE html>\n${html}`;
+  }
+
+  return analyzeHtml(html);
+}
+
+// Gmail clips messages larger than this ("[Message clipped]")
+export const EMAIL_CLIP_BYTES = 102 * 1024;
+
+// CSS that common email clients (Outlook desktop, Gmail, Yahoo) drop or mis-render
+const EMAIL_UNSUPPORTED_CSS = [
+  { pattern: /display\s*:\s*(?:inline-)?flex\b/i, feature: 'flexbox' },
+  { pattern: /display\s*:\s*(?:inline-)?grid\b/i, feature: 'CSS grid' },
+  { pattern: /position\s*:\s*(?:absolute|fixed|sticky|relative)\b/i, feature: 'position' },
+  { pattern: /var\(\s*--/i, feature: 'CSS variables' },
+  { pattern: /calc\(/i, feature: 'calc()' },
+  { pattern: /(?:^|[\s;{"'])transform\s*:/i, feature: 'transform' },
+  { pattern: /@keyframes|(?:^|[\s;{"'])animation(?:-name)?\s*:/i, feature: 'animations' },
+  { pattern: /(?:^|[\s;{"'])transition\s*:/i, feature: 'transitions' },
+  { pattern: /@import\b/i, feature: '@import' },
+];
+
+/**
+ * Check an email template for what email clients don't handle:
+ * unsupported CSS, CSS outside style attributes, scripts and Gmail's size limit.
+ * Returns warnings ({ code, message }) in the same format as `analyzeHtml`.
+ */
+export function checkEmailHtml(html) {
+  const warnings = [];
+  if (!html) return warnings;
+
+  const styleBlocks = [...html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style\s*>/gi)].map((match) => match[1]);
+  const inlineStyles = [...html.matchAll(/\sstyle\s*=\s*("([^"]*)"|'([^']*)')/gi)].map((match) => match[2] ?? match[3]);
+  const css = [...styleBlocks, ...inlineStyles].join('\n');
+
+  const unsupported = EMAIL_UNSUPPORTED_CSS.filter(({ pattern }) => pattern.test(css)).map(({ feature }) => feature);
+  if (unsupported.length > 0) {
+    warnings.push({
+      code: 'email_unsupported_css',
+      message: `CSS that many email clients ignore: ${unsupported.join(', ')}. Use tables and inline styles instead.`,
+    });
+  }
+
+  // Only media queries belong in <style>: many clients strip the block, so everything else must be inline
+  const blockRules = styleBlocks.join('\n').replace(/@media[^{]*\{(?:[^{}]*\{[^{}]*\})*[^{}]*\}/gi, '');
+  if (/\{[^}]*:[^}]*\}/.test(blockRules) || /<link\b[^>]*rel\s*=\s*["']?stylesheet/i.test(html)) {
+    warnings.push({
+      code: 'email_style_block',
+      message: 'Styles outside style="" attributes (a <style> block or stylesheet link) are stripped by some email clients; inline them.',
+    });
+  }
+
+  if (/<script\b/i.test(html)) {
+    warnings.push({ code: 'email_scripts', message: 'Email clients remove <script> elements, so interactive parts will not work.' });
+  }
+
+  const size = Buffer.byteLength(html, 'utf8');
+  if (size > EMAIL_CLIP_BYTES) {
+    warnings.push({
+      code: 'email_size',
+      message: `The email is ${Math.round(size / 1024)} KB; Gmail clips messages over ${EMAIL_CLIP_BYTES / 1024} KB.`,
+    });
+  }
+
+  return warnings;
+}
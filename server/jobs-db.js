@@ -0,0 +1,170 @@
+/**
+ * Generation job database operations
+ */
+import pool from './db.js';
+
+const JOB_COLUMNS = `id, user_id, status, mode, prompt, metadata, error, instance_id, heartbeat_at, delivered_at, completed_at, created_at, updated_at`;
+
+/**
+ * Create a pending job, owned by the server instance `instanceId` that will run it
+ */
+export async function createJob(userId, mode, prompt, metadata, instanceId = null) {
+  const result = await pool.query(
+    `INSERT INTO generation_jobs (user_id, mode, prompt, metadata, instance_id)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${JOB_COLUMNS}`,
+    [userId, mode, prompt || '', metadata ? JSON.stringify(metadata) : null, instanceId]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Get a job owned by a user (without the result HTML)
+ */
+export async function getJob(jobId, userId) {
+  const result = await pool.query(
+    `SELECT ${JOB_COLUMNS} FROM generation_jobs WHERE id = $1 AND user_id = $2`,
+    [jobId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * The latest job a user created for a client request id (see /api/generate/cancel)
+ */
+export async function getJobByRequestId(userId, requestId) {
+  const result = await pool.query(
+    `SELECT ${JOB_COLUMNS} FROM generation_jobs
+     WHERE user_id = $1 AND metadata->>'requestId' = $2
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [userId, requestId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get the result HTML of a completed job and mark it as delivered
+ */
+export async function takeJobResult(jobId, userId) {
+  const result = await pool.query(
+    `UPDATE generation_jobs
+     SET delivered_at = COALESCE(delivered_at, NOW())
+     WHERE id = $1 AND user_id = $2 AND status = 'completed'
+     RETURNING html`,
+    [jobId, userId]
+  );
+  return result.rows[0]?.html ?? null;
+}
+
+/**
+ * Jobs a client should re-attach to: still running, or completed but never delivered
+ */
+export async function getPendingJobs(userId) {
+  const result = await pool.query(
+    `SELECT ${JOB_COLUMNS}
+     FROM generation_jobs
+     WHERE user_id = $1
+       AND created_at > NOW() - INTERVAL '24 hours'
+       AND (status IN ('pending', 'running') OR (status = 'completed' AND delivered_at IS NULL))
+     ORDER BY created_at DESC`,
+    [userId]
+  );
+  return result.rows;
+}
+
+/**
+ * How many of a user's jobs are still pending or running (they count toward the daily limit
+ * until they finish). With `upToJob`, only those created before it, and the job itself.
+ */
+export async function countActiveJobs(userId, upToJob = null) {
+  const result = await pool.query(
+    `SELECT COUNT(*)::int AS count
+     FROM generation_jobs
+     WHERE user_id = $1 AND status IN ('pending', 'running')
+       AND ($2::uuid IS NULL OR (created_at, id) <= (SELECT created_at, id FROM generation_jobs WHERE id = $2))`,
+    [userId, upToJob?.id ?? null]
+  );
+  return result.rows[0].count;
+}
+
+/**
+ * Mark a job as running
+ */
+export async function markJobRunning(jobId) {
+  await pool.query(
+    `UPDATE generation_jobs SET status = 'running' WHERE id = $1 AND status = 'pending'`,
+    [jobId]
+  );
+}
+
+/**
+ * Store the result of a finished job (and the model and provenance that produced it, in metadata).
+ * Returns false if the job was cancelled meanwhile (the result is dropped).
+ */
+export async function completeJob(jobId, html, model = null, provenance = null) {
+  const result = await pool.query(
+    `UPDATE generation_jobs
+     SET status = 'completed', html = $2, completed_at = NOW(),
+         metadata = COALESCE(metadata, '{}'::jsonb)
+           || jsonb_strip_nulls(jsonb_build_object('model', $3::text, 'provenance', $4::jsonb))
+     WHERE id = $1 AND status IN ('pending', 'running')`,
+    [jobId, html, model, provenance ? JSON.stringify(provenance) : null]
+  );
+  return result.rowCount > 0;
+}
+
+/**
+ * Cancel a pending or running job in the database (for jobs another instance runs: it stops the
+ * job when it next renews the lease). Returns false if the job had already finished.
+ */
+export async function cancelJob(jobId, error) {
+  const result = await pool.query(
+    `UPDATE generation_jobs
+     SET status = 'cancelled', error = $2, completed_at = NOW()
+     WHERE id = $1 AND status IN ('pending', 'running')`,
+    [jobId, JSON.stringify(error)]
+  );
+  return result.rowCount > 0;
+}
+
+/**
+ * Mark a job as failed or cancelled
+ */
+export async function finishJobWithError(jobId, status, error) {
+  await pool.query(
+    `UPDATE generation_jobs
+     SET status = $2, error = $3, completed_at = NOW()
+     WHERE id = $1`,
+    [jobId, status, JSON.stringify(error)]
+  );
+}
+
+/**
+ * Renew the lease of the jobs an instance is running.
+ * Returns the ids still pending or running (the others were cancelled elsewhere).
+ */
+export async function touchJobs(jobIds) {
+  if (jobIds.length === 0) return [];
+  const result = await pool.query(
+    `UPDATE generation_jobs SET heartbeat_at = NOW()
+     WHERE id = ANY($1::uuid[]) AND status IN ('pending', 'running')
+     RETURNING id`,
+    [jobIds]
+  );
+  return result.rows.map((row) => row.id);
+}
+
+/**
+ * Fail jobs whose instance stopped renewing their lease (it crashed, or was restarted or
+ * scaled away). Jobs of live instances, this one or others, keep running.
+ */
+export async function failExpiredJobs(leaseSeconds) {
+  const result = await pool.query(
+    `UPDATE generation_jobs
+     SET status = 'failed', error = $1, completed_at = NOW()
+     WHERE status IN ('pending', 'running') AND heartbeat_at < NOW() - make_interval(secs => $2)`,
+    [JSON.stringify({ error: 'Generation was interrupted by a server restart' }), leaseSeconds]
+  );
+  return result.rowCount;
+}
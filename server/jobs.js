@@ -0,0 +1,144 @@
+/**
+ * Generation job runner
+ * Runs jobs in the background (independent of the HTTP request that created them)
+ * and relays progress to subscribers. Final state is persisted via jobs-db.js.
+ */
+import { randomUUID } from 'crypto';
+import * as jobsDb from './jobs-db.js';
+import * as auth from './auth.js';
+import { analyzeHtml } from './html-validation.js';
+import {
+  GenerationError,
+  GENERATION_ERRORS,
+  toGenerationError,
+  abortOnTimeout,
+  abortReason,
+} from './generation-errors.js';
+
+// Jobs running in this process: jobId -> { text, listeners, controller }
+const liveJobs = new Map();
+
+// This process, as the owner of the jobs it creates (several instances can share the database)
+export const INSTANCE_ID = randomUUID();
+
+// Running jobs renew their lease every JOB_HEARTBEAT_MS; a job whose lease is older than
+// JOB_LEASE_SECONDS belongs to an instance that is gone and is failed by any other
+const JOB_HEARTBEAT_MS = 30 * 1000;
+const JOB_LEASE_SECONDS = 120;
+
+function emit(live, event, data) {
+  for (const listener of live.listeners) {
+    try {
+      listener(event, data);
+    } catch (error) {
+      console.warn('Job listener error:', error?.message || error);
+    }
+  }
+}
+
+/**
+ * Start a job in the background.
+ * `openStream(signal)` must return an async iterable of provider chunks ({ text }).
+ * `describeError(error)` maps a failure (including cancel / timeout) to the JSON error payload sent to clients.
+ * `finishHtml(text, stream)` turns the full output into { html, warnings, provenance? }.
+ * The model that answered (`stream.model`) and the provenance are stored with the result.
+ */
+export function startJob(job, openStream, describeError, finishHtml = analyzeHtml) {
+  const live = { text: '', listeners: new Set(), controller: new AbortController() };
+  liveJobs.set(job.id, live);
+
+  (async () => {
+    const { signal } = live.controller;
+    const clearTimer = abortOnTimeout(live.controller);
+    try {
+      await jobsDb.markJobRunning(job.id);
+
+      const stream = await openStream(signal);
+      for await (const chunk of stream) {
+        if (signal.aborted) break;
+        const piece = chunk.text;
+        if (piece) {
+          live.text += piece;
+          emit(live, 'chunk', { text: piece });
+        }
+      }
+      if (signal.aborted) throw abortReason(signal);
+
+      const { html, warnings, provenance } = finishHtml(live.text, stream);
+      if (!html) throw new GenerationError(GENERATION_ERRORS.MALFORMED_OUTPUT);
+
+      // Cancelled from another instance while it ran
+      if (!(await jobsDb.completeJob(job.id, html, stream.model, provenance))) {
+        throw new GenerationError(GENERATION_ERRORS.CANCELLED);
+      }
+      // Usage is only counted for completed jobs (cancelled/failed ones are free)
+      await auth.incrementDailyUsage(job.user_id);
+      emit(live, 'done', { html, warnings, model: stream.model, provenance });
+    } catch (error) {
+      const failure = toGenerationError(signal.aborted ? abortReason(signal) : error);
+      if (failure.type === GENERATION_ERRORS.CANCELLED) {
+        console.log(`Generation job ${job.id} cancelled`);
+        const payload = describeError(failure);
+        await jobsDb.finishJobWithError(job.id, 'cancelled', payload).catch(() => {});
+        emit(live, 'error', payload);
+        return;
+      }
+      console.error(`Generation job ${job.id} failed:`, failure);
+      const payload = describeError(failure);
+      await jobsDb.finishJobWithError(job.id, 'failed', payload).catch((dbError) => {
+        console.error('Failed to record job failure:', dbError);
+      });
+      emit(live, 'error', payload);
+    } finally {
+      clearTimer();
+      liveJobs.delete(job.id);
+    }
+  })();
+}
+
+/**
+ * Keep the leases of this instance's jobs alive, stop the ones cancelled through another instance
+ * and fail the jobs of instances that are gone.
+ * Returns how many expired jobs the first sweep failed.
+ */
+export async function startLeaseKeeper() {
+  const timer = setInterval(async () => {
+    try {
+      const running = [...liveJobs.keys()];
+      const active = new Set(await jobsDb.touchJobs(running));
+      for (const jobId of running) {
+        if (!active.has(jobId)) cancelJob(jobId);
+      }
+      const expired = await jobsDb.failExpiredJobs(JOB_LEASE_SECONDS);
+      if (expired > 0) console.log(`⚠️  Marked ${expired} interrupted generation job(s) as failed`);
+    } catch (error) {
+      console.warn('Job lease renewal failed:', error?.message || error);
+    }
+  }, JOB_HEARTBEAT_MS);
+  timer.unref();
+
+  return jobsDb.failExpiredJobs(JOB_LEASE_SECONDS);
+}
+
+/**
+ * Subscribe to a running job. The listener first receives the text generated so far.
+ * Returns an unsubscribe function, or null when the job isn't running in this process.
+ */
+export function subscribe(jobId, listener) {
+  const live = liveJobs.get(jobId);
+  if (!live) return null;
+
+  if (live.text) listener('chunk', { text: live.text });
+  live.listeners.add(listener);
+  return () => live.listeners.delete(listener);
+}
+
+/**
+ * Abort a running job. Returns false if it isn't running in this process.
+ */
+export function cancelJob(jobId) {
+  const live = liveJobs.get(jobId);
+  if (!live) return false;
+  live.controller.abort();
+  return true;
+}
@@ -0,0 +1,458 @@
+/**
+ * LLM Provider Abstraction Layer
+ * Generation routes talk to a provider instead of a specific SDK:
+ * - gemini: Google Gemini via @google/genai
+ * - mock: deterministic fixture HTML per generation mode (offline development / testing)
+ *
+ * Configuration (environment):
+ *   LLM_PROVIDER            default provider ('gemini' | 'mock')
+ *   LLM_MODEL               default model for that provider
+ *   LLM_PROVIDER_<MODE>     per-mode override, e.g. LLM_PROVIDER_VIDEO=mock
+ *   LLM_MODEL_<MODE>        per-mode model override, e.g. LLM_MODEL_LOGO=gemini-2.5-flash
+ *   LLM_FALLBACK_MODEL      secondary model used when the primary one stays overloaded
+ *   LLM_FALLBACK_MODEL_<MODE>  per-mode fallback model override
+ *   LLM_RETRY_ATTEMPTS      retries per model on overload / quota errors (default 2)
+ *   LLM_RETRY_BASE_MS       base delay of the jittered exponential backoff (default 1000)
+ *   MOCK_LLM_DELAY_MS       delay between mock stream chunks (default 30)
+ *
+ * The provider defaults to Gemini, which needs GEMINI_API_KEY; the mock provider only runs when
+ * it's asked for. checkProviders fails startup when a mode's provider can't run.
+ */
+import { GoogleGenAI } from '@google/genai';
+import { GenerationError, GENERATION_ERRORS, getSafetyBlockReason } from './generation-errors.js';
+import { isQuotaError } from './generation.js';
+
+/**
+ * LLM Provider Types
+ */
+const LLM_PROVIDERS = {
+  GEMINI: 'gemini',
+  MOCK: 'mock',
+};
+
+const DEFAULT_MODELS = {
+  [LLM_PROVIDERS.GEMINI]: 'gemini-3-pro-preview',
+  [LLM_PROVIDERS.MOCK]: 'mock-fixtures',
+};
+
+/**
+ * Every provider implements:
+ *   generateContent({ model, contents, systemInstruction, signal }) -> Promise<{ text, tokens? }>
+ *   generateContentStream({ model, contents, systemInstruction, signal }) -> Promise<AsyncIterable<{ text, tokens? }>>
+ * `contents` uses the Gemini format ([{ role, parts: [{ text } | { inlineData }] }]).
+ * `tokens` is the token usage ({ input, output, total }) when the provider reports it; streams
+ * report it on their last chunks.
+ * Content filtered by the provider is reported as a GenerationError of type `safety_block`.
+ */
+
+// Token usage from Gemini usage metadata
+function toTokenUsage(usage) {
+  if (!usage) return undefined;
+  return {
+    input: usage.promptTokenCount ?? 0,
+    output: usage.candidatesTokenCount ?? 0,
+    total: usage.totalTokenCount ?? 0,
+  };
+}
+
+/**
+ * Gemini provider
+ */
+function createGeminiProvider(apiKey) {
+  const ai = new GoogleGenAI({ apiKey });
+  const toRequest = ({ model, contents, systemInstruction, signal }) => ({
+    model,
+    contents,
+    config: { systemInstruction, abortSignal: signal },
+  });
+
+  const checkSafety = (response) => {
+    const reason = getSafetyBlockReason(response);
+    if (reason) throw new GenerationError(GENERATION_ERRORS.SAFETY_BLOCK, undefined, { reason });
+  };
+
+  return {
+    name: LLM_PROVIDERS.GEMINI,
+    generateContent: async (request) => {
+      const response = await ai.models.generateContent(toRequest(request));
+      checkSafety(response);
+      return { text: response.text, tokens: toTokenUsage(response.usageMetadata) };
+    },
+    generateContentStream: async (request) => {
+      const stream = await ai.models.generateContentStream(toRequest(request));
+      return (async function* () {
+        for await (const chunk of stream) {
+          checkSafety(chunk);
+          yield { text: chunk.text, tokens: toTokenUsage(chunk.usageMetadata) };
+        }
+      })();
+    },
+  };
+}
+
+/**
+ * Mock provider: canned HTML per mode, streamed in fixed-size chunks
+ */
+const MOCK_FIXTURES = {
+  web: {
+    title: 'Mock Landing Page',
+    css: `header { display: flex; justify-content: space-between; align-items: center; padding: 24px; border-bottom: 1px solid #27272a; }
+      header span { font-weight: 700; font-size: 20px; }
+      nav a { margin-left: 16px; font-size: 14px; color: #a1a1aa; }
+      main { max-width: 768px; margin: 0 auto; padding: 40px; text-align: center; }
+      h1 { font-size: 36px; margin: 0 0 16px; }
+      p { color: #a1a1aa; }
+      button { padding: 12px 24px; border: 0; border-radius: 8px; background: #f97316; color: inherit; font: inherit; font-weight: 600; }`,
+    body: `<header>
+      <span>Acme</span>
+      <nav><a href="#features">Features</a><a href="#pricing">Pricing</a></nav>
+    </header>
+    <main>
+      <h1>Build faster with Acme</h1>
+      <p>This page was returned by the mock provider.</p>
+      <button id="cta">Get started</button>
+      <p id="clicks"></p>
+    </main>
+    <script>
+      let clicks = 0;
+      document.getElementById('cta').addEventListener('click', () => {
+        document.getElementById('clicks').textContent = 'Clicked ' + (++clicks) + ' time(s)';
+      });
+    </script>`,
+  },
+  mobile: {
+    title: 'Mock Mobile App',
+    css: `.phone { display: flex; flex-direction: column; width: 390px; height: 844px; margin: 24px auto; border: 8px solid #27272a; border-radius: 40px; overflow: hidden; }
+      .title { padding: 20px; font-weight: 600; font-size: 18px; }
+      ul { flex: 1; margin: 0; padding: 0; list-style: none; }
+      li { padding: 20px; border-bottom: 1px solid #27272a; }
+      nav { display: grid; grid-template-columns: repeat(3, 1fr); padding: 16px; border-top: 1px solid #27272a; text-align: center; font-size: 12px; color: #a1a1aa; }`,
+    body: `<div class="phone">
+      <div class="title">Inbox</div>
+      <ul>
+        <li>Welcome to the mock provider</li>
+        <li>Your fixture is ready</li>
+        <li>No API key needed</li>
+      </ul>
+      <nav><span>Home</span><span>Search</span><span>Profile</span></nav>
+    </div>`,
+  },
+  social: {
+    title: 'Mock Social Promo',
+    css: `.promo { display: flex; align-items: center; justify-content: center; width: 360px; aspect-ratio: 9 / 16; margin: 24px auto; border-radius: 16px; background: linear-gradient(#f97316, #db2777); overflow: hidden; }
+      h1 { font-size: 36px; font-weight: 900; text-align: center; animation: pulse 2s ease-in-out infinite; }
+      @keyframes pulse { 50% { opacity: 0.5; } }`,
+    body: `<div class="promo">
+      <h1>Mock<br>Promo</h1>
+    </div>`,
+  },
+  logo: {
+    title: 'Mock Brand Sheet',
+    css: `main { max-width: 672px; margin: 0 auto; padding: 40px; }
+      .swatches { display: flex; gap: 12px; margin: 32px 0; }
+      .swatches div { width: 64px; height: 64px; border-radius: 4px; border: 1px solid #3f3f46; }
+      p { font-size: 24px; font-weight: 700; }`,
+    body: `<main>
+      <svg viewBox="0 0 120 120" width="120" height="120"><circle cx="60" cy="60" r="50" fill="#f97316"/><text x="60" y="72" text-anchor="middle" font-size="36" font-weight="700" fill="#09090b">M</text></svg>
+      <div class="swatches">
+        <div style="background:#f97316"></div>
+        <div style="background:#09090b"></div>
+        <div style="background:#fafafa"></div>
+      </div>
+      <p>Mock Sans — Aa Bb Cc</p>
+    </main>`,
+  },
+  video: {
+    title: 'Mock Video Scene',
+    css: `#scene { display: flex; align-items: center; justify-content: center; height: 100vh; font-size: 48px; font-weight: 700; }`,
+    body: `<div id="scene"></div>
+    <script>
+      const captions = ['Scene one', 'Scene two', 'Scene three'];
+      let i = 0;
+      const show = () => { document.getElementById('scene').textContent = captions[i++ % captions.length]; };
+      show();
+      setInterval(show, 2000);
+    </script>`,
+  },
+  slides: {
+    title: 'Mock Deck',
+    css: `.slide { display: flex; flex-direction: column; align-items: center; justify-content: center; }
+      h1 { font-size: 72px; font-weight: 900; margin: 0; }
+      h2 { font-size: 60px; margin: 0 0 40px; }
+      p { margin-top: 24px; font-size: 24px; color: #a1a1aa; }
+      ul { font-size: 30px; line-height: 1.6; color: #d4d4d8; }`,
+    body: `<section class="slide" style="background:#09090b">
+      <h1>Mock Deck</h1>
+      <p>Returned by the mock provider</p>
+      <aside class="notes">Welcome everyone. This deck is a fixture.</aside>
+    </section>
+    <section class="slide" style="background:#18181b">
+      <h2>Agenda</h2>
+      <ul><li>Problem</li><li>Solution</li><li>Next steps</li></ul>
+      <aside class="notes">Walk through the three parts briefly.</aside>
+    </section>
+    <section class="slide" style="background:#ea580c">
+      <h2>Thank you</h2>
+      <aside class="notes">Open the floor for questions.</aside>
+    </section>`,
+  },
+  email: {
+    title: 'Mock Newsletter',
+    // Email clients drop <style> blocks and scripts: everything is inline
+    css: '',
+    body: `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;">
+      <tr><td align="center" style="padding:24px 12px;">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="width:100%;max-width:600px;background:#ffffff;color:#18181b;font-family:Arial,Helvetica,sans-serif;">
+          <tr><td style="padding:24px;background:#f97316;color:#ffffff;font-size:24px;font-weight:bold;">Acme News</td></tr>
+          <tr><td style="padding:24px;font-size:16px;line-height:24px;">This newsletter was returned by the mock provider.</td></tr>
+          <tr><td style="padding:0 24px 24px;"><a href="https://example.com" style="display:inline-block;padding:12px 24px;background:#18181b;color:#ffffff;text-decoration:none;border-radius:4px;">Read more</a></td></tr>
+        </table>
+      </td></tr>
+    </table>`,
+  },
+  dashboard: {
+    title: 'Mock Dashboard',
+    css: `main { padding: 32px; }
+      h1 { font-size: 24px; margin: 0 0 24px; }
+      #summary { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; margin-bottom: 24px; }
+      .card { padding: 16px; border-radius: 4px; background: #18181b; }
+      #chart { display: block; width: 100%; max-width: 672px; border-radius: 4px; background: #18181b; }`,
+    body: `<main>
+      <h1>Mock Dashboard</h1>
+      <div id="summary"></div>
+      <svg id="chart" viewBox="0 0 400 120"></svg>
+    </main>
+    <script>
+      const datasets = window.FANTA_DATASETS || {};
+      const [name, rows] = Object.entries(datasets)[0] || ['Sample', [3, 7, 4, 9, 6].map((value, i) => ({ label: 'Item ' + (i + 1), value }))];
+      document.getElementById('summary').innerHTML =
+        '<div class="card">Dataset<br><b>' + name + '</b></div>' +
+        '<div class="card">Rows<br><b>' + rows.length + '</b></div>';
+      const values = rows.slice(0, 20).map((row) => Number(Object.values(row).find((v) => typeof v === 'number')) || 0);
+      const max = Math.max(1, ...values);
+      document.getElementById('chart').innerHTML = values
+        .map((v, i) => '<rect x="' + (i * 20 + 2) + '" y="' + (120 - (v / max) * 110) + '" width="16" height="' + (v / max) * 110 + '" fill="#f97316"/>')
+        .join('');
+    </script>`,
+  },
+};
+
+// Self-contained, like dashboards and emails have to be: no CDN styles, so fixtures also work offline
+function getMockHtml(mode) {
+  const fixture = MOCK_FIXTURES[mode] || MOCK_FIXTURES.web;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${fixture.title}</title>
+  <style>
+    body { margin: 0; background: #09090b; color: #f4f4f5; font-family: system-ui, sans-serif; }
+    ${fixture.css}
+  </style>
+</head>
+<body>
+    ${fixture.body}
+</body>
+</html>`;
+}
+
+const MOCK_CHUNK_SIZE = 200;
+
+function abortError() {
+  return Object.assign(new Error('Generation cancelled'), { name: 'AbortError' });
+}
+
+// A whole number of 0 or more from the environment, or the default when it's unset or invalid
+function envCount(name, fallback) {
+  const value = Number(process.env[name]);
+  return process.env[name]?.trim() && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+}
+
+function sleep(ms, signal) {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    }, { once: true });
+  });
+}
+
+function createMockProvider(mode) {
+  const delay = envCount('MOCK_LLM_DELAY_MS', 30);
+
+  return {
+    name: LLM_PROVIDERS.MOCK,
+    generateContent: async ({ signal }) => {
+      await sleep(delay, signal);
+      return { text: getMockHtml(mode) };
+    },
+    generateContentStream: async ({ signal }) => {
+      const html = getMockHtml(mode);
+      return (async function* () {
+        for (let i = 0; i < html.length; i += MOCK_CHUNK_SIZE) {
+          await sleep(delay, signal);
+          yield { text: html.slice(i, i + MOCK_CHUNK_SIZE) };
+        }
+      })();
+    },
+  };
+}
+
+/**
+ * Resolve provider and model names for a generation mode from the environment
+ */
+function getProviderConfig(mode) {
+  const key = String(mode || 'web').toUpperCase();
+  const provider = (process.env[`LLM_PROVIDER_${key}`] || process.env.LLM_PROVIDER || LLM_PROVIDERS.GEMINI)
+    .trim()
+    .toLowerCase();
+  const model = (process.env[`LLM_MODEL_${key}`] || process.env.LLM_MODEL || DEFAULT_MODELS[provider] || '').trim();
+  const fallbackModel = (process.env[`LLM_FALLBACK_MODEL_${key}`] || process.env.LLM_FALLBACK_MODEL || '').trim();
+
+  return { provider, model, fallbackModel: fallbackModel && fallbackModel !== model ? fallbackModel : null };
+}
+
+/**
+ * Retries and model fallback
+ * Overload / quota errors are retried with jittered exponential backoff, then the
+ * fallback model (if configured) gets the same number of attempts.
+ */
+const RETRY_ATTEMPTS = envCount('LLM_RETRY_ATTEMPTS', 2);
+const RETRY_BASE_MS = envCount('LLM_RETRY_BASE_MS', 1000);
+
+function isOverloadError(error) {
+  const message = String(error?.message || '');
+  return isQuotaError(error) ||
+    error?.status === 503 ||
+    message.includes('UNAVAILABLE') ||
+    message.toLowerCase().includes('overloaded');
+}
+
+// Exponential backoff with jitter: between 0.5x and 1.5x of base * 2^attempt
+function backoffDelay(attempt) {
+  return Math.round(RETRY_BASE_MS * 2 ** attempt * (0.5 + Math.random()));
+}
+
+/**
+ * Run `call(model)` for each model in turn until one succeeds.
+ * Resolves to { value, model, fallback, retries } (retries = extra attempts made).
+ */
+async function withRetries(models, call, signal) {
+  let attempts = 0;
+  let lastError;
+
+  for (const [index, model] of models.entries()) {
+    if (index > 0) console.warn(`⚠️  ${models[index - 1]} overloaded, falling back to ${model}`);
+
+    for (let attempt = 0; attempt <= RETRY_ATTEMPTS; attempt++) {
+      try {
+        attempts++;
+        const value = await call(model);
+        return { value, model, fallback: index > 0, retries: attempts - 1 };
+      } catch (error) {
+        if (!isOverloadError(error) || signal?.aborted) throw error;
+        lastError = error;
+        if (attempt < RETRY_ATTEMPTS) await sleep(backoffDelay(attempt), signal);
+      }
+    }
+  }
+  throw lastError;
+}
+
+let geminiProvider = null;
+
+/**
+ * Get the provider for a generation mode, with the configured model bound to each call.
+ * Results carry the model that actually answered: { text, tokens, model, fallback, retries }
+ * for generateContent, and the same fields on the iterable from generateContentStream
+ * (`tokens` is set once the stream has been read).
+ * Returns null when generation isn't configured for that mode.
+ */
+function getGenerationProvider(mode) {
+  const { provider, model, fallbackModel } = getProviderConfig(mode);
+
+  let implementation = null;
+  if (provider === LLM_PROVIDERS.GEMINI) {
+    if (!process.env.GEMINI_API_KEY) return null;
+    geminiProvider = geminiProvider || createGeminiProvider(process.env.GEMINI_API_KEY);
+    implementation = geminiProvider;
+  } else if (provider === LLM_PROVIDERS.MOCK) {
+    implementation = createMockProvider(mode);
+  } else {
+    return null;
+  }
+
+  const models = fallbackModel ? [model, fallbackModel] : [model];
+
+  return {
+    name: implementation.name,
+    model,
+    fallbackModel,
+    generateContent: async (request) => {
+      const { value, ...attempts } = await withRetries(
+        models,
+        (candidate) => implementation.generateContent({ ...request, model: candidate }),
+        request.signal,
+      );
+      return { ...value, ...attempts };
+    },
+    // Retried until the first chunk arrives; a failure after that ends the stream
+    generateContentStream: async (request) => {
+      const { value, ...attempts } = await withRetries(
+        models,
+        async (candidate) => {
+          const stream = await implementation.generateContentStream({ ...request, model: candidate });
+          const iterator = stream[Symbol.asyncIterator]();
+          return { iterator, first: await iterator.next() };
+        },
+        request.signal,
+      );
+      const { iterator, first } = value;
+      const chunks = Object.assign((async function* () {
+        for (let next = first; !next.done; next = await iterator.next()) {
+          if (next.value.tokens) chunks.tokens = next.value.tokens;
+          yield next.value;
+        }
+      })(), attempts);
+      return chunks;
+    },
+  };
+}
+
+/**
+ * Throw when a mode's provider can't run (unknown provider, Gemini without GEMINI_API_KEY), so
+ * a misconfigured server fails at startup instead of serving mock output or failing each request
+ */
+function checkProviders(modes) {
+  const problems = modes.flatMap((mode) => {
+    const { provider } = getProviderConfig(mode);
+    if (!Object.values(LLM_PROVIDERS).includes(provider)) return [`${mode}: unknown provider '${provider}'`];
+    if (provider === LLM_PROVIDERS.GEMINI && !process.env.GEMINI_API_KEY) {
+      return [`${mode}: GEMINI_API_KEY is not set (use LLM_PROVIDER=mock for fixture output)`];
+    }
+    return [];
+  });
+  if (problems.length > 0) throw new Error(`Generation is misconfigured:\n  ${problems.join('\n  ')}`);
+}
+
+/**
+ * Describe the provider/model per mode (for startup logs)
+ */
+function describeProviders(modes) {
+  return modes.map((mode) => {
+    const { provider, model, fallbackModel } = getProviderConfig(mode);
+    const available = Boolean(getGenerationProvider(mode));
+    const models = fallbackModel ? `${model}, fallback ${fallbackModel}` : model;
+    return `${mode}: ${available ? `${provider} (${models})` : 'disabled'}`;
+  });
+}
+
+export {
+  LLM_PROVIDERS,
+  getGenerationProvider,
+  checkProviders,
+  describeProviders,
+};
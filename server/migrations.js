@@ -3,6 +3,10 @@
  * Ensures required tables exist before the application starts
  */
 import pool from './db.js';
+import { GENERATION_MODES } from './generation.js';
+
+// SQL list of the generation modes, for the creations.mode CHECK constraint
+const MODE_LIST = GENERATION_MODES.map((mode) => `'${mode}'`).join(', ');
 
 /**
  * Enable required PostgreSQL extensions
@@ -77,8 +81,9 @@ async function createCreationsTable() {
       name TEXT NOT NULL,
       html TEXT NOT NULL,
       original_image TEXT,
-      mode TEXT NOT NULL DEFAULT 'web' CHECK (mode IN ('web', 'mobile', 'social', 'logo', 'video')),
+      mode TEXT NOT NULL DEFAULT 'web' CHECK (mode IN (${MODE_LIST})),
       purchased BOOLEAN NOT NULL DEFAULT false,
+      provenance JSONB,
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
       updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     );
@@ -160,6 +165,234 @@ async function createPaymentSessionsTable() {
   console.log('✅ Payment sessions table ensured');
 }
 
+/**
+ * Create generation_jobs table if it doesn't exist
+ * Jobs outlive the HTTP request so clients can re-attach after a reload
+ */
+async function createGenerationJobsTable() {
+  const uuidFunc = await getUuidFunction();
+  
+  const query = `
+    CREATE TABLE IF NOT EXISTS generation_jobs (
+      id UUID PRIMARY KEY DEFAULT ${uuidFunc},
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+      mode TEXT NOT NULL DEFAULT 'web',
+      prompt TEXT NOT NULL DEFAULT '',
+      metadata JSONB,
+      html TEXT,
+      error JSONB,
+      delivered_at TIMESTAMPTZ,
+      completed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `;
+  
+  await pool.query(query);
+  console.log('✅ Generation jobs table ensured');
+}
+
+/**
+ * Create brand_kits table
+ */
+async function createBrandKitsTable() {
+  const uuidFunc = await getUuidFunction();
+  
+  const query = `
+    CREATE TABLE IF NOT EXISTS brand_kits (
+      id UUID PRIMARY KEY DEFAULT ${uuidFunc},
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      palette JSONB NOT NULL DEFAULT '[]',
+      fonts JSONB NOT NULL DEFAULT '{}',
+      logo TEXT,
+      voice_notes TEXT NOT NULL DEFAULT '',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `;
+  
+  await pool.query(query);
+  console.log('✅ Brand kits table ensured');
+}
+
+/**
+ * Create prompt_templates table
+ */
+async function createPromptTemplatesTable() {
+  const uuidFunc = await getUuidFunction();
+  
+  const query = `
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      id UUID PRIMARY KEY DEFAULT ${uuidFunc},
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      mode TEXT NOT NULL DEFAULT 'web',
+      name TEXT NOT NULL,
+      body TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `;
+  
+  await pool.query(query);
+  console.log('✅ Prompt templates table ensured');
+}
+
+/**
+ * Create model_usage table
+ * One row per successful model call: which model answered and whether it needed
+ * retries or the fallback model (admin stats)
+ */
+async function createModelUsageTable() {
+  const uuidFunc = await getUuidFunction();
+  
+  const query = `
+    CREATE TABLE IF NOT EXISTS model_usage (
+      id UUID PRIMARY KEY DEFAULT ${uuidFunc},
+      user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      mode TEXT NOT NULL DEFAULT 'web',
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      fallback BOOLEAN NOT NULL DEFAULT false,
+      retries INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `;
+  
+  await pool.query(query);
+  console.log('✅ Model usage table ensured');
+}
+
+/**
+ * Create generation_cache table
+ * Results of identical generation requests, reused within the cache window
+ */
+async function createGenerationCacheTable() {
+  const uuidFunc = await getUuidFunction();
+  
+  const query = `
+    CREATE TABLE IF NOT EXISTS generation_cache (
+      id UUID PRIMARY KEY DEFAULT ${uuidFunc},
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      cache_key TEXT NOT NULL,
+      mode TEXT NOT NULL DEFAULT 'web',
+      model TEXT,
+      html TEXT NOT NULL,
+      warnings JSONB NOT NULL DEFAULT '[]',
+      provenance JSONB,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (user_id, cache_key)
+    );
+  `;
+  
+  await pool.query(query);
+  console.log('✅ Generation cache table ensured');
+}
+
+/**
+ * Create creation_revisions table
+ * Every version of a creation's HTML: the original generation, regenerations, refinements,
+ * element edits, repairs and restores (numbered per creation)
+ */
+async function createCreationRevisionsTable() {
+  const uuidFunc = await getUuidFunction();
+  
+  const query = `
+    CREATE TABLE IF NOT EXISTS creation_revisions (
+      id UUID PRIMARY KEY DEFAULT ${uuidFunc},
+      creation_id UUID NOT NULL REFERENCES creations(id) ON DELETE CASCADE,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      revision INTEGER NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'generation',
+      instruction TEXT,
+      model TEXT,
+      html TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (creation_id, revision)
+    );
+  `;
+  
+  await pool.query(query);
+  console.log('✅ Creation revisions table ensured');
+}
+
+/**
+ * Create creation_folders table
+ * User-defined folders for organising the archive (a creation is in at most one)
+ */
+async function createCreationFoldersTable() {
+  const uuidFunc = await getUuidFunction();
+  
+  const query = `
+    CREATE TABLE IF NOT EXISTS creation_folders (
+      id UUID PRIMARY KEY DEFAULT ${uuidFunc},
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (user_id, name)
+    );
+  `;
+  
+  await pool.query(query);
+  console.log('✅ Creation folders table ensured');
+}
+
+// Full-text search document of a creation: its name, prompt and the text content of its HTML
+// (scripts, styles and tags removed; capped so huge pages stay within tsvector limits)
+const CREATION_SEARCH_VECTOR = `
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(provenance->>'prompt', '')), 'B') ||
+  setweight(to_tsvector('simple', left(
+    regexp_replace(
+      regexp_replace(html, '<(script|style)[^>]*?>.*?</(script|style)>', ' ', 'gi'),
+      '<[^>]*>', ' ', 'g'
+    ),
+    100000
+  )), 'C')
+`;
+// MIME type of the source image data URL, kept in its own column so listings don't read the image
+const ORIGINAL_IMAGE_TYPE = `NULLIF(split_part(split_part(left(original_image, 100), ';', 1), ':', 2), '')`;
+
+/**
+ * Add tags, folder, the full-text search vector and the source image type to creations
+ * (migration for existing tables)
+ */
+async function ensureArchiveColumns() {
+  try {
+    await pool.query(`
+      ALTER TABLE creations ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+      ALTER TABLE creations ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES creation_folders(id) ON DELETE SET NULL;
+      ALTER TABLE creations ADD COLUMN IF NOT EXISTS search_vector tsvector
+        GENERATED ALWAYS AS (${CREATION_SEARCH_VECTOR}) STORED;
+      ALTER TABLE creations ADD COLUMN IF NOT EXISTS original_image_type TEXT
+        GENERATED ALWAYS AS (${ORIGINAL_IMAGE_TYPE}) STORED;
+    `);
+  } catch (error) {
+    console.warn(`⚠️  Could not add archive columns: ${error.message}`);
+  }
+}
+
+/**
+ * Give creations saved before revisions were tracked their current HTML as revision 1
+ */
+async function backfillCreationRevisions() {
+  try {
+    const result = await pool.query(`
+      INSERT INTO creation_revisions (creation_id, user_id, revision, kind, html, created_at)
+      SELECT c.id, c.user_id, 1, 'generation', c.html, c.updated_at
+      FROM creations c
+      WHERE NOT EXISTS (SELECT 1 FROM creation_revisions r WHERE r.creation_id = c.id)
+    `);
+    if (result.rowCount > 0) {
+      console.log(`✅ Backfilled revisions for ${result.rowCount} creation(s)`);
+    }
+  } catch (error) {
+    console.warn(`⚠️  Could not backfill creation revisions: ${error.message}`);
+  }
+}
+
 /**
  * Ensure users table has plan and credits columns (migration for existing tables)
  */
@@ -199,6 +432,48 @@ async function ensureUsersTableColumns() {
   }
 }
 
+/**
+ * Keep the creations.mode CHECK constraint in line with GENERATION_MODES (migration for existing tables)
+ */
+async function ensureCreationModes() {
+  try {
+    await pool.query(`
+      ALTER TABLE creations DROP CONSTRAINT IF EXISTS creations_mode_check;
+      ALTER TABLE creations ADD CONSTRAINT creations_mode_check CHECK (mode IN (${MODE_LIST}));
+    `);
+  } catch (error) {
+    console.warn(`⚠️  Could not update creations mode constraint: ${error.message}`);
+  }
+}
+
+/**
+ * Add the provenance columns to creations and generation_cache (migration for existing tables)
+ */
+async function ensureProvenanceColumns() {
+  try {
+    await pool.query(`
+      ALTER TABLE creations ADD COLUMN IF NOT EXISTS provenance JSONB;
+      ALTER TABLE generation_cache ADD COLUMN IF NOT EXISTS provenance JSONB;
+    `);
+  } catch (error) {
+    console.warn(`⚠️  Could not add provenance columns: ${error.message}`);
+  }
+}
+
+/**
+ * Add the owning instance and lease heartbeat to generation_jobs (migration for existing tables)
+ */
+async function ensureJobLeaseColumns() {
+  try {
+    await pool.query(`
+      ALTER TABLE generation_jobs ADD COLUMN IF NOT EXISTS instance_id TEXT;
+      ALTER TABLE generation_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+    `);
+  } catch (error) {
+    console.warn(`⚠️  Could not add generation job lease columns: ${error.message}`);
+  }
+}
+
 /**
  * Create indexes if they don't exist
  */
@@ -215,6 +490,18 @@ async function createIndexes() {
     'CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id)',
     'CREATE INDEX IF NOT EXISTS idx_payments_provider_session_id ON payments(provider_session_id)',
     'CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status)',
+    'CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_id ON generation_jobs(user_id)',
+    'CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON generation_jobs(status)',
+    'CREATE INDEX IF NOT EXISTS idx_generation_jobs_created_at ON generation_jobs(created_at DESC)',
+    'CREATE INDEX IF NOT EXISTS idx_brand_kits_user_id ON brand_kits(user_id)',
+    'CREATE INDEX IF NOT EXISTS idx_prompt_templates_user_mode ON prompt_templates(user_id, mode)',
+    'CREATE INDEX IF NOT EXISTS idx_model_usage_created_at ON model_usage(created_at DESC)',
+    'CREATE INDEX IF NOT EXISTS idx_generation_cache_created_at ON generation_cache(created_at)',
+    'CREATE INDEX IF NOT EXISTS idx_creation_revisions_creation_id ON creation_revisions(creation_id, revision DESC)',
+    'CREATE INDEX IF NOT EXISTS idx_creation_folders_user_id ON creation_folders(user_id)',
+    'CREATE INDEX IF NOT EXISTS idx_creations_folder_id ON creations(folder_id)',
+    'CREATE INDEX IF NOT EXISTS idx_creations_tags ON creations USING GIN (tags)',
+    'CREATE INDEX IF NOT EXISTS idx_creations_search ON creations USING GIN (search_vector)',
   ];
   
   // Only create indexes on plan and credits if columns exist
@@ -304,6 +591,50 @@ async function createTriggers() {
   
   await pool.query(paymentsTrigger);
   
+  // Trigger for generation_jobs table
+  const generationJobsTrigger = `
+    DROP TRIGGER IF EXISTS update_generation_jobs_updated_at ON generation_jobs;
+    CREATE TRIGGER update_generation_jobs_updated_at
+      BEFORE UPDATE ON generation_jobs
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  `;
+  
+  await pool.query(generationJobsTrigger);
+  
+  // Trigger for brand_kits table
+  const brandKitsTrigger = `
+    DROP TRIGGER IF EXISTS update_brand_kits_updated_at ON brand_kits;
+    CREATE TRIGGER update_brand_kits_updated_at
+      BEFORE UPDATE ON brand_kits
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  `;
+  
+  await pool.query(brandKitsTrigger);
+  
+  // Trigger for prompt_templates table
+  const promptTemplatesTrigger = `
+    DROP TRIGGER IF EXISTS update_prompt_templates_updated_at ON prompt_templates;
+    CREATE TRIGGER update_prompt_templates_updated_at
+      BEFORE UPDATE ON prompt_templates
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  `;
+  
+  await pool.query(promptTemplatesTrigger);
+  
+  // Trigger for creation_folders table
+  const creationFoldersTrigger = `
+    DROP TRIGGER IF EXISTS update_creation_folders_updated_at ON creation_folders;
+    CREATE TRIGGER update_creation_folders_updated_at
+      BEFORE UPDATE ON creation_folders
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  `;
+  
+  await pool.query(creationFoldersTrigger);
+  
   console.log('✅ Triggers and functions ensured');
 }
 
@@ -325,9 +656,21 @@ export async function ensureSchema() {
     // Create tables in order (respecting foreign key dependencies)
     await createUsersTable();
     await createCreationsTable();
+    await ensureCreationModes();
     await createCreditTransactionsTable();
     await createPaymentsTable();
     await createPaymentSessionsTable();
+    await createGenerationJobsTable();
+    await createBrandKitsTable();
+    await createPromptTemplatesTable();
+    await createModelUsageTable();
+    await createGenerationCacheTable();
+    await ensureProvenanceColumns();
+    await ensureJobLeaseColumns();
+    await createCreationRevisionsTable();
+    await backfillCreationRevisions();
+    await createCreationFoldersTable();
+    await ensureArchiveColumns();
     
     // Create indexes
     await createIndexes();
@@ -0,0 +1,59 @@
+/**
+ * Model usage database operations (which model answered each generation)
+ */
+import pool from './db.js';
+
+/**
+ * Record a successful model call
+ */
+export async function recordModelUsage({ userId, mode, provider, model, fallback = false, retries = 0 }) {
+  await pool.query(
+    `INSERT INTO model_usage (user_id, mode, provider, model, fallback, retries)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [userId || null, mode, provider, model, Boolean(fallback), retries]
+  );
+}
+
+/**
+ * Model call totals over the last `days` days: overall fallback rate and a per-model breakdown
+ */
+export async function getModelUsageStats(days = 7) {
+  const [totals, models] = await Promise.all([
+    pool.query(
+      `SELECT
+        COUNT(*) AS total_calls,
+        COUNT(*) FILTER (WHERE fallback) AS fallback_calls,
+        COUNT(*) FILTER (WHERE retries > 0) AS retried_calls,
+        COALESCE(SUM(retries), 0) AS total_retries
+       FROM model_usage
+       WHERE created_at > NOW() - make_interval(days => $1)`,
+      [days]
+    ),
+    pool.query(
+      `SELECT provider, model, COUNT(*) AS calls, COUNT(*) FILTER (WHERE fallback) AS fallback_calls
+       FROM model_usage
+       WHERE created_at > NOW() - make_interval(days => $1)
+       GROUP BY provider, model
+       ORDER BY calls DESC`,
+      [days]
+    ),
+  ]);
+
+  const row = totals.rows[0];
+  const totalCalls = parseInt(row.total_calls, 10);
+  const fallbackCalls = parseInt(row.fallback_calls, 10);
+  return {
+    days,
+    totalCalls,
+    fallbackCalls,
+    fallbackRate: totalCalls > 0 ? fallbackCalls / totalCalls : 0,
+    retriedCalls: parseInt(row.retried_calls, 10),
+    totalRetries: parseInt(row.total_retries, 10),
+    models: models.rows.map((model) => ({
+      provider: model.provider,
+      model: model.model,
+      calls: parseInt(model.calls, 10),
+      fallbackCalls: parseInt(model.fallback_calls, 10),
+    })),
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Curated prompt templates
+ * Shown to every user next to their own saved templates (templates-db.js).
+ * `{placeholder}` fields are filled in by the client before submitting.
+ */
+
+export const MAX_TEMPLATE_LENGTH = 4000;
+
+export const CURATED_TEMPLATES = [
+  {
+    id: 'curated-web-landing',
+    mode: 'web',
+    name: 'Product landing page',
+    body: 'A landing page for {product}, aimed at {audience}. Include a hero with a clear call to action, a features section, testimonials, pricing and an FAQ.',
+  },
+  {
+    id: 'curated-web-dashboard',
+    mode: 'web',
+    name: 'Admin dashboard',
+    body: 'An admin dashboard for {business} with a sidebar, KPI cards for {metrics}, a sortable table of recent {records} and working filters.',
+  },
+  {
+    id: 'curated-web-portfolio',
+    mode: 'web',
+    name: 'Portfolio',
+    body: 'A personal portfolio for {name}, a {profession}. Include an about section, a filterable project gallery and a contact form.',
+  },
+  {
+    id: 'curated-mobile-onboarding',
+    mode: 'mobile',
+    name: 'Onboarding flow',
+    body: 'A three-step onboarding flow for {app}, a mobile app that helps users {goal}, ending on a sign-up screen.',
+  },
+  {
+    id: 'curated-mobile-shop',
+    mode: 'mobile',
+    name: 'Shopping app',
+    body: 'A shopping app for {store} with a product list, product detail screen with size options, and a working cart with a {currency} total.',
+  },
+  {
+    id: 'curated-social-launch',
+    mode: 'social',
+    name: 'Product launch teaser',
+    body: 'A 15-second launch teaser for {product} with the tagline "{tagline}", ending on the launch date {date}.',
+  },
+  {
+    id: 'curated-social-sale',
+    mode: 'social',
+    name: 'Sale announcement',
+    body: 'An energetic promo for a {discount} sale at {store}, highlighting {items}, with a countdown-style ending.',
+  },
+  {
+    id: 'curated-logo-brand',
+    mode: 'logo',
+    name: 'Brand identity',
+    body: 'A logo for {brand}, a {industry} business. The brand feels {personality}.',
+  },
+  {
+    id: 'curated-logo-monogram',
+    mode: 'logo',
+    name: 'Monogram',
+    body: 'A monogram logo using the initials {initials} for {brand}, in a {style} style.',
+  },
+  {
+    id: 'curated-video-explainer',
+    mode: 'video',
+    name: 'Explainer',
+    body: 'A short explainer for {product} in {scenes} scenes: the problem {problem}, the solution, and a closing call to action.',
+  },
+  {
+    id: 'curated-video-story',
+    mode: 'video',
+    name: 'Animated story',
+    body: 'An animated story about {character} who {plot}, told in captions over simple animated scenes.',
+  },
+  {
+    id: 'curated-slides-pitch',
+    mode: 'slides',
+    name: 'Pitch deck',
+    body: 'A {slides}-slide pitch deck for {company}, which {pitch}. Cover the problem, solution, market, business model, traction, team and the ask of {ask}.',
+  },
+  {
+    id: 'curated-slides-update',
+    mode: 'slides',
+    name: 'Team update',
+    body: 'A short update deck for {team} on {project}: progress since {period}, key metrics, risks and next steps.',
+  },
+  {
+    id: 'curated-email-newsletter',
+    mode: 'email',
+    name: 'Newsletter',
+    body: 'A {frequency} newsletter for {brand} with a header, a featured story about {topic}, {count} short news items and a footer with an unsubscribe link.',
+  },
+  {
+    id: 'curated-email-receipt',
+    mode: 'email',
+    name: 'Order confirmation',
+    body: 'An order confirmation email for {store} with the order number, a table of items with prices in {currency}, shipping address and a track-order button.',
+  },
+  {
+    id: 'curated-dashboard-sales',
+    mode: 'dashboard',
+    name: 'Sales dashboard',
+    body: 'A sales dashboard for {business}: revenue over time, top {dimension} by revenue, and filters by date range and {dimension}.',
+  },
+  {
+    id: 'curated-dashboard-explore',
+    mode: 'dashboard',
+    name: 'Explore the data',
+    body: 'Explore this data for {audience}: highlight the most interesting trends and outliers, with a chart for each finding.',
+  },
+];
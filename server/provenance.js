@@ -0,0 +1,47 @@
+/**
+ * Provenance signatures
+ * Generation results carry their provenance (see buildProvenance in server.js) to the client, which
+ * sends it back when the result is saved as a creation. The server signs each provenance it builds,
+ * so a saved creation only keeps a provenance this server produced, unchanged.
+ *
+ * Configuration (environment):
+ *   PROVENANCE_SECRET   signing key (defaults to JWT_SECRET)
+ */
+import crypto from 'crypto';
+
+function getSecret() {
+  return process.env.PROVENANCE_SECRET || process.env.JWT_SECRET || 'change-this-secret-in-production';
+}
+
+// JSON with sorted keys, so a provenance read back from JSONB (which reorders keys) has the same signature
+function canonicalJson(value) {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function sign(provenance) {
+  return crypto.createHmac('sha256', getSecret()).update(canonicalJson(provenance)).digest('base64url');
+}
+
+/**
+ * The provenance with its `signature`
+ */
+export function signProvenance(provenance) {
+  return { ...provenance, signature: sign(provenance) };
+}
+
+/**
+ * The provenance without its signature if it's one this server signed, otherwise null
+ */
+export function verifyProvenance(provenance) {
+  if (!provenance || typeof provenance !== 'object' || typeof provenance.signature !== 'string') return null;
+  const { signature, ...unsigned } = provenance;
+  const expected = Buffer.from(sign(unsigned));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) return null;
+  return unsigned;
+}
@@ -1,12 +1,11 @@
 /**
  * Fanta Build Backend Server
- * Handles payments, webhooks, and Gemini API calls
+ * Handles payments, webhooks, and AI generation calls
  */
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import Stripe from 'stripe';
-import { GoogleGenAI } from '@google/genai';
 import expressSession from 'express-session';
 import RedisStore from 'connect-redis';
 import { createClient as createRedisClient } from 'redis';
@@ -14,10 +13,49 @@ import { createClient as createRedisClient } from 'redis';
 import pool from './db.js';
 import * as auth from './auth.js';
 import * as creationsDb from './creations-db.js';
+import * as revisionsDb from './creation-revisions-db.js';
+import * as foldersDb from './creation-folders-db.js';
 import * as adminDb from './admin.js';
 import { PAYMENT_GATEWAYS, createPaymentSession, verifyPaymentCallback, getAvailableGateways } from './payment-gateways.js';
+import { getGenerationProvider, checkProviders, describeProviders } from './llm-providers.js';
+import { analyzeHtml, repairHtml, checkEmailHtml } from './html-validation.js';
 import * as credits from './credits.js';
 import * as migrations from './migrations.js';
+import * as jobsDb from './jobs-db.js';
+import * as jobs from './jobs.js';
+import * as brandKitsDb from './brand-kits-db.js';
+import * as templatesDb from './templates-db.js';
+import * as modelUsageDb from './model-usage-db.js';
+import * as generationCache from './generation-cache.js';
+import { signProvenance, verifyProvenance } from './provenance.js';
+import { CURATED_TEMPLATES, MAX_TEMPLATE_LENGTH } from './prompt-templates.js';
+import { addSlidesRuntime } from './slides.js';
+import { parseDatasets, embedDatasets, extractDatasets, restoreDatasets } from './datasets.js';
+import {
+  GENERATION_MODES,
+  MAX_FILES,
+  MIN_VARIANTS,
+  MAX_VARIANTS,
+  getSystemInstruction,
+  getVariantInstruction,
+  getRefineInstruction,
+  getFragmentInstruction,
+  buildContents,
+  buildRefineContents,
+  buildFragmentContents,
+  extractFragment,
+  decodeHtmlFiles,
+  insertBrandLogo,
+  extractInlineAssets,
+  restoreInlineAssets,
+} from './generation.js';
+import {
+  GenerationError,
+  GENERATION_ERRORS,
+  generationErrorResponse,
+  abortOnTimeout,
+  abortReason,
+} from './generation-errors.js';
 
 // Load environment variables from server directory
 import { fileURLToPath } from 'url';
@@ -138,7 +176,7 @@ app.use(expressSession({
 
 /**
  * -------------------------
- * Stripe + Gemini init
+ * Stripe + LLM provider init
  * -------------------------
  */
 let stripe = null;
@@ -148,12 +186,15 @@ if (process.env.STRIPE_SECRET_KEY) {
   console.warn('⚠️  STRIPE_SECRET_KEY not set. Payment features disabled.');
 }
 
-const GEMINI_MODEL = 'gemini-3-pro-preview';
-let ai = null;
-if (process.env.GEMINI_API_KEY) {
-  ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-} else {
-  console.warn('⚠️  GEMINI_API_KEY not set. Generation features disabled.');
+// LLM provider and model are resolved per generation mode (see llm-providers.js)
+try {
+  checkProviders(GENERATION_MODES);
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+for (const line of describeProviders(GENERATION_MODES)) {
+  console.log(`🤖 Generation ${line}`);
 }
 
 /**
@@ -164,19 +205,19 @@ if (process.env.GEMINI_API_KEY) {
 const requireAuth = async (req, res, next) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '') || req.session?.token;
-    if (!token) return res.status(401).json({ error: 'Authentication required' });
+    if (!token) return res.status(401).json({ error: 'Authentication required', type: GENERATION_ERRORS.AUTH_EXPIRED });
 
     const decoded = auth.verifyToken(token);
-    if (!decoded) return res.status(401).json({ error: 'Invalid or expired token' });
+    if (!decoded) return res.status(401).json({ error: 'Invalid or expired token', type: GENERATION_ERRORS.AUTH_EXPIRED });
 
     const user = await auth.getUserById(decoded.userId);
-    if (!user) return res.status(401).json({ error: 'User not found' });
+    if (!user) return res.status(401).json({ error: 'User not found', type: GENERATION_ERRORS.AUTH_EXPIRED });
 
     req.user = { ...decoded, role: user.role };
     next();
   } catch (e) {
     console.error('Auth middleware error:', e);
-    res.status(401).json({ error: 'Authentication failed' });
+    res.status(401).json({ error: 'Authentication failed', type: GENERATION_ERRORS.AUTH_EXPIRED });
   }
 };
 
@@ -344,6 +385,1418 @@ app.get('/api/auth/me', requireAuth, async (req, res) => {
   }
 });
 
+/**
+ * -------------------------
+ * Generation endpoints
+ * -------------------------
+ */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const FREE_DAILY_LIMIT = 3;
+const PRO_DAILY_LIMIT = 20;
+
+// Validate the generation payload shared by the one-shot and streaming routes
+// Accepts `files: [{ data, mimeType, label? }]` or the legacy single `fileBase64` + `mimeType`,
+// and `datasets: [{ name, label?, columns, rows }]` parsed from CSV / JSON uploads
+function parseGenerationRequest(body) {
+  const { prompt = '', fileBase64, mimeType, mode = 'web', brandKitId = null, template = null, regenerate = false } = body || {};
+  let { files = [] } = body || {};
+
+  if (typeof prompt !== 'string') {
+    return { error: 'prompt must be a string' };
+  }
+  if (!Array.isArray(files)) {
+    return { error: 'files must be an array' };
+  }
+  if (files.length === 0 && fileBase64) {
+    files = [{ data: fileBase64, mimeType }];
+  }
+  const { datasets, error: datasetsError } = parseDatasets(body?.datasets);
+  if (datasetsError) {
+    return { error: datasetsError };
+  }
+
+  if (!prompt.trim() && files.length === 0 && datasets.length === 0) {
+    return { error: 'A prompt or file is required' };
+  }
+  if (!GENERATION_MODES.includes(mode)) {
+    return { error: `Invalid mode: ${mode}` };
+  }
+  if (files.length + datasets.length > MAX_FILES) {
+    return { error: `Up to ${MAX_FILES} files are allowed` };
+  }
+  if (files.some((file) => !file?.data || !file?.mimeType)) {
+    return { error: 'Each file needs data and a mimeType' };
+  }
+  if (brandKitId !== null && !UUID_PATTERN.test(String(brandKitId))) {
+    return { error: 'Invalid brandKitId' };
+  }
+  if (template !== null && (typeof template?.id !== 'string' || !template.id)) {
+    return { error: 'template needs an id' };
+  }
+
+  // Uploaded HTML pages go to the model as text; their large images are restored in the result
+  const { files: decodedFiles, assets } = decodeHtmlFiles(
+    files.map(({ data, mimeType: type, label, name }) => ({
+      data,
+      mimeType: type,
+      label: typeof label === 'string' ? label.trim().slice(0, 100) : undefined,
+      name: typeof name === 'string' ? name.slice(0, 255) : undefined,
+    })),
+  );
+
+  return {
+    prompt,
+    files: decodedFiles,
+    assets,
+    datasets,
+    mode,
+    brandKitId,
+    // Prompt template the prompt was filled from (recorded in the provenance only)
+    template: template && {
+      id: template.id.slice(0, 100),
+      name: typeof template.name === 'string' ? template.name.slice(0, 100) : undefined,
+    },
+    regenerate: regenerate === true, // Skip the generation cache
+  };
+}
+
+// Load the request's brand kit into `request.brandKit`; responds 404 and returns false if it isn't the user's
+async function attachBrandKit(req, res, request) {
+  if (!request.brandKitId) return true;
+
+  const brandKit = await brandKitsDb.getBrandKit(request.brandKitId, req.user.userId);
+  if (!brandKit) {
+    res.status(404).json({ error: 'Brand kit not found' });
+    return false;
+  }
+  request.brandKit = toBrandKitResponse(brandKit);
+  return true;
+}
+
+// Check the user's daily generation limit (resets once per day)
+// `requested` is the number of generations about to run (variants count individually).
+// Jobs still pending or running count as used: usage is only recorded when a job completes.
+// `upToJob` only counts the active jobs created up to that one (for re-checking a new job).
+async function checkDailyLimit(userId, requested = 1, upToJob = null) {
+  await auth.resetDailyUsageIfNeeded(userId);
+  const [user, activeJobs] = await Promise.all([auth.getUserById(userId), jobsDb.countActiveJobs(userId, upToJob)]);
+  const isPro = user?.subscription_status === 'pro' || user?.plan === 'PRO';
+  const limit = isPro ? PRO_DAILY_LIMIT : FREE_DAILY_LIMIT;
+  const used = (user?.daily_usage_count || 0) + activeJobs;
+  const remaining = Math.max(0, limit - used);
+  return { exceeded: requested > remaining, isPro, remaining, overLimit: used > limit };
+}
+
+// Build a provider request (the provider binds the configured model)
+function providerRequest(
+  { prompt, files, datasets, mode, brandKit },
+  signal,
+  systemInstruction = getSystemInstruction(mode, brandKit),
+) {
+  return {
+    contents: buildContents(prompt, files, brandKit, datasets),
+    systemInstruction,
+    signal,
+  };
+}
+
+// Add what the mode's output relies on but the model doesn't write (the slide deck runtime)
+// and the mode's own checks (email client compatibility) to { html, warnings }
+function finishForMode({ html, warnings }, mode) {
+  if (!html) return { html, warnings };
+  if (mode === 'slides') return { html: addSlidesRuntime(html), warnings };
+  if (mode === 'email') return { html, warnings: [...warnings, ...checkEmailHtml(html)] };
+  return { html, warnings };
+}
+
+// Clean up model output, insert the brand logo (if the request used a brand kit), restore the
+// images of uploaded HTML pages, embed the request's datasets and finish it for its mode
+function finishHtml(text, { brandKit, assets = [], datasets, mode }) {
+  const { html, warnings } = analyzeHtml(text);
+  const withAssets = restoreInlineAssets(insertBrandLogo(html, brandKit), assets);
+  return finishForMode({ html: embedDatasets(withAssets, datasets), warnings }, mode);
+}
+
+// Look up an identical earlier request (unless the client asked to regenerate)
+// Sets `request.cacheKey` so the new result can be stored; returns the cached response body or null.
+// The body carries provenance for this request (its template, user and time), not the original's.
+async function checkGenerationCache(userId, request, llm) {
+  if (!generationCache.isCacheEnabled()) return null;
+  request.cacheKey = generationCache.getCacheKey(request, llm.model);
+  if (request.regenerate) return null;
+
+  const hit = await generationCache.lookup(userId, request.cacheKey);
+  if (!hit) return null;
+  const provenance = buildProvenance(request, llm, { model: hit.model }, Date.now(), {
+    userId,
+    cached: true,
+    cachedAt: new Date(hit.cachedAt).toISOString(),
+  });
+  return { ...hit, provenance };
+}
+
+// Remember a finished generation for identical requests
+function cacheGeneration(userId, request, { html, warnings, model, provenance }) {
+  if (request.cacheKey) generationCache.store(userId, request.cacheKey, { mode: request.mode, model, html, warnings, provenance });
+}
+
+// How a result was generated (returned with it and stored with the creation) so it can be
+// reproduced or audited: input, provider settings, the model that answered, duration and tokens.
+// Signed, so saving a creation only accepts provenance built here (see provenance.js).
+function buildProvenance(request, llm, result, startedAt, extra = {}) {
+  return signProvenance({
+    prompt: request.prompt,
+    mode: request.mode,
+    provider: llm.name,
+    model: result.model,
+    settings: {
+      model: llm.model,
+      fallbackModel: llm.fallbackModel || null,
+      usedFallback: Boolean(result.fallback),
+      retries: result.retries || 0,
+    },
+    durationMs: Date.now() - startedAt,
+    tokens: result.tokens || null,
+    brandKit: request.brandKit ? { id: request.brandKit.id, name: request.brandKit.name } : null,
+    template: request.template,
+    files: request.files.map(({ name, mimeType, label }) => ({ name, mimeType, label })),
+    datasets: request.datasets.map((dataset) => ({ name: dataset.name, rows: dataset.rows.length })),
+    generatedAt: new Date().toISOString(),
+    ...extra,
+  });
+}
+
+// Record which model answered (and whether it took retries / the fallback model) for admin stats
+function recordModelUsage(userId, mode, llm, result) {
+  modelUsageDb
+    .recordModelUsage({
+      userId,
+      mode,
+      provider: llm.name,
+      model: result.model,
+      fallback: result.fallback,
+      retries: result.retries,
+    })
+    .catch((error) => console.warn('Failed to record model usage:', error.message));
+}
+
+// In-flight generations keyed by `${userId}:${requestId}` so the client can cancel them
+const activeGenerations = new Map();
+
+// Create an AbortController for this request: aborted on explicit cancel, client disconnect or timeout
+function trackGeneration(req, res) {
+  const controller = new AbortController();
+  const { requestId } = req.body || {};
+  const key = requestId ? `${req.user.userId}:${requestId}` : null;
+  if (key) activeGenerations.set(key, controller);
+  const clearTimer = abortOnTimeout(controller);
+
+  res.on('close', () => {
+    clearTimer();
+    if (!res.writableEnded) controller.abort();
+    if (key) activeGenerations.delete(key);
+  });
+
+  return controller;
+}
+
+// Register a job request under its requestId so /api/generate/cancel can reach it before the
+// client knows the job id. Unlike trackGeneration, a disconnect doesn't abort (jobs outlive their request).
+function trackCancellation(req, res, requestId) {
+  const controller = new AbortController();
+  if (requestId) {
+    const key = `${req.user.userId}:${requestId}`;
+    activeGenerations.set(key, controller);
+    res.on('close', () => activeGenerations.delete(key));
+  }
+  return controller;
+}
+
+// Respond with a typed generation error (cancel / timeout when the request's signal was aborted)
+function sendGenerationError(res, error, signal, label) {
+  const failure = signal?.aborted ? abortReason(signal) : error;
+  const { status, body } = generationErrorResponse(failure);
+  if (body.type === GENERATION_ERRORS.CANCELLED) {
+    console.log(`${label} cancelled by client`);
+  } else {
+    console.error(`${label} error:`, failure);
+  }
+  if (!res.headersSent) res.status(status).json(body);
+}
+
+// Cancel an in-flight generation (aborts the provider call; usage is not counted), or the job
+// created for the request when the client cancelled before it learned the job's id
+app.post('/api/generate/cancel', requireAuth, async (req, res) => {
+  const { requestId } = req.body || {};
+  if (typeof requestId !== 'string' || !requestId) return res.status(400).json({ error: 'requestId is required' });
+
+  const controller = activeGenerations.get(`${req.user.userId}:${requestId}`);
+  if (controller) {
+    controller.abort();
+    return res.json({ cancelled: true });
+  }
+
+  try {
+    const job = await jobsDb.getJobByRequestId(req.user.userId, requestId);
+    res.json({ cancelled: job ? await cancelGenerationJob(job.id) : false });
+  } catch (error) {
+    console.error('Error cancelling generation:', error);
+    res.status(500).json({ error: 'Failed to cancel generation' });
+  }
+});
+
+// One-shot generation: waits for the full document
+app.post('/api/generate', requireAuth, async (req, res) => {
+  const controller = trackGeneration(req, res);
+  try {
+    const request = parseGenerationRequest(req.body);
+    if (request.error) return res.status(400).json({ error: request.error });
+
+    const llm = getGenerationProvider(request.mode);
+    if (!llm) return res.status(503).json({ error: 'Generation service not configured' });
+
+    const userId = req.user.userId;
+    if (!(await attachBrandKit(req, res, request))) return;
+
+    // Identical recent request: reuse its result (not counted toward daily usage)
+    const cached = await checkGenerationCache(userId, request, llm);
+    if (cached) return res.json(cached);
+
+    const { exceeded, isPro } = await checkDailyLimit(userId);
+    if (exceeded) return res.status(429).json({ error: 'Daily generation limit reached', type: GENERATION_ERRORS.DAILY_LIMIT, isPro });
+
+    const startedAt = Date.now();
+    const response = await llm.generateContent(providerRequest(request, controller.signal));
+    if (controller.signal.aborted) throw abortReason(controller.signal);
+    recordModelUsage(userId, request.mode, llm, response);
+
+    const { html, warnings } = finishHtml(response.text, request);
+    if (!html) throw new GenerationError(GENERATION_ERRORS.MALFORMED_OUTPUT);
+
+    await auth.incrementDailyUsage(userId);
+    const result = { html, warnings, model: response.model, provenance: buildProvenance(request, llm, response, startedAt) };
+    cacheGeneration(userId, request, result);
+    res.json(result);
+  } catch (error) {
+    sendGenerationError(res, error, controller.signal, 'Generation');
+  }
+});
+
+// Streaming generation: relays provider chunks as Server-Sent Events
+// Events: `chunk` { text }, `done` { html, warnings, model, provenance, cached? }, `error` { error, type?, message? }
+app.post('/api/generate/stream', requireAuth, async (req, res) => {
+  const userId = req.user.userId;
+  let request;
+  let llm;
+  let cached;
+  try {
+    request = parseGenerationRequest(req.body);
+    if (request.error) return res.status(400).json({ error: request.error });
+
+    llm = getGenerationProvider(request.mode);
+    if (!llm) return res.status(503).json({ error: 'Generation service not configured' });
+
+    if (!(await attachBrandKit(req, res, request))) return;
+    cached = await checkGenerationCache(userId, request, llm);
+    if (!cached) {
+      const { exceeded, isPro } = await checkDailyLimit(userId);
+      if (exceeded) return res.status(429).json({ error: 'Daily generation limit reached', type: GENERATION_ERRORS.DAILY_LIMIT, isPro });
+    }
+  } catch (error) {
+    console.error('Streaming generation setup error:', error);
+    return res.status(500).json({ error: 'Failed to start generation' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // disable proxy buffering (nginx)
+  });
+
+  const controller = trackGeneration(req, res);
+  const { signal } = controller;
+
+  const send = (event, data) => {
+    if (!res.destroyed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Identical recent request: reuse its result (not counted toward daily usage)
+  if (cached) {
+    send('done', cached);
+    res.end();
+    return;
+  }
+
+  try {
+    const startedAt = Date.now();
+    const stream = await llm.generateContentStream(providerRequest(request, signal));
+    let text = '';
+    for await (const chunk of stream) {
+      if (signal.aborted) break;
+      const piece = chunk.text;
+      if (piece) {
+        text += piece;
+        send('chunk', { text: piece });
+      }
+    }
+    if (signal.aborted) throw abortReason(signal);
+    recordModelUsage(userId, request.mode, llm, stream);
+
+    const { html, warnings } = finishHtml(text, request);
+    if (!html) throw new GenerationError(GENERATION_ERRORS.MALFORMED_OUTPUT);
+
+    await auth.incrementDailyUsage(userId);
+    const result = { html, warnings, model: stream.model, provenance: buildProvenance(request, llm, stream, startedAt) };
+    cacheGeneration(userId, request, result);
+    send('done', result);
+  } catch (error) {
+    const failure = signal.aborted ? abortReason(signal) : error;
+    const { body } = generationErrorResponse(failure);
+    if (body.type === GENERATION_ERRORS.CANCELLED) {
+      console.log('Streaming generation cancelled by client');
+    } else {
+      console.error('Streaming generation error:', failure);
+    }
+    send('error', body);
+  } finally {
+    if (!res.writableEnded) res.end();
+  }
+});
+
+// Variants: run `count` generations in parallel for the same input
+// Each successful variant counts as one generation toward the daily limit
+app.post('/api/generate/variants', requireAuth, async (req, res) => {
+  const controller = trackGeneration(req, res);
+  try {
+    const request = parseGenerationRequest(req.body);
+    if (request.error) return res.status(400).json({ error: request.error });
+
+    const llm = getGenerationProvider(request.mode);
+    if (!llm) return res.status(503).json({ error: 'Generation service not configured' });
+
+    const count = Number(req.body?.count);
+    if (!Number.isInteger(count) || count < MIN_VARIANTS || count > MAX_VARIANTS) {
+      return res.status(400).json({ error: `count must be between ${MIN_VARIANTS} and ${MAX_VARIANTS}` });
+    }
+
+    const userId = req.user.userId;
+    const { exceeded, isPro, remaining } = await checkDailyLimit(userId, count);
+    if (exceeded) {
+      return res.status(429).json({ error: 'Daily generation limit reached', type: GENERATION_ERRORS.DAILY_LIMIT, isPro, remaining, requested: count });
+    }
+    if (!(await attachBrandKit(req, res, request))) return;
+
+    const startedAt = Date.now();
+    const results = await Promise.allSettled(
+      Array.from({ length: count }, (_, i) =>
+        llm.generateContent(
+          providerRequest(request, controller.signal, getVariantInstruction(request.mode, i, count, request.brandKit)),
+        ),
+      ),
+    );
+    if (controller.signal.aborted) throw abortReason(controller.signal);
+
+    // Variant index kept with each response for its provenance
+    const responses = results
+      .map((result, i) => result.status === 'fulfilled' && { ...result.value, variant: i + 1 })
+      .filter(Boolean);
+    responses.forEach((response) => recordModelUsage(userId, request.mode, llm, response));
+
+    const outputs = responses
+      .map((response) => ({
+        ...finishHtml(response.text, request),
+        model: response.model,
+        provenance: buildProvenance(request, llm, response, startedAt, { variant: response.variant, variantCount: count }),
+      }))
+      .filter((output) => output.html);
+
+    if (outputs.length === 0) {
+      const failure = results.find((result) => result.status === 'rejected');
+      if (failure) throw failure.reason;
+      throw new GenerationError(GENERATION_ERRORS.MALFORMED_OUTPUT);
+    }
+
+    await auth.incrementDailyUsage(userId, outputs.length);
+    res.json({
+      variants: outputs.map((output) => output.html),
+      warnings: outputs.map((output) => output.warnings),
+      models: outputs.map((output) => output.model),
+      provenance: outputs.map((output) => output.provenance),
+      failed: count - outputs.length,
+    });
+  } catch (error) {
+    sendGenerationError(res, error, controller.signal, 'Variant generation');
+  }
+});
+
+/**
+ * -------------------------
+ * Generation jobs
+ * A job runs in the background and survives page reloads / proxy timeouts:
+ * create it, then subscribe (SSE) or poll, and fetch the result.
+ * -------------------------
+ */
+function toJobResponse(job) {
+  return {
+    id: job.id,
+    status: job.status,
+    mode: job.mode,
+    prompt: job.prompt,
+    fileNames: job.metadata?.fileNames || [],
+    error: job.error || null,
+    createdAt: job.created_at,
+    completedAt: job.completed_at,
+  };
+}
+
+// Load the job in :id for the current user, or respond 400/404
+async function loadJob(req, res) {
+  if (!UUID_PATTERN.test(req.params.id)) {
+    res.status(400).json({ error: 'Invalid job id' });
+    return null;
+  }
+  const job = await jobsDb.getJob(req.params.id, req.user.userId);
+  if (!job) res.status(404).json({ error: 'Job not found' });
+  return job;
+}
+
+// Create a job and start it in the background
+app.post('/api/jobs', requireAuth, async (req, res) => {
+  const requestId = typeof req.body?.requestId === 'string' ? req.body.requestId.slice(0, 100) : null;
+  const controller = trackCancellation(req, res, requestId);
+  try {
+    const request = parseGenerationRequest(req.body);
+    if (request.error) return res.status(400).json({ error: request.error });
+
+    const llm = getGenerationProvider(request.mode);
+    if (!llm) return res.status(503).json({ error: 'Generation service not configured' });
+
+    const userId = req.user.userId;
+    if (!(await attachBrandKit(req, res, request))) return;
+
+    // Identical recent request: answer right away without a job (not counted toward daily usage)
+    const cached = await checkGenerationCache(userId, request, llm);
+    if (cached) return res.json({ job: null, result: cached });
+
+    const { exceeded, isPro } = await checkDailyLimit(userId);
+    if (exceeded) return res.status(429).json({ error: 'Daily generation limit reached', type: GENERATION_ERRORS.DAILY_LIMIT, isPro });
+
+    const job = await jobsDb.createJob(userId, request.mode, request.prompt, {
+      fileNames: [...request.files.map((file) => file.name), ...request.datasets.map((dataset) => dataset.name)].filter(Boolean),
+      brandKitId: request.brandKitId,
+      requestId,
+    }, jobs.INSTANCE_ID);
+
+    // Jobs created at the same moment all passed the check above: the later ones past the limit give way
+    if ((await checkDailyLimit(userId, 0, job)).overLimit) {
+      await jobsDb.finishJobWithError(job.id, 'cancelled', { error: 'Daily generation limit reached', type: GENERATION_ERRORS.DAILY_LIMIT });
+      return res.status(429).json({ error: 'Daily generation limit reached', type: GENERATION_ERRORS.DAILY_LIMIT, isPro });
+    }
+
+    // Cancelled while the job was being created
+    if (controller.signal.aborted) {
+      const failure = abortReason(controller.signal);
+      await jobsDb.cancelJob(job.id, generationErrorResponse(failure).body);
+      return sendGenerationError(res, failure, controller.signal, 'Generation job');
+    }
+
+    const startedAt = Date.now();
+    jobs.startJob(
+      job,
+      (signal) => llm.generateContentStream(providerRequest(request, signal)),
+      (error) => generationErrorResponse(error).body,
+      (text, stream) => {
+        recordModelUsage(userId, request.mode, llm, stream);
+        const output = { ...finishHtml(text, request), provenance: buildProvenance(request, llm, stream, startedAt) };
+        if (output.html) cacheGeneration(userId, request, { ...output, model: stream.model });
+        return output;
+      },
+    );
+    controller.signal.addEventListener('abort', () => jobs.cancelJob(job.id), { once: true });
+
+    res.status(202).json({ job: toJobResponse(job) });
+  } catch (error) {
+    console.error('Error creating generation job:', error);
+    res.status(500).json({ error: 'Failed to create generation job' });
+  }
+});
+
+// Jobs to re-attach to after a reload (running, or finished but never delivered)
+app.get('/api/jobs/pending', requireAuth, async (req, res) => {
+  try {
+    const pending = await jobsDb.getPendingJobs(req.user.userId);
+    res.json({ jobs: pending.map(toJobResponse) });
+  } catch (error) {
+    console.error('Error fetching pending jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch pending jobs' });
+  }
+});
+
+// Poll a job's status
+app.get('/api/jobs/:id', requireAuth, async (req, res) => {
+  try {
+    const job = await loadJob(req, res);
+    if (job) res.json({ job: toJobResponse(job) });
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+});
+
+// Fetch the result of a completed job
+app.get('/api/jobs/:id/result', requireAuth, async (req, res) => {
+  try {
+    const job = await loadJob(req, res);
+    if (!job) return;
+    if (job.status !== 'completed') {
+      return res.status(409).json({ error: `Job is ${job.status}`, status: job.status });
+    }
+
+    const html = await jobsDb.takeJobResult(job.id, req.user.userId);
+    res.json({ ...finishForMode(analyzeHtml(html), job.mode), model: job.metadata?.model, provenance: job.metadata?.provenance });
+  } catch (error) {
+    console.error('Error fetching job result:', error);
+    res.status(500).json({ error: 'Failed to fetch job result' });
+  }
+});
+
+// How often the state of a job running on another instance is read while streaming it
+const JOB_STATE_POLL_MS = 2000;
+
+// Cancel a job wherever it runs: this instance aborts it; a job of another instance is cancelled
+// in the database and stopped by its instance. Returns false if the job had already finished.
+async function cancelGenerationJob(jobId) {
+  if (jobs.cancelJob(jobId)) return true;
+  return jobsDb.cancelJob(jobId, generationErrorResponse(new GenerationError(GENERATION_ERRORS.CANCELLED)).body);
+}
+
+// Subscribe to a job as Server-Sent Events (same events as /api/generate/stream)
+// The first `chunk` replays everything generated so far. A job running on another instance
+// sends no chunks: its final state is sent once the database has it.
+app.get('/api/jobs/:id/events', requireAuth, async (req, res) => {
+  let job;
+  try {
+    job = await loadJob(req, res);
+    if (!job) return;
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    return res.status(500).json({ error: 'Failed to fetch job' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // disable proxy buffering (nginx)
+  });
+
+  const send = (event, data) => {
+    if (!res.destroyed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Send the final state of a job that isn't running here; returns false while it's still running
+  const sendFinalState = async () => {
+    const latest = await jobsDb.getJob(job.id, req.user.userId);
+    if (latest?.status === 'pending' || latest?.status === 'running') return false;
+
+    if (latest?.status === 'completed') {
+      const html = await jobsDb.takeJobResult(job.id, req.user.userId);
+      send('done', { ...finishForMode(analyzeHtml(html), latest.mode), model: latest.metadata?.model, provenance: latest.metadata?.provenance });
+    } else {
+      send('error', latest?.error || { error: 'Generation failed' });
+    }
+    res.end();
+    return true;
+  };
+
+  // Keep idle proxies from closing the connection during long generations
+  const heartbeat = setInterval(() => {
+    if (!res.destroyed) res.write(': ping\n\n');
+  }, 15000);
+
+  const unsubscribe = jobs.subscribe(job.id, (event, data) => {
+    if (event === 'done') {
+      jobsDb.takeJobResult(job.id, req.user.userId).catch(() => {});
+    }
+    send(event, data);
+    if (event === 'done' || event === 'error') res.end();
+  });
+
+  if (!unsubscribe) {
+    res.on('close', () => clearInterval(heartbeat));
+    try {
+      while (!res.destroyed && !(await sendFinalState())) {
+        await new Promise((resolve) => setTimeout(resolve, JOB_STATE_POLL_MS));
+      }
+    } catch (error) {
+      console.error('Error sending job state:', error);
+      send('error', { error: 'Failed to fetch job' });
+      res.end();
+    }
+    return;
+  }
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Cancel a running job (it won't count toward daily usage)
+app.post('/api/jobs/:id/cancel', requireAuth, async (req, res) => {
+  try {
+    const job = await loadJob(req, res);
+    if (!job) return;
+    res.json({ cancelled: await cancelGenerationJob(job.id) });
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+// Refinement: apply a follow-up instruction to an existing document
+app.post('/api/refine', requireAuth, async (req, res) => {
+  const { html, instruction = '', mode = 'web', history = [] } = req.body || {};
+  if (typeof html !== 'string' || !html.trim()) return res.status(400).json({ error: 'html is required' });
+  if (typeof instruction !== 'string' || !instruction.trim()) return res.status(400).json({ error: 'instruction is required' });
+  if (!GENERATION_MODES.includes(mode)) return res.status(400).json({ error: `Invalid mode: ${mode}` });
+  if (!Array.isArray(history) || history.some((turn) => typeof turn?.instruction !== 'string')) {
+    return res.status(400).json({ error: 'history must be an array of { instruction } turns' });
+  }
+
+  const llm = getGenerationProvider(mode);
+  if (!llm) return res.status(503).json({ error: 'Generation service not configured' });
+
+  const controller = trackGeneration(req, res);
+  try {
+    const userId = req.user.userId;
+    const { exceeded, isPro } = await checkDailyLimit(userId);
+    if (exceeded) return res.status(429).json({ error: 'Daily generation limit reached', type: GENERATION_ERRORS.DAILY_LIMIT, isPro });
+
+    // Large inline assets (e.g. an inserted brand logo) and embedded datasets aren't resent to the model
+    const { html: withoutData, script: datasetsScript } = extractDatasets(html);
+    const { html: source, assets } = extractInlineAssets(withoutData);
+    const response = await llm.generateContent({
+      contents: buildRefineContents(source, instruction, history),
+      systemInstruction: getRefineInstruction(mode),
+      signal: controller.signal,
+    });
+    if (controller.signal.aborted) throw abortReason(controller.signal);
+    recordModelUsage(userId, mode, llm, response);
+
+    const refined = analyzeHtml(response.text);
+    if (!refined.html) throw new GenerationError(GENERATION_ERRORS.MALFORMED_OUTPUT);
+
+    await auth.incrementDailyUsage(userId);
+    res.json({
+      ...finishForMode({ ...refined, html: restoreDatasets(restoreInlineAssets(refined.html, assets), datasetsScript) }, mode),
+      model: response.model,
+    });
+  } catch (error) {
+    sendGenerationError(res, error, controller.signal, 'Refinement');
+  }
+});
+
+// Longest element HTML accepted for a fragment rewrite (characters, after inline assets are swapped out)
+const MAX_FRAGMENT_LENGTH = 100 * 1024;
+
+// Fragment rewrite (click-to-edit): apply an instruction to one element of a document.
+// Returns only the element's new HTML; the client patches it into the document.
+app.post('/api/refine/fragment', requireAuth, async (req, res) => {
+  const { fragment, instruction = '', selector = '', mode = 'web' } = req.body || {};
+  if (typeof fragment !== 'string' || !fragment.trim()) return res.status(400).json({ error: 'fragment is required' });
+  if (typeof instruction !== 'string' || !instruction.trim()) return res.status(400).json({ error: 'instruction is required' });
+  if (typeof selector !== 'string') return res.status(400).json({ error: 'selector must be a string' });
+  if (!GENERATION_MODES.includes(mode)) return res.status(400).json({ error: `Invalid mode: ${mode}` });
+
+  // Large inline assets (e.g. an inserted brand logo) aren't resent to the model
+  const { html: source, assets } = extractInlineAssets(fragment);
+  if (source.length > MAX_FRAGMENT_LENGTH) {
+    return res.status(413).json({ error: 'This element is too large to edit on its own. Use a refinement instead.' });
+  }
+
+  const llm = getGenerationProvider(mode);
+  if (!llm) return res.status(503).json({ error: 'Generation service not configured' });
+
+  const controller = trackGeneration(req, res);
+  try {
+    const userId = req.user.userId;
+    const { exceeded, isPro } = await checkDailyLimit(userId);
+    if (exceeded) return res.status(429).json({ error: 'Daily generation limit reached', type: GENERATION_ERRORS.DAILY_LIMIT, isPro });
+
+    const response = await llm.generateContent({
+      contents: buildFragmentContents(source, instruction, selector.slice(0, 500)),
+      systemInstruction: getFragmentInstruction(mode),
+      signal: controller.signal,
+    });
+    if (controller.signal.aborted) throw abortReason(controller.signal);
+    recordModelUsage(userId, mode, llm, response);
+
+    const rewritten = extractFragment(response.text);
+    if (!rewritten) throw new GenerationError(GENERATION_ERRORS.MALFORMED_OUTPUT);
+
+    await auth.incrementDailyUsage(userId);
+    res.json({ fragment: restoreInlineAssets(rewritten, assets), model: response.model });
+  } catch (error) {
+    sendGenerationError(res, error, controller.signal, 'Fragment rewrite');
+  }
+});
+
+// Check a document the client changed itself (e.g. a patched element) for the warnings of its
+// mode, without changing it (not counted as usage)
+app.post('/api/analyze', requireAuth, (req, res) => {
+  const { html, mode = 'web' } = req.body || {};
+  if (typeof html !== 'string' || !html.trim()) return res.status(400).json({ error: 'html is required' });
+  if (!GENERATION_MODES.includes(mode)) return res.status(400).json({ error: `Invalid mode: ${mode}` });
+
+  res.json({ warnings: finishForMode(analyzeHtml(html), mode).warnings });
+});
+
+// Repair: fix a generated document's structure without a model call (not counted as usage)
+// Returns the repaired HTML and any warnings that still apply
+app.post('/api/repair', requireAuth, (req, res) => {
+  const { html, mode = 'web' } = req.body || {};
+  if (typeof html !== 'string' || !html.trim()) return res.status(400).json({ error: 'html is required' });
+  if (!GENERATION_MODES.includes(mode)) return res.status(400).json({ error: `Invalid mode: ${mode}` });
+
+  const repaired = repairHtml(html);
+  if (!repaired.html) return res.status(422).json({ error: 'No HTML document found to repair' });
+  res.json(finishForMode(repaired, mode));
+});
+
+/**
+ * -------------------------
+ * Creations (the user's archive)
+ * The client keeps its own ids for creations so a result can be saved after it was shown
+ * -------------------------
+ */
+const CREATIONS_PAGE_SIZE = 20;
+const MAX_CREATIONS_PAGE_SIZE = 100;
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+// Revision kinds the client reports with a new `html` (generation and restore are set by the server)
+const CLIENT_REVISION_KINDS = ['regeneration', 'refinement', 'edit', 'repair'];
+
+function toCreationResponse(creation) {
+  const { user_id: _userId, ...rest } = creation;
+  return rest;
+}
+
+// Summaries link to a thumbnail (the source image) instead of carrying it; `v` changes with
+// the creation so browsers can cache it
+function toCreationSummaryResponse(creation) {
+  const hasThumbnail = creation.original_image_type?.startsWith('image/');
+  return {
+    ...creation,
+    size: Number(creation.size),
+    thumbnail_url: hasThumbnail
+      ? `/api/creations/${creation.id}/thumbnail?v=${new Date(creation.updated_at).getTime()}`
+      : null,
+  };
+}
+
+// Keyset cursors are the position of a page's last row, opaque to clients
+function encodeCursor(position) {
+  return position ? Buffer.from(JSON.stringify(position)).toString('base64url') : null;
+}
+
+function decodeCursor(cursor) {
+  try {
+    const position = JSON.parse(Buffer.from(String(cursor), 'base64url').toString());
+    const valid = typeof position?.createdAt === 'string'
+      && UUID_PATTERN.test(String(position.id))
+      && (position.rank === null || typeof position.rank === 'string');
+    return valid ? position : null;
+  } catch {
+    return null;
+  }
+}
+
+// Archive filters from the query string: q (full-text search), mode, purchased=true|false, tag,
+// folder (a folder id or 'none')
+function parseCreationFilters(query) {
+  const { q, mode, purchased, tag, folder } = query;
+  if (mode !== undefined && !GENERATION_MODES.includes(mode)) return { error: `Invalid mode: ${mode}` };
+  if (purchased !== undefined && purchased !== 'true' && purchased !== 'false') {
+    return { error: 'purchased must be true or false' };
+  }
+  if (folder !== undefined && folder !== 'none' && !UUID_PATTERN.test(String(folder))) {
+    return { error: 'Invalid folder id' };
+  }
+  return {
+    filters: {
+      search: typeof q === 'string' ? q.slice(0, 200) : undefined,
+      mode,
+      purchased: purchased === undefined ? undefined : purchased === 'true',
+      tag: typeof tag === 'string' && tag.trim() ? tag.trim().toLowerCase() : undefined,
+      folderId: folder,
+    },
+  };
+}
+
+function toRevisionResponse(revision) {
+  return {
+    revision: revision.revision,
+    kind: revision.kind,
+    instruction: revision.instruction,
+    model: revision.model,
+    size: Number(revision.size),
+    createdAt: revision.created_at,
+    ...(revision.html !== undefined && { html: revision.html }),
+  };
+}
+
+// Validate the `revision` describing a new html: { kind, instruction?, model? }
+function parseRevision(revision) {
+  if (revision === undefined || revision === null) return {};
+  if (!CLIENT_REVISION_KINDS.includes(revision?.kind)) {
+    return { error: `revision.kind must be one of ${CLIENT_REVISION_KINDS.join(', ')}` };
+  }
+  const text = (value, length) => (typeof value === 'string' && value.trim() ? value.trim().slice(0, length) : null);
+  return { revision: { kind: revision.kind, instruction: text(revision.instruction, 2000), model: text(revision.model, 100) } };
+}
+
+// The version a queued change was made against: the latest revision (for html) and the values it
+// saw of the other fields it changes
+function parseBase(base) {
+  if (base === undefined || base === null) return {};
+  if (typeof base !== 'object') return { error: 'base must be an object' };
+  const { revision, name, tags, folderId } = base;
+  if (revision !== undefined && !(Number.isInteger(revision) && revision >= 1)) {
+    return { error: 'base.revision must be a revision number' };
+  }
+  if (name !== undefined && typeof name !== 'string') return { error: 'base.name must be a string' };
+  if (tags !== undefined && !(Array.isArray(tags) && tags.every((tag) => typeof tag === 'string'))) {
+    return { error: 'base.tags must be an array of strings' };
+  }
+  if (folderId !== undefined && folderId !== null && !UUID_PATTERN.test(String(folderId))) {
+    return { error: 'base.folderId must be a folder id or null' };
+  }
+  return { base: { revision, name, tags, folder_id: folderId } };
+}
+
+// Tags are trimmed, lowercased and deduplicated
+function parseTags(tags) {
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string')) {
+    return { error: 'tags must be an array of strings' };
+  }
+  const cleaned = [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+  if (cleaned.length > MAX_TAGS) return { error: `A creation can have at most ${MAX_TAGS} tags` };
+  if (cleaned.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    return { error: `Tags can be at most ${MAX_TAG_LENGTH} characters` };
+  }
+  return { tags: cleaned };
+}
+
+// ?limit=&offset= pages of full creations, newest first (best match first with q),
+// with the filters of parseCreationFilters
+app.get('/api/creations', requireAuth, async (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit, 10) || CREATIONS_PAGE_SIZE, MAX_CREATIONS_PAGE_SIZE);
+  const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+  const { filters, error: filtersError } = parseCreationFilters(req.query);
+  if (filtersError) return res.status(400).json({ error: filtersError });
+
+  try {
+    const { creations, hasMore } = await creationsDb.getUserCreations(req.user.userId, { limit, offset, ...filters });
+    res.json({ creations: creations.map(toCreationResponse), hasMore });
+  } catch (error) {
+    console.error('Error fetching creations:', error);
+    res.status(500).json({ error: 'Failed to fetch creations' });
+  }
+});
+
+// The archive listing: summaries without HTML or source images, in the same order and with
+// the same filters as above. ?cursor= is the nextCursor of the previous page.
+app.get('/api/creations/summaries', requireAuth, async (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit, 10) || CREATIONS_PAGE_SIZE, MAX_CREATIONS_PAGE_SIZE);
+  const { filters, error: filtersError } = parseCreationFilters(req.query);
+  if (filtersError) return res.status(400).json({ error: filtersError });
+  const after = req.query.cursor ? decodeCursor(req.query.cursor) : null;
+  if (req.query.cursor && !after) return res.status(400).json({ error: 'Invalid cursor' });
+
+  try {
+    const { creations, next } = await creationsDb.getUserCreationSummaries(req.user.userId, { limit, after, ...filters });
+    res.json({ creations: creations.map(toCreationSummaryResponse), nextCursor: encodeCursor(next) });
+  } catch (error) {
+    // A cursor from another search, or a tampered one
+    if (after && error.code?.startsWith('22')) return res.status(400).json({ error: 'Invalid cursor' });
+    console.error('Error fetching creation summaries:', error);
+    res.status(500).json({ error: 'Failed to fetch creations' });
+  }
+});
+
+// Tags in use, most used first: [{ tag, count }]
+app.get('/api/creations/tags', requireAuth, async (req, res) => {
+  try {
+    const tags = await creationsDb.getUserTags(req.user.userId);
+    res.json({ tags });
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+// One creation with its HTML and source image (listings only carry summaries)
+app.get('/api/creations/:id', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid creation id' });
+
+  try {
+    const creation = await creationsDb.getCreation(req.params.id, req.user.userId);
+    if (!creation) return res.status(404).json({ error: 'Creation not found' });
+    res.json(toCreationResponse(creation));
+  } catch (error) {
+    console.error('Error fetching creation:', error);
+    res.status(500).json({ error: 'Failed to fetch creation' });
+  }
+});
+
+// The source image of a creation, as an image response for its thumbnail
+app.get('/api/creations/:id/thumbnail', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid creation id' });
+
+  try {
+    const creation = await creationsDb.getCreationImage(req.params.id, req.user.userId);
+    const match = creation?.original_image?.match(/^data:(image\/[\w.+-]+);base64,(.*)$/s);
+    if (!match) return res.status(404).json({ error: 'Thumbnail not found' });
+
+    res.set({
+      'Content-Type': match[1],
+      'Cache-Control': 'private, max-age=86400',
+      'Last-Modified': new Date(creation.updated_at).toUTCString(),
+      // SVGs can carry scripts: never run them when opened directly
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+      'X-Content-Type-Options': 'nosniff',
+    });
+    res.send(Buffer.from(match[2], 'base64'));
+  } catch (error) {
+    console.error('Error fetching thumbnail:', error);
+    res.status(500).json({ error: 'Failed to fetch thumbnail' });
+  }
+});
+
+// `provenance` is kept only when it's a signed one returned by a generation endpoint (imported or
+// edited provenance is dropped)
+app.post('/api/creations', requireAuth, async (req, res) => {
+  const { id = null, name = '', html, original_image: originalImage = null, mode = 'web', provenance = null } = req.body || {};
+  if (id !== null && !UUID_PATTERN.test(String(id))) return res.status(400).json({ error: 'Invalid creation id' });
+  if (typeof name !== 'string' || !name.trim()) return res.status(400).json({ error: 'name is required' });
+  if (typeof html !== 'string' || !html.trim()) return res.status(400).json({ error: 'html is required' });
+  if (originalImage !== null && typeof originalImage !== 'string') {
+    return res.status(400).json({ error: 'original_image must be a string' });
+  }
+  if (!GENERATION_MODES.includes(mode)) return res.status(400).json({ error: `Invalid mode: ${mode}` });
+  if (provenance !== null && typeof provenance !== 'object') {
+    return res.status(400).json({ error: 'provenance must be an object' });
+  }
+
+  try {
+    const creation = await creationsDb.createCreation(
+      req.user.userId, name.trim().slice(0, 255), html, originalImage, mode, verifyProvenance(provenance), id,
+    );
+    if (creation) return res.status(201).json(toCreationResponse(creation));
+
+    // The id is taken: a retried save of the same creation returns it, anyone else's is a conflict
+    const existing = await creationsDb.getCreation(id, req.user.userId);
+    if (!existing) return res.status(409).json({ error: 'Creation id already in use' });
+    res.json(toCreationResponse(existing));
+  } catch (error) {
+    console.error('Error saving creation:', error);
+    res.status(500).json({ error: 'Failed to save creation' });
+  }
+});
+
+// Rename, tag, move to a folder (`folderId`, null to unfile), or store the latest html
+// (appended as a revision described by `revision`)
+// `base` (changes queued while offline, see parseBase): when a changed field was also changed on
+// the server since, the server version wins with a 409
+app.patch('/api/creations/:id', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid creation id' });
+
+  const { name, html, folderId } = req.body || {};
+  const { base = null, error: baseError } = parseBase(req.body?.base);
+  if (baseError) return res.status(400).json({ error: baseError });
+  const { revision, error: revisionError } = parseRevision(req.body?.revision);
+  if (revisionError) return res.status(400).json({ error: revisionError });
+  const { tags, error: tagsError } = req.body?.tags === undefined ? {} : parseTags(req.body.tags);
+  if (tagsError) return res.status(400).json({ error: tagsError });
+  if (folderId !== undefined && folderId !== null && !UUID_PATTERN.test(String(folderId))) {
+    return res.status(400).json({ error: 'Invalid folder id' });
+  }
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return res.status(400).json({ error: 'name must be a non-empty string' });
+  }
+  if (html !== undefined && (typeof html !== 'string' || !html.trim())) {
+    return res.status(400).json({ error: 'html must be a non-empty string' });
+  }
+
+  try {
+    if (folderId && !(await foldersDb.getFolder(folderId, req.user.userId))) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    const creation = await creationsDb.updateCreation(req.params.id, req.user.userId, {
+      name: name === undefined ? undefined : name.trim().slice(0, 255),
+      html,
+      tags,
+      folder_id: folderId,
+    }, { base, revision });
+    if (creation) return res.json(toCreationResponse(creation));
+
+    const current = base && await creationsDb.getCreation(req.params.id, req.user.userId);
+    if (!current) return res.status(404).json({ error: 'Creation not found' });
+    res.status(409).json({ error: 'This creation was changed more recently', creation: toCreationResponse(current) });
+  } catch (error) {
+    console.error('Error updating creation:', error);
+    res.status(500).json({ error: 'Failed to update creation' });
+  }
+});
+
+app.delete('/api/creations/:id', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid creation id' });
+
+  try {
+    const deleted = await creationsDb.deleteCreation(req.params.id, req.user.userId);
+    if (!deleted) return res.status(404).json({ error: 'Creation not found' });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting creation:', error);
+    res.status(500).json({ error: 'Failed to delete creation' });
+  }
+});
+
+// Revisions, newest first (without their HTML)
+app.get('/api/creations/:id/revisions', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid creation id' });
+
+  try {
+    const revisions = await revisionsDb.getRevisions(req.params.id, req.user.userId);
+    if (revisions.length === 0) return res.status(404).json({ error: 'Creation not found' });
+    res.json({ revisions: revisions.map(toRevisionResponse) });
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch revisions' });
+  }
+});
+
+app.get('/api/creations/:id/revisions/:revision', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid creation id' });
+  const number = Number(req.params.revision);
+  if (!Number.isInteger(number) || number < 1) return res.status(400).json({ error: 'Invalid revision' });
+
+  try {
+    const revision = await revisionsDb.getRevision(req.params.id, req.user.userId, number);
+    if (!revision) return res.status(404).json({ error: 'Revision not found' });
+    res.json({ revision: toRevisionResponse(revision) });
+  } catch (error) {
+    console.error('Error fetching revision:', error);
+    res.status(500).json({ error: 'Failed to fetch revision' });
+  }
+});
+
+// Make an old revision current again (as a new revision, so nothing is lost)
+app.post('/api/creations/:id/revisions/:revision/restore', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid creation id' });
+  const number = Number(req.params.revision);
+  if (!Number.isInteger(number) || number < 1) return res.status(400).json({ error: 'Invalid revision' });
+
+  try {
+    const creation = await creationsDb.restoreRevision(req.params.id, req.user.userId, number);
+    if (!creation) return res.status(404).json({ error: 'Revision not found' });
+    res.json({ ...toCreationResponse(creation), warnings: analyzeHtml(creation.html).warnings });
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    res.status(500).json({ error: 'Failed to restore revision' });
+  }
+});
+
+// A creation is only marked purchased where the purchase is paid for (a credit spent or a payment
+// confirmed by its webhook), never on the client's say-so. No such path records per-creation
+// purchases yet, so this is refused.
+app.post('/api/creations/:id/purchase', requireAuth, (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid creation id' });
+  res.status(403).json({ error: 'Purchases are recorded when the payment is confirmed' });
+});
+
+/**
+ * -------------------------
+ * Creation folders
+ * Each creation is in at most one folder; deleting a folder leaves its creations unfiled
+ * -------------------------
+ */
+const MAX_FOLDER_NAME_LENGTH = 60;
+
+function toFolderResponse(folder) {
+  return {
+    id: folder.id,
+    name: folder.name,
+    creationCount: folder.creation_count ?? 0,
+    createdAt: folder.created_at,
+  };
+}
+
+function parseFolderName(name) {
+  if (typeof name !== 'string' || !name.trim()) return { error: 'name is required' };
+  if (name.trim().length > MAX_FOLDER_NAME_LENGTH) {
+    return { error: `Folder names can be at most ${MAX_FOLDER_NAME_LENGTH} characters` };
+  }
+  return { name: name.trim() };
+}
+
+app.get('/api/folders', requireAuth, async (req, res) => {
+  try {
+    const folders = await foldersDb.getUserFolders(req.user.userId);
+    res.json({ folders: folders.map(toFolderResponse) });
+  } catch (error) {
+    console.error('Error fetching folders:', error);
+    res.status(500).json({ error: 'Failed to fetch folders' });
+  }
+});
+
+app.post('/api/folders', requireAuth, async (req, res) => {
+  const { name, error } = parseFolderName(req.body?.name);
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const folder = await foldersDb.createFolder(req.user.userId, name);
+    if (!folder) return res.status(409).json({ error: 'You already have a folder with that name' });
+    res.status(201).json({ folder: toFolderResponse(folder) });
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    res.status(500).json({ error: 'Failed to create folder' });
+  }
+});
+
+app.patch('/api/folders/:id', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid folder id' });
+
+  const { name, error } = parseFolderName(req.body?.name);
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const folder = await foldersDb.renameFolder(req.params.id, req.user.userId, name);
+    if (!folder) return res.status(404).json({ error: 'Folder not found' });
+    res.json({ folder: toFolderResponse(folder) });
+  } catch (error) {
+    if (error.code === '23505') return res.status(409).json({ error: 'You already have a folder with that name' });
+    console.error('Error renaming folder:', error);
+    res.status(500).json({ error: 'Failed to rename folder' });
+  }
+});
+
+app.delete('/api/folders/:id', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid folder id' });
+
+  try {
+    const deleted = await foldersDb.deleteFolder(req.params.id, req.user.userId);
+    if (!deleted) return res.status(404).json({ error: 'Folder not found' });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    res.status(500).json({ error: 'Failed to delete folder' });
+  }
+});
+
+/**
+ * -------------------------
+ * Brand kits
+ * Palette, fonts, logo and voice notes injected into generation requests (`brandKitId`)
+ * -------------------------
+ */
+const MAX_BRAND_COLORS = 8;
+const MAX_LOGO_LENGTH = 512 * 1024; // Data URL characters (~380KB image)
+const LOGO_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/svg+xml'];
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function toBrandKitResponse(brandKit) {
+  return {
+    id: brandKit.id,
+    name: brandKit.name,
+    palette: brandKit.palette || [],
+    fonts: brandKit.fonts || {},
+    logo: brandKit.logo || null,
+    voiceNotes: brandKit.voice_notes || '',
+    updatedAt: brandKit.updated_at,
+  };
+}
+
+// Validate a brand kit body; returns the normalized kit or { error }
+function parseBrandKit(body) {
+  const { name = '', palette = [], fonts = {}, logo = null, voiceNotes = '' } = body || {};
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'name is required' };
+  }
+  if (!Array.isArray(palette) || palette.length > MAX_BRAND_COLORS) {
+    return { error: `palette must be an array of up to ${MAX_BRAND_COLORS} colors` };
+  }
+  if (palette.some((color) => !HEX_COLOR_PATTERN.test(color?.hex || ''))) {
+    return { error: 'Each palette color needs a hex value like #ff6600' };
+  }
+  if (typeof fonts !== 'object' || fonts === null) {
+    return { error: 'fonts must be an object' };
+  }
+  if (logo !== null) {
+    const type = typeof logo === 'string' ? logo.match(/^data:([^;]+);base64,/)?.[1] : null;
+    if (!LOGO_TYPES.includes(type)) {
+      return { error: 'logo must be a PNG, JPEG, WebP or SVG data URL' };
+    }
+    if (logo.length > MAX_LOGO_LENGTH) {
+      return { error: 'logo is too large' };
+    }
+  }
+  if (typeof voiceNotes !== 'string') {
+    return { error: 'voiceNotes must be a string' };
+  }
+
+  const font = (value) => (typeof value === 'string' ? value.trim().slice(0, 100) : '');
+  return {
+    name: name.trim().slice(0, 80),
+    palette: palette.map(({ name: colorName, hex }) => ({
+      name: typeof colorName === 'string' ? colorName.trim().slice(0, 40) : '',
+      hex: hex.toLowerCase(),
+    })),
+    fonts: { heading: font(fonts.heading), body: font(fonts.body) },
+    logo,
+    voiceNotes: voiceNotes.trim().slice(0, 2000),
+  };
+}
+
+app.get('/api/brand-kits', requireAuth, async (req, res) => {
+  try {
+    const brandKits = await brandKitsDb.getUserBrandKits(req.user.userId);
+    res.json({ brandKits: brandKits.map(toBrandKitResponse) });
+  } catch (error) {
+    console.error('Error fetching brand kits:', error);
+    res.status(500).json({ error: 'Failed to fetch brand kits' });
+  }
+});
+
+app.post('/api/brand-kits', requireAuth, async (req, res) => {
+  const kit = parseBrandKit(req.body);
+  if (kit.error) return res.status(400).json({ error: kit.error });
+
+  try {
+    const brandKit = await brandKitsDb.createBrandKit(req.user.userId, kit);
+    res.status(201).json({ brandKit: toBrandKitResponse(brandKit) });
+  } catch (error) {
+    console.error('Error creating brand kit:', error);
+    res.status(500).json({ error: 'Failed to create brand kit' });
+  }
+});
+
+app.put('/api/brand-kits/:id', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid brand kit id' });
+
+  const kit = parseBrandKit(req.body);
+  if (kit.error) return res.status(400).json({ error: kit.error });
+
+  try {
+    const brandKit = await brandKitsDb.updateBrandKit(req.params.id, req.user.userId, kit);
+    if (!brandKit) return res.status(404).json({ error: 'Brand kit not found' });
+    res.json({ brandKit: toBrandKitResponse(brandKit) });
+  } catch (error) {
+    console.error('Error updating brand kit:', error);
+    res.status(500).json({ error: 'Failed to update brand kit' });
+  }
+});
+
+app.delete('/api/brand-kits/:id', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid brand kit id' });
+
+  try {
+    const deleted = await brandKitsDb.deleteBrandKit(req.params.id, req.user.userId);
+    if (!deleted) return res.status(404).json({ error: 'Brand kit not found' });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting brand kit:', error);
+    res.status(500).json({ error: 'Failed to delete brand kit' });
+  }
+});
+
+/**
+ * -------------------------
+ * Prompt templates
+ * Curated templates plus the user's own, scoped to a generation mode
+ * -------------------------
+ */
+function toTemplateResponse(template) {
+  return {
+    id: template.id,
+    mode: template.mode,
+    name: template.name,
+    body: template.body,
+    curated: false,
+  };
+}
+
+// Templates for ?mode= (or all modes): curated first, then the user's newest first
+app.get('/api/templates', requireAuth, async (req, res) => {
+  const mode = req.query.mode || null;
+  if (mode && !GENERATION_MODES.includes(mode)) return res.status(400).json({ error: `Invalid mode: ${mode}` });
+
+  try {
+    const saved = await templatesDb.getUserTemplates(req.user.userId, mode);
+    const curated = CURATED_TEMPLATES
+      .filter((template) => !mode || template.mode === mode)
+      .map((template) => ({ ...template, curated: true }));
+    res.json({ templates: [...curated, ...saved.map(toTemplateResponse)] });
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    res.status(500).json({ error: 'Failed to fetch templates' });
+  }
+});
+
+app.post('/api/templates', requireAuth, async (req, res) => {
+  const { name = '', body = '', mode = 'web' } = req.body || {};
+  if (typeof name !== 'string' || !name.trim()) return res.status(400).json({ error: 'name is required' });
+  if (typeof body !== 'string' || !body.trim()) return res.status(400).json({ error: 'body is required' });
+  if (body.length > MAX_TEMPLATE_LENGTH) {
+    return res.status(400).json({ error: `Templates are limited to ${MAX_TEMPLATE_LENGTH} characters` });
+  }
+  if (!GENERATION_MODES.includes(mode)) return res.status(400).json({ error: `Invalid mode: ${mode}` });
+
+  try {
+    const template = await templatesDb.createTemplate(req.user.userId, mode, name.trim().slice(0, 80), body.trim());
+    res.status(201).json({ template: toTemplateResponse(template) });
+  } catch (error) {
+    console.error('Error saving template:', error);
+    res.status(500).json({ error: 'Failed to save template' });
+  }
+});
+
+app.delete('/api/templates/:id', requireAuth, async (req, res) => {
+  if (!UUID_PATTERN.test(req.params.id)) return res.status(400).json({ error: 'Invalid template id' });
+
+  try {
+    const deleted = await templatesDb.deleteTemplate(req.params.id, req.user.userId);
+    if (!deleted) return res.status(404).json({ error: 'Template not found' });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    res.status(500).json({ error: 'Failed to delete template' });
+  }
+});
+
+/**
+ * -------------------------
+ * Admin: model usage
+ * How often generations needed retries or the fallback model
+ * -------------------------
+ */
+app.get('/api/admin/model-usage', requireAdmin, async (req, res) => {
+  const days = Math.min(Math.max(Number.parseInt(req.query.days, 10) || 7, 1), 90);
+  try {
+    res.json(await modelUsageDb.getModelUsageStats(days));
+  } catch (error) {
+    console.error('Error fetching model usage:', error);
+    res.status(500).json({ error: 'Failed to fetch model usage' });
+  }
+});
+
 /**
  * -------------------------
  * Billing & Checkout Endpoints
@@ -497,6 +1950,9 @@ const server = app.listen(PORT, HOST, () => {
       await migrations.ensureSchema();
       console.log('✅ Schema ensured');
 
+      const interruptedJobs = await jobs.startLeaseKeeper();
+      if (interruptedJobs > 0) console.log(`⚠️  Marked ${interruptedJobs} interrupted generation job(s) as failed`);
+
       console.log('🔄 Ensuring permanent admin account...');
       const admin = await auth.ensurePermanentAdmin();
       if (admin) console.log('✅ Permanent admin account ready');
@@ -0,0 +1,99 @@
+/**
+ * Slide deck runtime
+ * Decks generated in 'slides' mode only contain the slide markup (<section class="slide">,
+ * speaker notes in <aside class="notes">). This runtime is added to every deck so navigation,
+ * the presenter view (LivePreview) and PDF export behave the same for every deck:
+ *   - one 1280x720 slide at a time, scaled to fit the window
+ *   - ←/→, PageUp/PageDown, Space, Home/End; the current slide is kept in `#slide-N`
+ *   - posts { type: 'fanta-slides', index, count } to the parent on every change and
+ *     accepts { type: 'fanta-slides', goto: index } to move
+ *   - prints one slide per page, without the notes
+ */
+
+// Marks a deck that already has the runtime (refinements keep it)
+export const SLIDES_RUNTIME_ID = 'fanta-slides-runtime';
+
+export const SLIDE_WIDTH = 1280;
+export const SLIDE_HEIGHT = 720;
+
+const RUNTIME_STYLE = `<style id="${SLIDES_RUNTIME_ID}-style">
+  html, body { margin: 0; height: 100%; overflow: hidden; background: #000; }
+  .slide {
+    position: absolute !important; top: 50%; left: 50%; margin: 0 !important;
+    width: ${SLIDE_WIDTH}px; height: ${SLIDE_HEIGHT}px; box-sizing: border-box; overflow: hidden;
+    transform: translate(-50%, -50%) scale(var(--deck-scale, 1));
+  }
+  .slide:not(.is-active) { visibility: hidden; pointer-events: none; }
+  .slide aside.notes, .slide .notes { display: none !important; }
+  @page { size: ${SLIDE_WIDTH}px ${SLIDE_HEIGHT}px; margin: 0; }
+  @media print {
+    html, body { height: auto; overflow: visible; background: none; }
+    .slide {
+      position: relative !important; top: auto; left: auto; transform: none !important;
+      visibility: visible !important; break-after: page; page-break-after: always;
+      -webkit-print-color-adjust: exact; print-color-adjust: exact;
+    }
+  }
+</style>`;
+
+const RUNTIME_SCRIPT = `<script id="${SLIDES_RUNTIME_ID}">
+(function () {
+  var slides = Array.prototype.slice.call(document.querySelectorAll('.slide'));
+  if (slides.length === 0) return;
+  var current = -1;
+
+  function fit() {
+    var scale = Math.min(window.innerWidth / ${SLIDE_WIDTH}, window.innerHeight / ${SLIDE_HEIGHT});
+    document.documentElement.style.setProperty('--deck-scale', String(scale));
+  }
+
+  function fromHash() {
+    var match = location.hash.match(/^#slide-(\\d+)$/);
+    return match ? Number(match[1]) - 1 : 0;
+  }
+
+  function show(index) {
+    index = Math.max(0, Math.min(slides.length - 1, index));
+    if (index === current) return;
+    slides.forEach(function (slide, i) { slide.classList.toggle('is-active', i === index); });
+    current = index;
+    try { history.replaceState(null, '', '#slide-' + (index + 1)); } catch (e) {}
+    var target = window.opener || (window.parent !== window ? window.parent : null);
+    if (target) target.postMessage({ type: 'fanta-slides', index: index, count: slides.length }, '*');
+  }
+
+  document.addEventListener('keydown', function (event) {
+    var tag = event.target && event.target.tagName;
+    if (tag === 'INPUT' || tag === 'TEXTAREA' || (event.target && event.target.isContentEditable)) return;
+    var next = { ArrowRight: 1, ArrowDown: 1, PageDown: 1, ' ': 1, Enter: 1, ArrowLeft: -1, ArrowUp: -1, PageUp: -1, Backspace: -1 }[event.key];
+    if (next) show(current + next);
+    else if (event.key === 'Home') show(0);
+    else if (event.key === 'End') show(slides.length - 1);
+    else return;
+    event.preventDefault();
+  });
+  window.addEventListener('hashchange', function () { show(fromHash()); });
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (data && data.type === 'fanta-slides' && typeof data.goto === 'number') show(data.goto);
+  });
+  window.addEventListener('resize', fit);
+
+  fit();
+  show(fromHash());
+})();
+</script>`;
+
+/**
+ * Add the slide runtime to a generated deck (no-op when it is already there)
+ */
+export function addSlidesRuntime(html) {
+  if (!html || html.includes(`id="${SLIDES_RUNTIME_ID}"`)) return html;
+
+  const withStyle = /<\/head\s*>/i.test(html)
+    ? html.replace(/<\/head\s*>/i, () => `${RUNTIME_STYLE}\n</head>`)
+    : `${RUNTIME_STYLE}\n${html}`;
+  return /<\/body\s*>/i.test(withStyle)
+    ? withStyle.replace(/<\/body\s*>(?![\s\S]*<\/body\s*>)/i, () => `${RUNTIME_SCRIPT}\n</body>`)
+    : `${withStyle}\n${RUNTIME_SCRIPT}`;
+}
@@ -0,0 +1,44 @@
+/**
+ * Prompt template database operations (user-saved templates)
+ */
+import pool from './db.js';
+
+const TEMPLATE_COLUMNS = `id, user_id, mode, name, body, created_at, updated_at`;
+
+/**
+ * Get a user's templates, optionally for one generation mode
+ */
+export async function getUserTemplates(userId, mode = null) {
+  const result = await pool.query(
+    `SELECT ${TEMPLATE_COLUMNS}
+     FROM prompt_templates
+     WHERE user_id = $1 AND ($2::text IS NULL OR mode = $2)
+     ORDER BY created_at DESC`,
+    [userId, mode]
+  );
+  return result.rows;
+}
+
+/**
+ * Save a template
+ */
+export async function createTemplate(userId, mode, name, body) {
+  const result = await pool.query(
+    `INSERT INTO prompt_templates (user_id, mode, name, body)
+     VALUES ($1, $2, $3, $4)
+     RETURNING ${TEMPLATE_COLUMNS}`,
+    [userId, mode, name, body]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Delete a template. Returns false if the user doesn't own it.
+ */
+export async function deleteTemplate(templateId, userId) {
+  const result = await pool.query(
+    `DELETE FROM prompt_templates WHERE id = $1 AND user_id = $2`,
+    [templateId, userId]
+  );
+  return result.rowCount > 0;
+}
@@ -37,6 +37,16 @@ export interface Analytics {
   new_creations_7d: number;
 }
 
+export interface ModelUsage {
+  days: number;
+  totalCalls: number;
+  fallbackCalls: number;
+  fallbackRate: number; // 0..1
+  retriedCalls: number;
+  totalRetries: number;
+  models: { provider: string; model: string; calls: number; fallbackCalls: number }[];
+}
+
 function getAuthHeaders() {
   const token = getAuthToken();
   return {
@@ -78,6 +88,28 @@ export async function getAnalytics(): Promise<{ data: Analytics | null; error: a
   }
 }
 
+/**
+ * Get model usage over the last `days` days (retries and model fallback)
+ */
+export async function getModelUsage(days = 7): Promise<{ data: ModelUsage | null; error: any }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/admin/model-usage?days=${days}`, {
+      headers: getAuthHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { data: null, error: errorData.error || 'Failed to fetch model usage' };
+    }
+
+    const data = await response.json();
+    return { data, error: null };
+  } catch (error: any) {
+    return { data: null, error: error.message || 'Failed to fetch model usage' };
+  }
+}
+
 /**
  * Get all users
  */
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getAuthToken } from './auth-api';
+
+import { API_BASE_URL } from '../config/api';
+
+export interface BrandColor {
+  name: string; // e.g. "Primary"
+  hex: string; // e.g. "#f97316"
+}
+
+export interface BrandFonts {
+  heading: string;
+  body: string;
+}
+
+/**
+ * A user's brand kit, applied to generations of any mode
+ */
+export interface BrandKit {
+  id: string;
+  name: string;
+  palette: BrandColor[];
+  fonts: BrandFonts;
+  logo: string | null; // Data URL (PNG, JPEG, WebP or SVG)
+  voiceNotes: string;
+  updatedAt: string;
+}
+
+export type BrandKitInput = Omit<BrandKit, 'id' | 'updatedAt'>;
+
+// Keep in sync with MAX_BRAND_COLORS / MAX_LOGO_LENGTH in server.js
+export const MAX_BRAND_COLORS = 8;
+export const MAX_LOGO_BYTES = 380 * 1024;
+
+/**
+ * Fetch the current user's brand kits
+ */
+export async function fetchBrandKits(): Promise<{ brandKits: BrandKit[]; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/brand-kits`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      return { brandKits: [], error: 'Failed to fetch brand kits' };
+    }
+
+    const data = await response.json();
+    return { brandKits: data.brandKits || [], error: null };
+  } catch (error: any) {
+    return { brandKits: [], error: error.message };
+  }
+}
+
+/**
+ * Create a brand kit, or replace an existing one when `id` is given
+ */
+export async function saveBrandKit(
+  kit: BrandKitInput,
+  id?: string
+): Promise<{ brandKit: BrandKit | null; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/brand-kits${id ? `/${id}` : ''}`, {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+      body: JSON.stringify(kit),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      return { brandKit: null, error: error.error || 'Failed to save brand kit' };
+    }
+
+    const data = await response.json();
+    return { brandKit: data.brandKit, error: null };
+  } catch (error: any) {
+    return { brandKit: null, error: error.message };
+  }
+}
+
+/**
+ * Delete a brand kit
+ */
+export async function deleteBrandKit(id: string): Promise<{ error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/brand-kits/${id}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      return { error: 'Failed to delete brand kit' };
+    }
+
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}
@@ -5,135 +5,643 @@
 import { Creation } from '../components/CreationHistory';
 import { GenerationMode } from './gemini';
 import { getAuthToken } from './auth-api';
+import type { RevisionInfo } from './revisions-api';
+import {
+  getCachedCreations,
+  getCachedCreation,
+  putCachedCreations,
+  removeCachedCreations,
+  getOutbox,
+  enqueue,
+  removeOutboxEntry,
+  removeUserData,
+  OutboxEntry,
+  OutboxOperation,
+  CreationUpdates,
+  CreationBase,
+} from './creations-cache';
 
 import { API_BASE_URL } from '../config/api';
 
 /**
- * Fetch all creations for a user
+ * The archive is cached in IndexedDB (services/creations-cache.ts). Reads fall back to the cache
+ * while offline, and changes are queued there until `syncCreations` can replay them.
+ * Listings are summaries without HTML or source images (`partial` creations); `fetchCreation`
+ * loads a creation in full when it's opened. So that they can still be opened offline, listings
+ * also fetch in the background the creations opened recently on this device or marked with
+ * `setKeepOffline`, within a count and size budget (the rest stays a summary offline).
  */
-export async function fetchUserCreations(userId: string): Promise<{ creations: Creation[]; error: any }> {
+
+// Creations fetched per archive page
+export const CREATIONS_PAGE_SIZE = 20;
+
+/**
+ * Narrow down the archive: full-text `search` over names, prompts and page text,
+ * mode, purchase state, a tag, and a folder ('none' for unfiled creations)
+ */
+export interface CreationFilters {
+  search?: string;
+  mode?: Creation['mode'];
+  purchased?: boolean;
+  tag?: string;
+  folderId?: string; // Folder id or 'none'
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+function hasFilters(filters: CreationFilters): boolean {
+  return Boolean(filters.search?.trim() || filters.mode || filters.purchased !== undefined || filters.tag || filters.folderId);
+}
+
+// Offline stand-in for the server's filters (search matches every word anywhere in the creation)
+function matchesFilters(creation: Creation, filters: CreationFilters): boolean {
+  if (filters.mode && (creation.mode || 'web') !== filters.mode) return false;
+  if (filters.purchased !== undefined && Boolean(creation.purchased) !== filters.purchased) return false;
+  if (filters.tag && !creation.tags?.includes(filters.tag)) return false;
+  if (filters.folderId === 'none' ? creation.folderId : filters.folderId && creation.folderId !== filters.folderId) return false;
+
+  const words = (filters.search || '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = [creation.name, creation.provenance?.prompt, creation.html.replace(/<[^>]*>/g, ' ')].join(' ').toLowerCase();
+  return words.every((word) => text.includes(word));
+}
+
+function toCreation(item: any): Creation {
+  return {
+    id: item.id,
+    name: item.name,
+    html: item.html,
+    originalImage: item.original_image || undefined,
+    timestamp: new Date(item.created_at),
+    updatedAt: item.updated_at ? new Date(item.updated_at) : undefined,
+    revision: item.revision || undefined,
+    purchased: item.purchased,
+    mode: item.mode,
+    provenance: item.provenance || undefined,
+    tags: item.tags || [],
+    folderId: item.folder_id ?? null,
+  };
+}
+
+// Listing entry: no HTML, source image or provenance (the keys are left out so merging a summary
+// into a cached copy keeps them)
+function toCreationSummary(item: any): Creation {
+  return {
+    id: item.id,
+    name: item.name,
+    html: '',
+    partial: true,
+    timestamp: new Date(item.created_at),
+    updatedAt: item.updated_at ? new Date(item.updated_at) : undefined,
+    revision: item.revision || undefined,
+    purchased: item.purchased,
+    mode: item.mode,
+    tags: item.tags || [],
+    folderId: item.folder_id ?? null,
+    size: item.size,
+    originalImageType: item.original_image_type || undefined,
+    thumbnailUrl: item.thumbnail_url || undefined,
+  };
+}
+
+// A summary merged into the cached copy of its creation. The cached HTML is kept either way: while
+// it's current the creation stays complete, otherwise it's `partial` (refetched when opened online)
+// and the older HTML is what opens offline until the background fill replaces it.
+function withCachedContent(summary: Creation, cached?: Creation): Creation {
+  if (!cached) return summary;
+  const current =
+    !cached.partial &&
+    (cached.revision ?? 0) >= (summary.revision ?? 0) &&
+    (cached.updatedAt?.getTime() ?? 0) >= (summary.updatedAt?.getTime() ?? 0);
+  return { ...cached, ...summary, html: cached.html, partial: current ? undefined : true };
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+// The cache is a convenience: failures are logged, never surfaced
+async function quietly<T>(action: Promise<T>, fallback: T): Promise<T> {
   try {
-    const token = getAuthToken();
-    const response = await fetch(`${API_BASE_URL}/api/creations`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-      credentials: 'include',
-    });
+    return await action;
+  } catch (error) {
+    console.warn('Creation cache unavailable:', error);
+    return fallback;
+  }
+}
 
-    if (!response.ok) {
-      return { creations: [], error: 'Failed to fetch creations' };
+function request(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = getAuthToken();
+  return fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+  });
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.error || fallback;
+}
+
+function saveRequest(creation: Creation): Promise<Response> {
+  return request('/api/creations', {
+    method: 'POST',
+    body: JSON.stringify({
+      id: creation.id,
+      name: creation.name,
+      html: creation.html,
+      original_image: creation.originalImage,
+      mode: creation.mode || 'web',
+      provenance: creation.provenance,
+    }),
+  });
+}
+
+// The HTTP request for a change (null when there's nothing left to send). Updates are checked
+// against their `base` when it's given (replayed changes).
+async function sendOperation(userId: string, operation: OutboxOperation, base?: CreationBase): Promise<Response | null> {
+  const path = `/api/creations/${operation.creationId}`;
+  switch (operation.type) {
+    case 'save': {
+      // Queued saves send the creation as it is now
+      const creation = await getCachedCreation(userId, operation.creationId);
+      return creation ? saveRequest(creation) : null;
     }
+    case 'update':
+      return request(path, {
+        method: 'PATCH',
+        body: JSON.stringify({ ...operation.updates, revision: operation.revision, base }),
+      });
+    case 'delete':
+      return request(path, { method: 'DELETE' });
+    case 'purchase':
+      return request(`${path}/purchase`, { method: 'POST' });
+  }
+}
 
-    const data = await response.json();
-    const creations = (data.creations || []).map((item: any) => ({
-      id: item.id,
-      name: item.name,
-      html: item.html,
-      originalImage: item.original_image,
-      timestamp: new Date(item.created_at),
-      purchased: item.purchased,
-    }));
-
-    return { creations, error: null };
+/**
+ * Send a change now, or queue it while offline. Changes also queue behind earlier queued ones
+ * so they reach the server in order. `response` is null when the change was queued.
+ */
+async function sendOrQueue(
+  userId: string,
+  operation: OutboxOperation,
+  send: () => Promise<Response | null>,
+): Promise<{ response: Response | null; error: any }> {
+  const queued = await quietly(getOutbox(userId), []);
+  if (!isOffline() && queued.length === 0) {
+    try {
+      return { response: await send(), error: null };
+    } catch {
+      // Network failure: queue it below
+    }
+  }
+
+  try {
+    await enqueue(userId, operation);
   } catch (error: any) {
-    return { creations: [], error: error.message };
+    return { response: null, error: `You appear to be offline (${error.message})` };
   }
+  if (!isOffline()) void syncCreations(userId);
+  return { response: null, error: null };
 }
 
 /**
- * Save a new creation
+ * Keep the cache in step with a page of summaries from the server, returning the page as the
+ * user should see it: unsynced local changes win, and creations queued for saving lead the
+ * first page. Filtered pages only refresh the creations they contain.
  */
-export async function saveCreation(
+async function cacheServerPage(
   userId: string,
-  creation: Omit<Creation, 'id' | 'timestamp'>,
-  mode: GenerationMode
-): Promise<{ creation: Creation | null; error: any }> {
-  try {
-    const token = getAuthToken();
-    const response = await fetch(`${API_BASE_URL}/api/creations`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
-      credentials: 'include',
-      body: JSON.stringify({
-        name: creation.name,
-        html: creation.html,
-        original_image: creation.originalImage,
-        mode,
-      }),
+  creations: Creation[],
+  { first, hasMore, filtered }: { first: boolean; hasMore: boolean; filtered: boolean },
+): Promise<Creation[]> {
+  const [cached, outbox] = await Promise.all([getCachedCreations(userId), getOutbox(userId)]);
+  const cachedById = new Map(cached.map((creation) => [creation.id, creation]));
+  const pending = new Set(outbox.map((entry) => entry.creationId));
+  const deleted = new Set(outbox.filter((entry) => entry.type === 'delete').map((entry) => entry.creationId));
+  const serverIds = new Set(creations.map((creation) => creation.id));
+
+  // Cached creations within the page's time range that the server no longer has were deleted elsewhere
+  if (!filtered && (creations.length > 0 || first)) {
+    const newest = first ? Infinity : creations[0].timestamp.getTime();
+    const oldest = hasMore ? creations[creations.length - 1].timestamp.getTime() : -Infinity;
+    const stale = cached.filter((creation) => {
+      const time = creation.timestamp.getTime();
+      return !serverIds.has(creation.id) && !pending.has(creation.id) && time <= newest && time >= oldest;
     });
+    await removeCachedCreations(stale.map((creation) => creation.id));
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      return { creation: null, error: error.error || 'Failed to save creation' };
+  // Server copies keep what only this device knows (source files, refinement turns...)
+  const fresh = creations
+    .filter((creation) => !pending.has(creation.id))
+    .map((creation) => withCachedContent(creation, cachedById.get(creation.id)));
+  await putCachedCreations(userId, fresh);
+
+  const freshById = new Map(fresh.map((creation) => [creation.id, creation]));
+  const page = creations
+    .filter((creation) => !deleted.has(creation.id))
+    .map((creation) => freshById.get(creation.id) || cachedById.get(creation.id) || creation);
+  if (!first || filtered) return page;
+
+  const unsaved = outbox
+    .filter((entry) => entry.type === 'save' && !serverIds.has(entry.creationId))
+    .map((entry) => cachedById.get(entry.creationId))
+    .filter((creation): creation is Creation => Boolean(creation));
+  return [...unsaved, ...page];
+}
+
+/**
+ * The user's cached creations, newest first (shown before the server answers)
+ */
+export async function fetchCachedCreations(userId: string): Promise<Creation[]> {
+  return quietly(getCachedCreations(userId), []);
+}
+
+// Cursors of pages read from the cache while offline (server cursors are opaque)
+const CACHE_CURSOR_PREFIX = 'cache:';
+
+// Budget of creations `fillCache` keeps in full for offline use: marked ones first, then the most
+// recently opened (within OFFLINE_RECENT_DAYS)
+const OFFLINE_RECENT_DAYS = 30;
+const OFFLINE_MAX_CREATIONS = 50;
+const OFFLINE_MAX_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Remove a user's offline copy of the archive and their queued changes from this device (on sign-out)
+ */
+export async function clearCachedCreations(userId: string): Promise<void> {
+  await quietly(removeUserData(userId), undefined);
+}
+
+/**
+ * Fetch a page of the user's archive as summaries (see `partial`), newest first (best match
+ * first when searching). Pass the previous page's `nextCursor` for the next one; it's null on
+ * the last page. Offline (or when the server can't be reached) the page comes from the cache
+ * and `offline` is set; a server cursor then pages no further until the connection returns.
+ */
+export async function fetchUserCreations(
+  userId: string,
+  { cursor = null, limit = CREATIONS_PAGE_SIZE, filters = {} }: { cursor?: string | null; limit?: number; filters?: CreationFilters } = {}
+): Promise<{ creations: Creation[]; nextCursor: string | null; offline: boolean; error: any }> {
+  const filtered = hasFilters(filters);
+  const serverCursor = cursor?.startsWith(CACHE_CURSOR_PREFIX) ? null : cursor;
+  if (!isOffline()) {
+    try {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (serverCursor) params.set('cursor', serverCursor);
+      if (filters.search?.trim()) params.set('q', filters.search.trim());
+      if (filters.mode) params.set('mode', filters.mode);
+      if (filters.purchased !== undefined) params.set('purchased', String(filters.purchased));
+      if (filters.tag) params.set('tag', filters.tag);
+      if (filters.folderId) params.set('folder', filters.folderId);
+      const response = await request(`/api/creations/summaries?${params}`);
+
+      if (!response.ok) {
+        return { creations: [], nextCursor: null, offline: false, error: 'Failed to fetch creations' };
+      }
+
+      const data = await response.json();
+      const creations: Creation[] = (data.creations || []).map(toCreationSummary);
+      const nextCursor: string | null = data.nextCursor || null;
+      const page = await quietly(
+        cacheServerPage(userId, creations, { first: !cursor, hasMore: nextCursor !== null, filtered }),
+        creations,
+      );
+      void fillCache(userId);
+      return { creations: page, nextCursor, offline: false, error: null };
+    } catch {
+      // Network failure: fall back to the cache
     }
+  }
 
-    const data = await response.json();
-    const newCreation: Creation = {
-      id: data.id,
-      name: data.name,
-      html: data.html,
-      originalImage: data.original_image,
-      timestamp: new Date(data.created_at),
-      purchased: data.purchased,
-    };
-
-    return { creation: newCreation, error: null };
+  if (serverCursor) return { creations: [], nextCursor: cursor, offline: true, error: null };
+  try {
+    const offset = cursor ? Number(cursor.slice(CACHE_CURSOR_PREFIX.length)) || 0 : 0;
+    const cached = (await getCachedCreations(userId)).filter((creation) => matchesFilters(creation, filters));
+    const nextCursor = cached.length > offset + limit ? `${CACHE_CURSOR_PREFIX}${offset + limit}` : null;
+    return { creations: cached.slice(offset, offset + limit), nextCursor, offline: true, error: null };
   } catch (error: any) {
-    return { creation: null, error: error.message };
+    return { creations: [], nextCursor: null, offline: true, error: error.message };
   }
 }
 
 /**
- * Delete a creation
+ * Fetch one creation in full (HTML, source image and provenance), for opening it from a listing.
+ * Falls back to the cached copy when the server can't be reached (possibly an older version,
+ * then still `partial`).
+ */
+export async function fetchCreation(userId: string, creationId: string): Promise<{ creation: Creation | null; error: any }> {
+  const result = await downloadCreation(userId, creationId, { openedAt: new Date() });
+  if (result.creation || result.error !== null) return result;
+
+  const cached = await quietly(getCachedCreation(userId, creationId), null);
+  if (!cached?.html) return { creation: null, error: 'This creation is not available offline' };
+  const opened = { ...cached, openedAt: new Date() };
+  await quietly(putCachedCreations(userId, [opened]), undefined);
+  return { creation: opened, error: null };
+}
+
+/**
+ * Note that a creation was opened (one that didn't need fetching), so it stays available offline
+ */
+export async function markCreationOpened(userId: string, creationId: string): Promise<void> {
+  const cached = await quietly(getCachedCreation(userId, creationId), null);
+  if (cached) await quietly(putCachedCreations(userId, [{ ...cached, openedAt: new Date() }]), undefined);
+}
+
+/**
+ * Keep a creation available offline on this device (fetching it in full now when online), or
+ * leave it to the recently opened budget again
  */
-export async function deleteCreation(creationId: string): Promise<{ error: any }> {
+export async function setKeepOffline(userId: string, creation: Creation, keep: boolean): Promise<{ creation: Creation; error: any }> {
+  const cached = await quietly(getCachedCreation(userId, creation.id), null);
+  const marked: Creation = { ...creation, ...cached, keepOffline: keep || undefined };
   try {
-    const token = getAuthToken();
-    const response = await fetch(`${API_BASE_URL}/api/creations/${creationId}`, {
-      method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-      credentials: 'include',
-    });
+    await putCachedCreations(userId, [marked]);
+  } catch (error: any) {
+    return { creation, error: error.message };
+  }
+  if (!keep || !marked.partial || isOffline()) return { creation: marked, error: null };
+
+  const { creation: full, error } = await downloadCreation(userId, creation.id);
+  return { creation: full || marked, error };
+}
 
+// Fetch a creation in full into the cache, merged into the cached copy with `changes`. Both
+// fields are null when the server couldn't be reached.
+async function downloadCreation(
+  userId: string,
+  creationId: string,
+  changes: Partial<Creation> = {},
+): Promise<{ creation: Creation | null; error: any }> {
+  if (isOffline()) return { creation: null, error: null };
+  const cached = await quietly(getCachedCreation(userId, creationId), null);
+  try {
+    const response = await request(`/api/creations/${creationId}`);
     if (!response.ok) {
-      const error = await response.json();
-      return { error: error.error || 'Failed to delete creation' };
+      return { creation: null, error: await readError(response, 'Failed to fetch creation') };
     }
+    // Keeps what only this device knows (source files, refinement turns...)
+    const creation: Creation = { ...cached, ...toCreation(await response.json()), ...changes, partial: undefined };
+    await quietly(putCachedCreations(userId, [creation]), undefined);
+    return { creation, error: null };
+  } catch {
+    return { creation: null, error: null };
+  }
+}
 
-    return { error: null };
-  } catch (error: any) {
-    return { error: error.message };
+// The cached creations kept in full for offline use: marked ones, then the most recently opened,
+// up to OFFLINE_MAX_CREATIONS and OFFLINE_MAX_BYTES of HTML
+function selectOffline(cached: Creation[]): Creation[] {
+  const recent = Date.now() - OFFLINE_RECENT_DAYS * 24 * 60 * 60 * 1000;
+  const candidates = cached
+    .filter((creation) => creation.keepOffline || (creation.openedAt?.getTime() ?? 0) >= recent)
+    .sort(
+      (a, b) =>
+        Number(Boolean(b.keepOffline)) - Number(Boolean(a.keepOffline)) ||
+        (b.openedAt?.getTime() ?? 0) - (a.openedAt?.getTime() ?? 0),
+    );
+
+  const selected: Creation[] = [];
+  let bytes = 0;
+  for (const creation of candidates) {
+    const size = creation.size ?? creation.html.length;
+    if (selected.length >= OFFLINE_MAX_CREATIONS || bytes + size > OFFLINE_MAX_BYTES) break;
+    selected.push(creation);
+    bytes += size;
   }
+  return selected;
 }
 
+// Creations being fetched into the cache by `fillCache`
+const filling = new Set<string>();
+
 /**
- * Mark a creation as purchased
+ * Fetch the creations kept for offline use (see selectOffline) that the cache only has as summaries
+ * (or older versions) in full, one at a time. Creations with queued changes are left alone.
  */
-export async function markCreationAsPurchased(creationId: string): Promise<{ error: any }> {
+async function fillCache(userId: string): Promise<void> {
+  const offline = selectOffline(await quietly(getCachedCreations(userId), []));
+  const missing = offline.filter((creation) => creation.partial && !filling.has(creation.id));
+  for (const creation of missing) filling.add(creation.id);
   try {
-    const token = getAuthToken();
-    const response = await fetch(`${API_BASE_URL}/api/creations/${creationId}/purchase`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-      credentials: 'include',
-    });
+    for (const creation of missing) {
+      if (isOffline()) break;
+      const outbox = await quietly(getOutbox(userId), []);
+      if (outbox.some((entry) => entry.creationId === creation.id)) continue;
+      await downloadCreation(userId, creation.id);
+    }
+  } finally {
+    for (const creation of missing) filling.delete(creation.id);
+  }
+}
+
+const thumbnails = new Map<string, Promise<string | null>>();
 
+/**
+ * Load a thumbnail listed with a creation (`thumbnailUrl`) as an object URL. The API needs the
+ * auth header, so it can't be an <img> src directly. Each URL is fetched once per session.
+ */
+export function fetchThumbnail(thumbnailUrl: string): Promise<string | null> {
+  let thumbnail = thumbnails.get(thumbnailUrl);
+  if (!thumbnail) {
+    thumbnail = request(thumbnailUrl)
+      .then(async (response) => (response.ok ? URL.createObjectURL(await response.blob()) : null))
+      .catch(() => null);
+    thumbnails.set(thumbnailUrl, thumbnail);
+  }
+  return thumbnail;
+}
+
+/**
+ * The tags used across the user's archive, most used first
+ */
+export async function fetchCreationTags(): Promise<{ tags: TagCount[]; error: any }> {
+  try {
+    const response = await request('/api/creations/tags');
     if (!response.ok) {
-      const error = await response.json();
-      return { error: error.error || 'Failed to mark as purchased' };
+      return { tags: [], error: await readError(response, 'Failed to fetch tags') };
     }
-
-    return { error: null };
+    const data = await response.json();
+    return { tags: data.tags || [], error: null };
   } catch (error: any) {
-    return { error: error.message };
+    return { tags: [], error: error.message };
+  }
+}
+
+/**
+ * Save a new creation (under its client-side id when it has one).
+ * Offline, it's kept in the cache and `queued` is set.
+ */
+export async function saveCreation(
+  userId: string,
+  creation: Omit<Creation, 'id' | 'timestamp'> & { id?: string; timestamp?: Date },
+  mode: GenerationMode
+): Promise<{ creation: Creation | null; queued: boolean; error: any }> {
+  const local: Creation = {
+    ...creation,
+    id: creation.id || crypto.randomUUID(),
+    timestamp: creation.timestamp || new Date(),
+    mode,
+  };
+  await quietly(putCachedCreations(userId, [local]), undefined);
+
+  const { response, error } = await sendOrQueue(userId, { type: 'save', creationId: local.id }, () => saveRequest(local));
+  if (error) return { creation: null, queued: false, error };
+  if (!response) return { creation: local, queued: true, error: null };
+
+  if (!response.ok) {
+    return { creation: null, queued: false, error: await readError(response, 'Failed to save creation') };
+  }
+  const saved = { ...local, ...toCreation(await response.json()) };
+  await quietly(putCachedCreations(userId, [saved]), undefined);
+  return { creation: saved, queued: false, error: null };
+}
+
+// The cached version an update is made against (see CreationBase)
+function getBase(cached: Creation | null, updates: CreationUpdates): CreationBase {
+  if (!cached) return {};
+  return {
+    revision: updates.html !== undefined ? cached.revision : undefined,
+    name: updates.name !== undefined ? cached.name : undefined,
+    tags: updates.tags !== undefined ? cached.tags : undefined,
+    folderId: updates.folderId !== undefined ? cached.folderId : undefined,
+  };
+}
+
+/**
+ * Rename, tag or file a creation, or store its latest HTML, which the server appends as a revision
+ * described by `revision`. Returns the saved creation (null when the change was queued while offline);
+ * when a queued change is replayed, the server version wins if the same fields changed there since.
+ */
+export async function updateCreation(
+  userId: string,
+  creationId: string,
+  updates: CreationUpdates,
+  revision?: RevisionInfo
+): Promise<{ creation: Creation | null; error: any }> {
+  const cached = await quietly(getCachedCreation(userId, creationId), null);
+  if (cached) await quietly(putCachedCreations(userId, [{ ...cached, ...updates }]), undefined);
+
+  const operation: OutboxOperation = { type: 'update', creationId, updates, revision, base: getBase(cached, updates) };
+  const { response, error } = await sendOrQueue(userId, operation, () => sendOperation(userId, operation));
+  if (error || !response) return { creation: null, error };
+
+  if (!response.ok) {
+    return { creation: null, error: await readError(response, 'Failed to update creation') };
   }
+  const updated = toCreation(await response.json());
+  if (cached) {
+    await quietly(
+      putCachedCreations(userId, [{ ...cached, ...updates, updatedAt: updated.updatedAt, revision: updated.revision }]),
+      undefined,
+    );
+  }
+  return { creation: updated, error: null };
+}
+
+/**
+ * Delete a creation (queued while offline)
+ */
+export async function deleteCreation(userId: string, creationId: string): Promise<{ error: any }> {
+  await quietly(removeCachedCreations([creationId]), undefined);
+
+  const operation: OutboxOperation = { type: 'delete', creationId };
+  const { response, error } = await sendOrQueue(userId, operation, () => sendOperation(userId, operation));
+  if (error || !response) return { error };
+
+  // Already gone is fine
+  if (!response.ok && response.status !== 404) {
+    return { error: await readError(response, 'Failed to delete creation') };
+  }
+  return { error: null };
 }
 
+/**
+ * Mark a creation as purchased (queued while offline)
+ */
+export async function markCreationAsPurchased(userId: string, creationId: string): Promise<{ error: any }> {
+  const cached = await quietly(getCachedCreation(userId, creationId), null);
+  if (cached) await quietly(putCachedCreations(userId, [{ ...cached, purchased: true }]), undefined);
+
+  const operation: OutboxOperation = { type: 'purchase', creationId };
+  const { response, error } = await sendOrQueue(userId, operation, () => sendOperation(userId, operation));
+  if (error || !response) return { error };
+
+  if (!response.ok) {
+    return { error: await readError(response, 'Failed to mark as purchased') };
+  }
+  return { error: null };
+}
+
+// Replay one queued change; returns false to stop (still offline, or the session expired)
+async function replay(userId: string, entry: OutboxEntry, conflicts: Creation[]): Promise<boolean> {
+  let response: Response | null;
+  try {
+    response = await sendOperation(userId, entry, entry.type === 'update' ? entry.base : undefined);
+  } catch {
+    return false;
+  }
+  if (response?.status === 401) return false;
+
+  if (response?.status === 409 && entry.type === 'update') {
+    // The same fields changed elsewhere since this edit's base: the server version replaces the local one
+    const { creation } = await response.json();
+    const cached = await getCachedCreation(userId, entry.creationId);
+    const newer = { ...cached, ...toCreation(creation), partial: undefined };
+    await putCachedCreations(userId, [newer]);
+    conflicts.push(newer);
+  } else if (response && !response.ok && response.status !== 404) {
+    console.warn(`Dropped a queued ${entry.type} of creation ${entry.creationId}:`, await readError(response, String(response.status)));
+  } else if (response?.ok && (entry.type === 'save' || entry.type === 'update')) {
+    // The saved creation as the server has it now (revision, normalized name and tags...), with the
+    // changes still queued behind this one applied on top so they keep showing until they're sent
+    const saved = await response.json().catch(() => null);
+    const cached = await getCachedCreation(userId, entry.creationId);
+    if (saved?.id && cached) {
+      const pending = (await getOutbox(userId)).filter(
+        (queued) => queued.seq !== entry.seq && queued.creationId === entry.creationId,
+      );
+      let creation: Creation = { ...cached, ...toCreation(saved), partial: undefined };
+      for (const queued of pending) {
+        if (queued.type === 'update') creation = { ...creation, ...queued.updates };
+        if (queued.type === 'purchase') creation = { ...creation, purchased: true };
+      }
+      await putCachedCreations(userId, [creation]);
+    }
+  }
+
+  await removeOutboxEntry(entry.seq);
+  return true;
+}
+
+let syncing: Promise<{ conflicts: Creation[] }> | null = null;
+
+/**
+ * Send the changes queued while offline, oldest first. Returns the creations whose queued edits
+ * lost to changes of the same fields on the server (the cache now holds that version).
+ */
+export function syncCreations(userId: string): Promise<{ conflicts: Creation[] }> {
+  if (!syncing) {
+    syncing = (async () => {
+      const conflicts: Creation[] = [];
+      if (isOffline()) return { conflicts };
+      for (const entry of await quietly(getOutbox(userId), [])) {
+        if (!(await quietly(replay(userId, entry, conflicts), false))) break;
+      }
+      return { conflicts };
+    })().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from '../components/CreationHistory';
+import type { RevisionInfo } from './revisions-api';
+
+/**
+ * Offline copy of the creation archive in IndexedDB: the creations themselves (HTML and original
+ * images included, once fetched in full; see services/creations-api.ts) and an outbox of changes
+ * made while offline. The outbox is replayed in order
+ * by `syncCreations` (services/creations-api.ts).
+ */
+
+const DB_NAME = 'fanta_build';
+const DB_VERSION = 1;
+const CREATIONS_STORE = 'creations';
+const OUTBOX_STORE = 'outbox';
+
+/**
+ * A change waiting to be sent to the server
+ */
+export type OutboxOperation =
+  | { type: 'save'; creationId: string } // Sends the cached creation as it is when replayed
+  | { type: 'update'; creationId: string; updates: CreationUpdates; revision?: RevisionInfo; base: CreationBase }
+  | { type: 'delete'; creationId: string }
+  | { type: 'purchase'; creationId: string };
+
+export type OutboxEntry = OutboxOperation & {
+  seq: number; // Queue order
+  userId: string;
+};
+
+/**
+ * Fields of a creation that can be changed after it was saved
+ */
+export type CreationUpdates = Partial<Pick<Creation, 'name' | 'html' | 'tags' | 'folderId'>>;
+
+/**
+ * The version a queued update was made against: the latest revision (when it changes the HTML) and
+ * the values it saw of the other fields it changes. Replayed, it loses to changes of the same fields.
+ */
+export interface CreationBase {
+  revision?: number;
+  name?: string;
+  tags?: string[];
+  folderId?: string | null;
+}
+
+type CachedCreation = Creation & { userId: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(CREATIONS_STORE, { keyPath: 'id' }).createIndex('userId', 'userId');
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true }).createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow another attempt (e.g. after the user freed up storage)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Run `action` in one transaction; resolves with its last request's result once committed
+async function transaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function stripUser({ userId: _userId, ...creation }: CachedCreation): Creation {
+  return creation;
+}
+
+/**
+ * All cached creations of a user, newest first
+ */
+export async function getCachedCreations(userId: string): Promise<Creation[]> {
+  const records = await transaction<CachedCreation[]>(CREATIONS_STORE, 'readonly', (store) =>
+    store.index('userId').getAll(userId),
+  );
+  return (records || []).map(stripUser).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+export async function getCachedCreation(userId: string, creationId: string): Promise<Creation | null> {
+  const record = await transaction<CachedCreation>(CREATIONS_STORE, 'readonly', (store) => store.get(creationId));
+  return record?.userId === userId ? stripUser(record) : null;
+}
+
+export async function putCachedCreations(userId: string, creations: Creation[]): Promise<void> {
+  if (creations.length === 0) return;
+  await transaction(CREATIONS_STORE, 'readwrite', (store) => {
+    for (const creation of creations) store.put({ ...creation, userId });
+  });
+}
+
+export async function removeCachedCreations(creationIds: string[]): Promise<void> {
+  if (creationIds.length === 0) return;
+  await transaction(CREATIONS_STORE, 'readwrite', (store) => {
+    for (const id of creationIds) store.delete(id);
+  });
+}
+
+/**
+ * Queued changes of a user, oldest first
+ */
+export async function getOutbox(userId: string): Promise<OutboxEntry[]> {
+  const entries = await transaction<OutboxEntry[]>(OUTBOX_STORE, 'readonly', (store) => store.index('userId').getAll(userId));
+  return (entries || []).sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Queue a change. Changes to a creation whose save is still queued are folded into it
+ * (the save sends the cached copy), and repeated updates are merged against the earliest base.
+ */
+export async function enqueue(userId: string, operation: OutboxOperation): Promise<void> {
+  const queued = (await getOutbox(userId)).filter((entry) => entry.creationId === operation.creationId);
+  const queuedSave = queued.find((entry) => entry.type === 'save');
+  const queuedUpdate = queued.find((entry) => entry.type === 'update');
+
+  await transaction(OUTBOX_STORE, 'readwrite', (store) => {
+    if (operation.type === 'delete') {
+      // Nothing else about the creation needs sending, and never-saved ones need no delete
+      for (const entry of queued) store.delete(entry.seq);
+      if (!queuedSave) store.add({ ...operation, userId });
+      return;
+    }
+    if (operation.type === 'update' && queuedSave) return;
+    if (operation.type === 'update' && queuedUpdate?.type === 'update') {
+      store.put({
+        ...queuedUpdate,
+        updates: { ...queuedUpdate.updates, ...operation.updates },
+        revision: operation.revision || queuedUpdate.revision,
+        base: { ...operation.base, ...queuedUpdate.base },
+      });
+      return;
+    }
+    store.add({ ...operation, userId });
+  });
+}
+
+// Delete the records of a user from a store (by its userId index)
+function deleteUserRecords(store: IDBObjectStore, userId: string): void {
+  const request = store.index('userId').openKeyCursor(IDBKeyRange.only(userId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+}
+
+/**
+ * Remove everything stored for a user: cached creations and queued changes
+ */
+export async function removeUserData(userId: string): Promise<void> {
+  await transaction(CREATIONS_STORE, 'readwrite', (store) => deleteUserRecords(store, userId));
+  await transaction(OUTBOX_STORE, 'readwrite', (store) => deleteUserRecords(store, userId));
+}
+
+export async function removeOutboxEntry(seq: number): Promise<void> {
+  await transaction(OUTBOX_STORE, 'readwrite', (store) => {
+    store.delete(seq);
+  });
+}
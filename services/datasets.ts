@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Browser-side parsing of CSV / JSON data files. Parsed datasets are sent with a generation
+ * request; the server shows the model only their schema and a sample and embeds the full
+ * rows into the result as `window.FANTA_DATASETS` (see server/datasets.js).
+ */
+
+export type DatasetColumnType = 'number' | 'date' | 'boolean' | 'string';
+
+export interface DatasetColumn {
+  name: string;
+  type: DatasetColumnType;
+}
+
+export type DatasetRow = Record<string, string | number | boolean | null>;
+
+/**
+ * A parsed data file, as sent in the `datasets` of a generation request
+ */
+export interface Dataset {
+  name: string; // File name; the key in window.FANTA_DATASETS
+  label?: string;
+  columns: DatasetColumn[];
+  rows: DatasetRow[];
+}
+
+// File picker filter for data files (CSV is often reported as text/plain or an Excel type)
+export const DATASET_ACCEPT = '.csv,.json,text/csv,application/json';
+
+// Rows looked at when inferring column types
+const TYPE_SAMPLE_ROWS = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$|^\d{1,2}\/\d{1,2}\/\d{2,4}$/;
+
+/**
+ * Whether a selected file is a CSV / JSON data file
+ */
+export function isDataFile(file: File): boolean {
+  return /\.(csv|json)$/i.test(file.name) || file.type === 'text/csv' || file.type === 'application/json';
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields, escaped quotes, newlines inside quotes).
+ * The delimiter is a comma, or a semicolon / tab when the header uses one instead.
+ */
+function parseCsvRecords(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+function parseCsv(text: string): Record<string, unknown>[] {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const names = header.map((name, i) => name.trim() || `column_${i + 1}`);
+  return records.map((values) => Object.fromEntries(names.map((name, i) => [name, values[i] ?? ''])));
+}
+
+// Rows of a JSON document: an array of objects, or the first such array inside an object
+function parseJsonRows(text: string): Record<string, unknown>[] {
+  const data = JSON.parse(text);
+  const isRows = (value: unknown): value is Record<string, unknown>[] =>
+    Array.isArray(value) && value.length > 0 && value.every((row) => row && typeof row === 'object' && !Array.isArray(row));
+
+  if (isRows(data)) return data;
+  if (Array.isArray(data)) return data.map((value) => ({ value }));
+  const nested = data && typeof data === 'object' ? Object.values(data).find(isRows) : undefined;
+  if (nested) return nested;
+  throw new Error('The JSON file has no list of records');
+}
+
+function inferType(values: unknown[]): DatasetColumnType {
+  const present = values.filter((value) => value !== null && value !== undefined && value !== '');
+  if (present.length === 0) return 'string';
+  if (present.every((value) => typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))))) {
+    return 'number';
+  }
+  if (present.every((value) => typeof value === 'boolean' || /^(true|false)$/i.test(String(value)))) return 'boolean';
+  if (present.every((value) => typeof value === 'string' && DATE_PATTERN.test(value.trim()) && !Number.isNaN(Date.parse(value)))) {
+    return 'date';
+  }
+  return 'string';
+}
+
+function toValue(value: unknown, type: DatasetColumnType): string | number | boolean | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (type === 'number') return Number(value);
+  if (type === 'boolean') return typeof value === 'boolean' ? value : /^true$/i.test(String(value));
+  // Nested objects / arrays are kept as JSON text
+  return typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+}
+
+function toDataset(name: string, records: Record<string, unknown>[]): Dataset {
+  const names: string[] = [];
+  for (const record of records.slice(0, TYPE_SAMPLE_ROWS)) {
+    for (const key of Object.keys(record)) if (!names.includes(key)) names.push(key);
+  }
+
+  const sample = records.slice(0, TYPE_SAMPLE_ROWS);
+  const columns = names.map((column) => ({ name: column, type: inferType(sample.map((record) => record[column])) }));
+  const rows = records.map((record) =>
+    Object.fromEntries(columns.map(({ name: column, type }) => [column, toValue(record[column], type)])),
+  );
+  return { name, columns, rows };
+}
+
+// Parsed datasets per file, so the summary and the upload don't parse a file twice
+const parsedCache = new WeakMap<File, Promise<Dataset>>();
+
+/**
+ * Parse a CSV / JSON file into a dataset (column types are inferred)
+ */
+export function parseDatasetFile(file: File): Promise<Dataset> {
+  let parsed = parsedCache.get(file);
+  if (!parsed) {
+    parsed = file.text().then((text) => {
+      const records = /\.json$/i.test(file.name) || file.type === 'application/json' ? parseJsonRows(text) : parseCsv(text);
+      if (records.length === 0) throw new Error(`${file.name} has no rows`);
+      return toDataset(file.name, records);
+    });
+    parsed.catch(() => parsedCache.delete(file));
+    parsedCache.set(file, parsed);
+  }
+  return parsed;
+}
+
+/**
+ * Bytes a dataset adds to the request body (JSON text)
+ */
+export function datasetSize(dataset: Dataset): number {
+  return JSON.stringify(dataset).length;
+}
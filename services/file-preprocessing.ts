@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Browser-side preparation of source files before upload:
+ * large images are downscaled and recompressed (upright, per their EXIF orientation),
+ * optionally cropped, and selected PDF pages are rasterised to images.
+ * HTML pages (remix input) are sent as they are.
+ */
+
+/**
+ * Crop rectangle as fractions (0..1) of the upright image
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  crop?: CropRect; // Images only
+  pages?: number[]; // PDFs only: 1-based pages to rasterise (the whole PDF is sent when unset)
+}
+
+/**
+ * A file ready to be sent with a generation request
+ */
+export interface PreparedFile {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+  name: string;
+  page?: number; // Source page of a rasterised PDF page
+}
+
+// Longest edge of uploaded images; larger images are scaled down
+export const MAX_IMAGE_DIMENSION = 2048;
+// Images above this size are recompressed even when they are small enough in pixels
+const RECOMPRESS_THRESHOLD_BYTES = 1024 * 1024;
+const JPEG_QUALITY = 0.85;
+// Request body limit (express.json in server.js is 10mb), with room for the prompt and JSON
+export const MAX_PAYLOAD_BYTES = 9.5 * 1024 * 1024;
+
+// File picker filter for HTML pages to remix
+export const HTML_ACCEPT = '.html,.htm,text/html';
+const HTML_MIME_TYPE = 'text/html';
+
+// Formats the canvas can't re-encode without losing something (animation / vectors)
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+function readAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result.split(',')[1]);
+      } else {
+        reject(new Error('Failed to convert file to base64'));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      JPEG_QUALITY,
+    );
+  });
+}
+
+// Scale (width, height) down so the longest edge fits MAX_IMAGE_DIMENSION
+function fitWithin(width: number, height: number) {
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+function replaceExtension(name: string, mimeType: string) {
+  const extension = mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1];
+  return `${name.replace(/\.[^.]+$/, '')}.${extension}`;
+}
+
+/**
+ * Downscale, crop and recompress an image. `createImageBitmap` with `imageOrientation: 'from-image'`
+ * applies the EXIF orientation, and re-encoding drops the tag, so the result is stored upright.
+ */
+async function prepareImage(file: File, crop?: CropRect): Promise<PreparedFile> {
+  const type = file.type.toLowerCase();
+  if (PASSTHROUGH_TYPES.includes(type)) {
+    return { data: await readAsBase64(file), mimeType: type, name: file.name };
+  }
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const source = crop
+      ? {
+          x: Math.round(crop.x * bitmap.width),
+          y: Math.round(crop.y * bitmap.height),
+          width: Math.max(1, Math.round(crop.width * bitmap.width)),
+          height: Math.max(1, Math.round(crop.height * bitmap.height)),
+        }
+      : { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    const target = fitWithin(source.width, source.height);
+
+    // Small enough already: keep the original bytes (JPEGs are still re-encoded to bake in the orientation)
+    const untouched = !crop &&
+      target.width === source.width &&
+      file.size <= RECOMPRESS_THRESHOLD_BYTES &&
+      type !== 'image/jpeg';
+    if (untouched) {
+      return { data: await readAsBase64(file), mimeType: type, name: file.name };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = target.width;
+    canvas.height = target.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.drawImage(bitmap, source.x, source.y, source.width, source.height, 0, 0, target.width, target.height);
+
+    // JPEG for photos; WebP keeps transparency for PNG / WebP sources (browsers without a WebP encoder return PNG)
+    const blob = await canvasToBlob(canvas, type === 'image/jpeg' ? 'image/jpeg' : 'image/webp');
+    // Recompressing a small, already efficient image can make it bigger
+    if (!crop && target.width === source.width && blob.size >= file.size) {
+      return { data: await readAsBase64(file), mimeType: type, name: file.name };
+    }
+    return { data: await readAsBase64(blob), mimeType: blob.type, name: replaceExtension(file.name, blob.type) };
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function loadPdf(file: File) {
+  if (!window.pdfjsLib) throw new Error('PDF support is not loaded');
+  return window.pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+}
+
+/**
+ * Number of pages in a PDF
+ */
+export async function getPdfPageCount(file: File): Promise<number> {
+  const pdf = await loadPdf(file);
+  try {
+    return pdf.numPages;
+  } finally {
+    pdf.destroy();
+  }
+}
+
+/**
+ * Render PDF pages to JPEG images (longest edge MAX_IMAGE_DIMENSION)
+ */
+async function rasterizePdf(file: File, pages: number[]): Promise<PreparedFile[]> {
+  const pdf = await loadPdf(file);
+  try {
+    const results: PreparedFile[] = [];
+    for (const pageNumber of pages) {
+      if (pageNumber < 1 || pageNumber > pdf.numPages) continue;
+      const page = await pdf.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: MAX_IMAGE_DIMENSION / Math.max(width, height) });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not available');
+      // PDFs have no background; JPEG would turn transparent areas black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      const blob = await canvasToBlob(canvas, 'image/jpeg');
+      results.push({
+        data: await readAsBase64(blob),
+        mimeType: 'image/jpeg',
+        name: `${file.name.replace(/\.pdf$/i, '')} (page ${pageNumber}).jpg`,
+        page: pageNumber,
+      });
+    }
+    return results;
+  } finally {
+    pdf.destroy();
+  }
+}
+
+// Results per file and options, so the size preview and the upload don't process a file twice
+const preparedCache = new WeakMap<File, Map<string, Promise<PreparedFile[]>>>();
+
+/**
+ * Whether a selected file is an HTML page (.htm files often have no type)
+ */
+export function isHtmlFile(file: File): boolean {
+  return file.type === HTML_MIME_TYPE || /\.html?$/i.test(file.name);
+}
+
+/**
+ * The page in an HTML source's data URL (UTF-8)
+ */
+export function decodeHtmlDataUrl(dataUrl: string): string {
+  const bytes = Uint8Array.from(atob(dataUrl.split(',')[1] || ''), (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Prepare a selected file for upload. PDFs with selected pages become one image per page.
+ */
+export function prepareFile(file: File, options: PreprocessOptions = {}): Promise<PreparedFile[]> {
+  const key = JSON.stringify([options.crop ?? null, options.pages ?? null]);
+  let byOptions = preparedCache.get(file);
+  if (!byOptions) {
+    byOptions = new Map();
+    preparedCache.set(file, byOptions);
+  }
+
+  let prepared = byOptions.get(key);
+  if (!prepared) {
+    const type = file.type.toLowerCase();
+    prepared = isHtmlFile(file)
+      ? readAsBase64(file).then((data) => [{ data, mimeType: HTML_MIME_TYPE, name: file.name }])
+      : type === 'application/pdf'
+      ? options.pages?.length
+        ? rasterizePdf(file, options.pages)
+        : readAsBase64(file).then((data) => [{ data, mimeType: type, name: file.name }])
+      : prepareImage(file, options.crop).then((image) => [image]);
+    // Don't keep failures around, so a retry processes the file again
+    prepared.catch(() => byOptions?.delete(key));
+    byOptions.set(key, prepared);
+  }
+  return prepared;
+}
+
+/**
+ * Bytes the prepared files add to the request body (base64 text)
+ */
+export function payloadSize(files: PreparedFile[]): number {
+  return files.reduce((total, file) => total + file.data.length, 0);
+}
+
+/**
+ * Parse a page selection like "1-3, 5" (1-based, sorted, without duplicates)
+ */
+export function parsePageRange(text: string, pageCount: number): number[] {
+  const pages = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) continue;
+    const start = Number(match[1]);
+    const end = Number(match[2] ?? match[1]);
+    for (let page = Math.max(1, start); page <= Math.min(end, pageCount); page++) pages.add(page);
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+/**
+ * Human-readable byte size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
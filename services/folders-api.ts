@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getAuthToken } from './auth-api';
+
+import { API_BASE_URL } from '../config/api';
+
+/**
+ * A folder in the user's archive. Each creation is in at most one (Creation.folderId).
+ */
+export interface CreationFolder {
+  id: string;
+  name: string;
+  creationCount: number;
+  createdAt: string;
+}
+
+// Keep in sync with MAX_FOLDER_NAME_LENGTH in server.js
+export const MAX_FOLDER_NAME_LENGTH = 60;
+
+/**
+ * Fetch the current user's folders, by name
+ */
+export async function fetchFolders(): Promise<{ folders: CreationFolder[]; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/folders`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      return { folders: [], error: 'Failed to fetch folders' };
+    }
+
+    const data = await response.json();
+    return { folders: data.folders || [], error: null };
+  } catch (error: any) {
+    return { folders: [], error: error.message };
+  }
+}
+
+/**
+ * Create a folder, or rename an existing one when `id` is given
+ */
+export async function saveFolder(
+  name: string,
+  id?: string
+): Promise<{ folder: CreationFolder | null; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/folders${id ? `/${id}` : ''}`, {
+      method: id ? 'PATCH' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+      body: JSON.stringify({ name }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      return { folder: null, error: error.error || 'Failed to save folder' };
+    }
+
+    const data = await response.json();
+    return { folder: data.folder, error: null };
+  } catch (error: any) {
+    return { folder: null, error: error.message };
+  }
+}
+
+/**
+ * Delete a folder (its creations become unfiled)
+ */
+export async function deleteFolder(id: string): Promise<{ error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/folders/${id}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      return { error: 'Failed to delete folder' };
+    }
+
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}
@@ -2,21 +2,481 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-export type GenerationMode = 'web' | 'mobile' | 'social' | 'logo' | 'video';
+export type GenerationMode = 'web' | 'mobile' | 'social' | 'logo' | 'video' | 'slides' | 'email' | 'dashboard';
 
 import { API_BASE_URL } from '../config/api';
+import { GenerationError, generationErrorFromPayload } from './generation-errors';
+import { Dataset } from './datasets';
+
+/**
+ * A source file sent with a generation request (sent to the model in order)
+ */
+export interface GenerationFile {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+  label?: string; // Optional user label, e.g. "Home screen" or "Style reference"
+  name?: string; // Original file name (kept on server-side jobs)
+}
+
+export type HtmlWarningCode =
+  | 'extra_text'
+  | 'missing_doctype'
+  | 'missing_html'
+  | 'missing_body'
+  | 'truncated'
+  | 'unclosed_tags'
+  // Email mode: email client compatibility (not fixable by `repairHtml`)
+  | 'email_unsupported_css'
+  | 'email_style_block'
+  | 'email_scripts'
+  | 'email_size';
+
+/**
+ * A problem the server found in generated HTML. Structural ones are fixable with `repairHtml`.
+ */
+export interface HtmlWarning {
+  code: HtmlWarningCode;
+  message: string;
+}
+
+/**
+ * A prompt template or brand kit a generation used
+ */
+export interface GenerationReference {
+  id: string;
+  name?: string;
+}
+
+/**
+ * How a result was generated, recorded by the server so it can be reproduced or audited
+ */
+export interface GenerationProvenance {
+  prompt: string;
+  mode: GenerationMode;
+  provider: string; // e.g. 'gemini' or 'mock'
+  model?: string; // Model that answered
+  settings: {
+    model: string; // Configured model
+    fallbackModel: string | null;
+    usedFallback: boolean;
+    retries: number; // Extra attempts after overload errors
+  };
+  durationMs: number;
+  tokens: { input: number; output: number; total: number } | null; // When the provider reports usage
+  brandKit: GenerationReference | null;
+  template: GenerationReference | null;
+  files: { name?: string; mimeType: string; label?: string }[];
+  datasets: { name: string; rows: number }[];
+  generatedAt: string; // ISO timestamp
+  variant?: number; // 1-based, for variants
+  variantCount?: number;
+  userId?: string; // Results reused from the cache: who asked for this copy
+  cached?: boolean; // Reused from an identical earlier request (`generatedAt` is when it was reused)
+  cachedAt?: string; // When the reused result was originally generated
+  signature?: string; // Server signature, checked when the creation is saved (absent once saved)
+}
+
+/**
+ * A generated document and the problems found in it
+ */
+export interface GeneratedHtml {
+  html: string;
+  warnings: HtmlWarning[];
+  model?: string; // Model that produced it (the fallback model when the primary one was overloaded)
+  provenance?: GenerationProvenance;
+  cached?: boolean; // Reused from an identical recent request (not counted toward daily usage)
+  cachedAt?: string; // When the reused result was generated
+}
+
+// A `done` event / response body as a GeneratedHtml
+function toGeneratedHtml(payload: any): GeneratedHtml {
+  return {
+    html: payload.html,
+    warnings: payload.warnings || [],
+    model: payload.model,
+    provenance: payload.provenance,
+    cached: payload.cached,
+    cachedAt: payload.cachedAt,
+  };
+}
+
+/**
+ * Called with the partial HTML document each time a streamed chunk arrives
+ */
+export type GenerationProgressHandler = (partialHtml: string) => void;
+
+/**
+ * Build a GenerationError from a failed generation response
+ */
+async function readGenerationError(response: Response): Promise<GenerationError> {
+  // Try to parse JSON error, but handle HTML responses (e.g. a proxy error page)
+  const contentType = response.headers.get('content-type');
+  if (!contentType || !contentType.includes('application/json')) {
+    const text = await response.text();
+    return generationErrorFromPayload(
+      { error: `Server error (${response.status}): ${text.substring(0, 200)}` },
+      response.status
+    );
+  }
+
+  return generationErrorFromPayload(await response.json(), response.status);
+}
+
+/**
+ * Remove a leading markdown fence from partial model output so it renders as HTML
+ */
+function stripCodeFence(text: string): string {
+  return text.replace(/^\s*```(?:html)?\s*/i, '').replace(/```\s*$/, '');
+}
+
+/**
+ * Read a generation event stream (`chunk`, `done` and `error` events).
+ * Resolves with the final HTML, or null if the stream ended without a result;
+ * `received` tells whether any chunk arrived before that.
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onProgress?: GenerationProgressHandler
+): Promise<{ result: GeneratedHtml | null; received: boolean }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE messages are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      let data = '';
+      for (const line of message.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'chunk') {
+        text += payload.text;
+        onProgress?.(stripCodeFence(text));
+      } else if (event === 'done') {
+        reader.cancel().catch(() => {});
+        return { result: toGeneratedHtml(payload), received: true };
+      } else if (event === 'error') {
+        reader.cancel().catch(() => {});
+        throw generationErrorFromPayload(payload);
+      }
+    }
+  }
+
+  return { result: null, received: text.length > 0 };
+}
+
+/**
+ * Stream a generation over Server-Sent Events (backends without the job API).
+ * Resolves to null when streaming isn't available so the caller can fall back.
+ */
+async function streamGeneration(
+  body: string,
+  token: string,
+  onProgress: GenerationProgressHandler,
+  signal?: AbortSignal
+): Promise<GeneratedHtml | null> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/api/generate/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+      body,
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Streaming request failed:', error);
+    return null;
+  }
+
+  // Older backends don't have the streaming route
+  if ([404, 405, 501].includes(response.status)) return null;
+  if (!response.ok) throw await readGenerationError(response);
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('text/event-stream') || !response.body) return null;
+
+  const { result, received } = await readEventStream(response.body, onProgress);
+  if (result !== null) return result;
+
+  // Stream closed early: retry one-shot only if nothing was received yet
+  if (!received) return null;
+  throw new GenerationError('unknown', 'Connection lost while streaming the result. Please try again.');
+}
+
+/**
+ * Ask the backend to abort an in-flight generation so it isn't counted
+ */
+function cancelGeneration(requestId: string, token: string) {
+  fetch(`${API_BASE_URL}/api/generate/cancel`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+    body: JSON.stringify({ requestId }),
+  }).catch((error) => console.warn('Failed to cancel generation on server:', error));
+}
+
+/**
+ * Check whether an error comes from an aborted (cancelled) request
+ */
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError';
+}
+
+export type GenerationJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A server-side generation job (survives page reloads)
+ */
+export interface GenerationJob {
+  id: string;
+  status: GenerationJobStatus;
+  mode: GenerationMode;
+  prompt: string;
+  fileNames: string[];
+  error: any;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// How often to poll a job when its event stream isn't available
+const JOB_POLL_INTERVAL = 2000;
+// Consecutive network failures tolerated while polling
+const JOB_POLL_MAX_FAILURES = 5;
+
+function getToken(): string {
+  const token = localStorage.getItem('fanta_build_token');
+  if (!token) {
+    throw new GenerationError('auth_expired', 'Authentication token not found. Please sign in again.');
+  }
+  return token;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/**
+ * Create a generation job. Resolves to null when the backend has no job API.
+ * An identical recent request is answered right away: `job` is null and `result` holds the cached result.
+ */
+async function createJob(
+  body: string,
+  token: string
+): Promise<{ job: GenerationJob | null; result?: GeneratedHtml } | null> {
+  const response = await fetch(`${API_BASE_URL}/api/jobs`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+    body,
+  });
+
+  if ([404, 405, 501].includes(response.status)) return null;
+  if (!response.ok) throw await readGenerationError(response);
+
+  const data = await response.json();
+  return { job: data.job, result: data.result ? toGeneratedHtml(data.result) : undefined };
+}
+
+async function fetchJob(jobId: string, token: string, signal?: AbortSignal): Promise<GenerationJob> {
+  const response = await fetch(`${API_BASE_URL}/api/jobs/${jobId}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+    credentials: 'include',
+    signal,
+  });
+  if (!response.ok) throw await readGenerationError(response);
+
+  const data = await response.json();
+  return data.job;
+}
+
+async function fetchJobResult(jobId: string, token: string, signal?: AbortSignal): Promise<GeneratedHtml> {
+  const response = await fetch(`${API_BASE_URL}/api/jobs/${jobId}/result`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+    credentials: 'include',
+    signal,
+  });
+  if (!response.ok) throw await readGenerationError(response);
+
+  const data = await response.json();
+  return toGeneratedHtml(data);
+}
+
+/**
+ * Ask the backend to abort a running job so it isn't counted
+ */
+function cancelJob(jobId: string, token: string) {
+  fetch(`${API_BASE_URL}/api/jobs/${jobId}/cancel`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+    credentials: 'include',
+  }).catch((error) => console.warn('Failed to cancel job on server:', error));
+}
+
+/**
+ * Follow a job's event stream. Resolves to null if the stream is unavailable
+ * or drops before the result arrives, so the caller can fall back to polling.
+ */
+async function subscribeToJob(
+  jobId: string,
+  token: string,
+  onProgress: GenerationProgressHandler,
+  signal?: AbortSignal
+): Promise<GeneratedHtml | null> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/jobs/${jobId}/events`, {
+      headers: {
+        'Accept': 'text/event-stream',
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+      signal,
+    });
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.includes('text/event-stream') || !response.body) return null;
+
+    const { result } = await readEventStream(response.body, onProgress);
+    return result;
+  } catch (error) {
+    // Generation errors and cancellation are final; connection problems fall back to polling
+    if (signal?.aborted || !(error instanceof TypeError)) throw error;
+    console.warn('Job event stream dropped, polling instead:', error);
+    return null;
+  }
+}
+
+/**
+ * Poll a job until it finishes and return its HTML
+ */
+async function pollJob(jobId: string, token: string, signal?: AbortSignal): Promise<GeneratedHtml> {
+  let failures = 0;
+
+  while (true) {
+    let job: GenerationJob;
+    try {
+      job = await fetchJob(jobId, token, signal);
+      failures = 0;
+    } catch (error) {
+      // Retry transient network errors (e.g. a proxy timeout or flaky connection)
+      if (signal?.aborted || !(error instanceof TypeError) || ++failures >= JOB_POLL_MAX_FAILURES) throw error;
+      await wait(JOB_POLL_INTERVAL, signal);
+      continue;
+    }
+
+    if (job.status === 'completed') return fetchJobResult(jobId, token, signal);
+    if (job.status === 'failed') throw generationErrorFromPayload(job.error || {});
+    if (job.status === 'cancelled') throw new GenerationError('cancelled', 'Generation was cancelled.');
+
+    await wait(JOB_POLL_INTERVAL, signal);
+  }
+}
+
+/**
+ * Wait for a job's result, streaming partial HTML when `onProgress` is given
+ */
+async function waitForJob(
+  jobId: string,
+  token: string,
+  onProgress?: GenerationProgressHandler,
+  signal?: AbortSignal
+): Promise<GeneratedHtml> {
+  signal?.addEventListener('abort', () => cancelJob(jobId, token), { once: true });
+
+  if (onProgress) {
+    const result = await subscribeToJob(jobId, token, onProgress, signal);
+    if (result !== null) return result;
+  }
+  return pollJob(jobId, token, signal);
+}
+
+/**
+ * Jobs to re-attach to after a reload: still running, or finished but not yet delivered
+ */
+export async function fetchPendingJobs(): Promise<GenerationJob[]> {
+  const token = getToken();
+  const response = await fetch(`${API_BASE_URL}/api/jobs/pending`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+    credentials: 'include',
+  });
+
+  // Older backends don't have the job API
+  if (response.status === 404) return [];
+  if (!response.ok) throw await readGenerationError(response);
+
+  const data = await response.json();
+  return data.jobs || [];
+}
+
+/**
+ * Re-attach to an existing job (e.g. after a reload) and wait for its HTML
+ */
+export async function resumeGeneration(
+  jobId: string,
+  onProgress?: GenerationProgressHandler,
+  signal?: AbortSignal
+): Promise<GeneratedHtml> {
+  return waitForJob(jobId, getToken(), onProgress, signal);
+}
 
 /**
  * Generate content using Gemini AI via backend API
- * This ensures the API key is secure on the server
+ * This ensures the API key is secure on the server.
+ * Runs as a server-side job that survives reloads and proxy timeouts; falls back
+ * to the direct endpoints on backends without the job API.
+ * Pass `onProgress` to stream partial HTML. Aborting `signal` cancels the
+ * request client- and server-side; the rejection is an AbortError. Other failures
+ * are thrown as a GenerationError (see services/generation-errors.ts).
+ * `brandKitId` applies one of the user's brand kits (palette, fonts, logo, voice).
+ * An identical request within the server's cache window returns the previous result
+ * (`cached: true`); pass `regenerate` to always call the model.
+ * `datasets` are parsed CSV / JSON files: the model sees a sample, the result embeds all rows.
+ * `template` is the prompt template the prompt was filled from (recorded in the provenance).
  */
 export async function bringToLife(
   prompt: string,
-  fileBase64?: string,
-  mimeType?: string,
+  files: GenerationFile[] = [],
   mode: GenerationMode = 'web',
-  userId?: string
-): Promise<string> {
+  userId?: string,
+  onProgress?: GenerationProgressHandler,
+  signal?: AbortSignal,
+  brandKitId: string | null = null,
+  regenerate = false,
+  datasets: Dataset[] = [],
+  template: GenerationReference | null = null
+): Promise<GeneratedHtml> {
   if (!userId) {
     throw new Error('User ID is required for generation');
   }
@@ -25,10 +485,53 @@ export async function bringToLife(
     const token = localStorage.getItem('fanta_build_token');
     if (!token) {
       console.error('No token found in localStorage');
-      throw new Error('Authentication token not found. Please sign in again.');
+      throw new GenerationError('auth_expired', 'Authentication token not found. Please sign in again.');
     }
     
     console.log('Making generation request with token:', token.substring(0, 20) + '...');
+
+    const requestId = crypto.randomUUID();
+    const body = JSON.stringify({
+      prompt,
+      files,
+      datasets,
+      mode,
+      brandKitId,
+      template,
+      requestId,
+      regenerate,
+    });
+
+    // Until the job's id is known, a cancel reaches it by request id. The create request itself
+    // isn't aborted, so a job created anyway is cancelled by id as soon as its id arrives.
+    const cancelRequest = () => cancelGeneration(requestId, token);
+    signal?.addEventListener('abort', cancelRequest, { once: true });
+
+    let created: Awaited<ReturnType<typeof createJob>>;
+    try {
+      created = await createJob(body, token);
+    } catch (error) {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      throw error;
+    }
+    if (created?.job) {
+      signal?.removeEventListener('abort', cancelRequest);
+      if (signal?.aborted) {
+        cancelJob(created.job.id, token);
+        throw new DOMException('Aborted', 'AbortError');
+      }
+      return await waitForJob(created.job.id, token, onProgress, signal);
+    }
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    if (created?.result) return created.result;
+
+    // Older backends: direct streaming / one-shot endpoints
+
+    if (onProgress) {
+      const result = await streamGeneration(body, token, onProgress, signal);
+      if (result !== null) return result;
+      console.warn('Streaming unavailable, falling back to one-shot generation');
+    }
     
     const response = await fetch(`${API_BASE_URL}/api/generate`, {
       method: 'POST',
@@ -37,56 +540,220 @@ export async function bringToLife(
         'Authorization': `Bearer ${token}`,
       },
       credentials: 'include',
-      body: JSON.stringify({
-        prompt,
-        fileBase64,
-        mimeType,
-        mode,
-      }),
+      body,
+      signal,
     });
 
     if (!response.ok) {
-      // Try to parse JSON error, but handle HTML responses
-      let error;
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        error = await response.json();
-      } else {
-        // If response is HTML (error page), get text instead
-        const text = await response.text();
-        throw new Error(`Server error (${response.status}): ${text.substring(0, 200)}`);
-      }
-      
-      // Handle user daily limit (429 from our backend)
-      if (response.status === 429 && error.type !== 'quota_exceeded') {
-        throw new Error(
-          error.isPro
-            ? "You've reached the daily limit of 20 generations to ensure fair system performance."
-            : "You've reached your free limit of 3 generations for today. Subscribe to Pro for more!"
-        );
-      }
-      
-      // Handle Gemini API quota exceeded (503 from our backend)
-      if (response.status === 503 && error.type === 'quota_exceeded') {
-        throw new Error(
-          'AI Service Quota Exceeded: The Gemini API quota has been exceeded. Please check your Google Cloud billing and quota limits. The service will be available again once the quota resets or is increased.'
-        );
-      }
-      
-      throw new Error(error.message || error.error || 'Failed to generate content');
+      throw await readGenerationError(response);
     }
 
     // Parse JSON response
     const contentType = response.headers.get('content-type');
     if (!contentType || !contentType.includes('application/json')) {
-      const text = await response.text();
       throw new Error(`Invalid response format: Expected JSON but got ${contentType || 'unknown'}`);
     }
 
     const data = await response.json();
-    return data.html;
+    return toGeneratedHtml(data);
   } catch (error: any) {
-    console.error('Generation error:', error);
+    if (!isAbortError(error)) {
+      console.error('Generation error:', error);
+    }
     throw error;
   }
 }
+
+/**
+ * Generate `count` variants of the same request in parallel.
+ * Each variant counts as one generation toward the daily limit.
+ */
+export async function generateVariants(
+  prompt: string,
+  files: GenerationFile[] = [],
+  mode: GenerationMode = 'web',
+  count: number,
+  userId?: string,
+  signal?: AbortSignal,
+  brandKitId: string | null = null,
+  datasets: Dataset[] = [],
+  template: GenerationReference | null = null
+): Promise<GeneratedHtml[]> {
+  if (!userId) {
+    throw new Error('User ID is required for generation');
+  }
+
+  const token = localStorage.getItem('fanta_build_token');
+  if (!token) {
+    throw new GenerationError('auth_expired', 'Authentication token not found. Please sign in again.');
+  }
+
+  const requestId = crypto.randomUUID();
+  signal?.addEventListener('abort', () => cancelGeneration(requestId, token), { once: true });
+
+  const response = await fetch(`${API_BASE_URL}/api/generate/variants`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+    body: JSON.stringify({ prompt, files, datasets, mode, count, brandKitId, template, requestId }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await readGenerationError(response);
+  }
+
+  const data = await response.json();
+  if (data.failed > 0) {
+    console.warn(`${data.failed} of ${count} variants failed to generate`);
+  }
+  return data.variants.map((html: string, i: number) => ({
+    html,
+    warnings: data.warnings?.[i] || [],
+    model: data.models?.[i],
+    provenance: data.provenance?.[i],
+  }));
+}
+
+/**
+ * Refine an existing creation with a follow-up instruction.
+ * `turns` are the earlier refinement instructions, sent for context.
+ */
+export async function refineCreation(
+  html: string,
+  instruction: string,
+  mode: GenerationMode = 'web',
+  turns: { instruction: string }[] = [],
+  userId?: string
+): Promise<GeneratedHtml> {
+  if (!userId) {
+    throw new Error('User ID is required for refinement');
+  }
+
+  const token = localStorage.getItem('fanta_build_token');
+  if (!token) {
+    throw new GenerationError('auth_expired', 'Authentication token not found. Please sign in again.');
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/refine`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+    body: JSON.stringify({
+      html,
+      instruction,
+      mode,
+      history: turns.map((turn) => ({ instruction: turn.instruction })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw await readGenerationError(response);
+  }
+
+  const data = await response.json();
+  return { html: data.html, warnings: data.warnings || [], model: data.model };
+}
+
+/**
+ * Whether `repairHtml` can fix a warning
+ */
+export function isRepairable(warning: HtmlWarning): boolean {
+  return !warning.code.startsWith('email_');
+}
+
+/**
+ * Repair a generated document's structure on the server (close dangling tags,
+ * add missing wrappers). Doesn't call the model and doesn't count as usage.
+ * `mode` keeps the mode's own checks (email compatibility) in the returned warnings.
+ */
+export async function repairHtml(html: string, mode: GenerationMode = 'web'): Promise<GeneratedHtml> {
+  const token = localStorage.getItem('fanta_build_token');
+  if (!token) {
+    throw new GenerationError('auth_expired', 'Authentication token not found. Please sign in again.');
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/repair`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+    body: JSON.stringify({ html, mode }),
+  });
+
+  if (!response.ok) {
+    throw await readGenerationError(response);
+  }
+
+  const data = await response.json();
+  return { html: data.html, warnings: data.warnings || [] };
+}
+
+/**
+ * Check a document changed on the client (e.g. a patched element) for the warnings of its mode.
+ * Doesn't change the document and doesn't count as usage.
+ */
+export async function analyzeHtml(html: string, mode: GenerationMode = 'web'): Promise<HtmlWarning[]> {
+  const token = localStorage.getItem('fanta_build_token');
+  if (!token) {
+    throw new GenerationError('auth_expired', 'Authentication token not found. Please sign in again.');
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/analyze`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+    body: JSON.stringify({ html, mode }),
+  });
+
+  if (!response.ok) {
+    throw await readGenerationError(response);
+  }
+
+  const data = await response.json();
+  return data.warnings || [];
+}
+
+/**
+ * Rewrite a single element of a creation (click-to-edit). Returns the element's new HTML only;
+ * patch it into the document with `patchFragment` (services/inspector.ts). Counts as usage.
+ */
+export async function refineFragment(
+  fragment: string,
+  instruction: string,
+  selector: string,
+  mode: GenerationMode = 'web',
+): Promise<{ fragment: string; model?: string }> {
+  const token = localStorage.getItem('fanta_build_token');
+  if (!token) {
+    throw new GenerationError('auth_expired', 'Authentication token not found. Please sign in again.');
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/refine/fragment`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+    body: JSON.stringify({ fragment, instruction, selector, mode }),
+  });
+
+  if (!response.ok) {
+    throw await readGenerationError(response);
+  }
+
+  const data = await response.json();
+  return { fragment: data.fragment, model: data.model };
+}
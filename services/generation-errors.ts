@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Why a generation failed. Kept in sync with GENERATION_ERRORS in server/generation-errors.js
+ */
+export type GenerationErrorType =
+  | 'auth_expired' // Session token missing or expired: sign in again
+  | 'daily_limit' // The user's daily generation limit is used up
+  | 'provider_quota' // The AI provider's quota is exhausted (not the user's fault)
+  | 'safety_block' // The prompt or output was blocked by the provider's safety filters
+  | 'timeout' // The generation took too long and was stopped
+  | 'malformed_output' // The model returned nothing usable
+  | 'cancelled'
+  | 'unknown';
+
+export interface GenerationErrorDetails {
+  isPro?: boolean; // daily_limit
+  remaining?: number; // daily_limit: generations left today
+  requested?: number; // daily_limit: generations the request needed (variants)
+  reason?: string; // safety_block: provider block / finish reason
+  message?: string; // Raw provider or server detail
+}
+
+const GENERATION_ERROR_TYPES: GenerationErrorType[] = [
+  'auth_expired',
+  'daily_limit',
+  'provider_quota',
+  'safety_block',
+  'timeout',
+  'malformed_output',
+  'cancelled',
+  'unknown',
+];
+
+/**
+ * A typed generation failure, thrown by the generation calls in services/gemini.ts
+ */
+export class GenerationError extends Error {
+  type: GenerationErrorType;
+  details: GenerationErrorDetails;
+
+  constructor(type: GenerationErrorType, message: string, details: GenerationErrorDetails = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.type = type;
+    this.details = details;
+  }
+}
+
+// Error type implied by an HTTP status when the body doesn't carry one
+function typeFromStatus(status?: number): GenerationErrorType {
+  switch (status) {
+    case 401:
+      return 'auth_expired';
+    case 429:
+      return 'daily_limit';
+    case 504:
+      return 'timeout';
+    default:
+      return 'unknown';
+  }
+}
+
+function dailyLimitMessage({ isPro, remaining, requested }: GenerationErrorDetails): string {
+  if (requested && requested > 1 && remaining) {
+    return `Only ${remaining} generation${remaining === 1 ? '' : 's'} left today, not enough for ${requested} variants.`;
+  }
+  return isPro
+    ? "You've reached the daily limit of 20 generations to ensure fair system performance."
+    : "You've reached your free limit of 3 generations for today. Subscribe to Pro for more!";
+}
+
+/**
+ * Build a GenerationError from a server error payload (HTTP body, SSE `error` event or failed job)
+ */
+export function generationErrorFromPayload(payload: any, status?: number): GenerationError {
+  const type: GenerationErrorType = GENERATION_ERROR_TYPES.includes(payload?.type)
+    ? payload.type
+    : typeFromStatus(status);
+  const details: GenerationErrorDetails = {
+    isPro: payload?.isPro,
+    remaining: payload?.remaining,
+    requested: payload?.requested,
+    reason: payload?.reason,
+    message: payload?.message,
+  };
+
+  const message = type === 'daily_limit'
+    ? dailyLimitMessage(details)
+    : payload?.error || payload?.message || 'Failed to generate content';
+  return new GenerationError(type, message, details);
+}
+
+/**
+ * Treat any error from a generation as a GenerationError (network failures become `unknown`)
+ */
+export function toGenerationError(error: any): GenerationError {
+  if (error instanceof GenerationError) return error;
+  return new GenerationError('unknown', error?.message || String(error));
+}
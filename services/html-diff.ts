@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Line diff of two HTML documents, for comparing revisions of a creation
+ */
+
+export type DiffLine =
+  | { type: 'same' | 'added' | 'removed'; text: string; oldLine?: number; newLine?: number }
+  | { type: 'skipped'; count: number }; // Unchanged lines collapsed away from the changes
+
+export interface HtmlDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+}
+
+// Above this (lines before × lines after, once the common start and end are trimmed)
+// the changed block is shown as removed + added instead of computing the LCS table
+const MAX_DIFF_CELLS = 4_000_000;
+
+type Change = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Longest common subsequence walk over the changed middle part
+function diffMiddle(before: string[], after: string[]): Change[] {
+  const n = before.length;
+  const m = after.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...before.map((text) => ({ type: 'removed' as const, text })),
+      ...after.map((text) => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of before[i..] and after[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = before[i] === after[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const changes: Change[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      changes.push({ type: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      changes.push({ type: 'removed', text: before[i++] });
+    } else {
+      changes.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < n) changes.push({ type: 'removed', text: before[i++] });
+  while (j < m) changes.push({ type: 'added', text: after[j++] });
+  return changes;
+}
+
+/**
+ * Diff two documents line by line. Unchanged stretches further than `context` lines
+ * from a change are collapsed into `skipped` entries.
+ */
+export function diffHtml(before: string, after: string, context = 3): HtmlDiff {
+  const a = before.replace(/\r\n/g, '\n').split('\n');
+  const b = after.replace(/\r\n/g, '\n').split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const changes: Change[] = [
+    ...a.slice(0, start).map((text) => ({ type: 'same' as const, text })),
+    ...diffMiddle(a.slice(start, a.length - end), b.slice(start, b.length - end)),
+    ...a.slice(a.length - end).map((text) => ({ type: 'same' as const, text })),
+  ];
+
+  // Number the lines, and mark which unchanged ones are close enough to a change to show
+  let oldLine = 0;
+  let newLine = 0;
+  const numbered = changes.map((change) => ({
+    ...change,
+    oldLine: change.type === 'added' ? undefined : ++oldLine,
+    newLine: change.type === 'removed' ? undefined : ++newLine,
+  }));
+  const visible = numbered.map((change) => change.type !== 'same');
+  numbered.forEach((change, index) => {
+    if (change.type === 'same') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(numbered.length - 1, index + context); k++) visible[k] = true;
+  });
+
+  const lines: DiffLine[] = [];
+  let skipped = 0;
+  numbered.forEach((change, index) => {
+    if (!visible[index]) {
+      skipped++;
+      return;
+    }
+    if (skipped > 0) lines.push({ type: 'skipped', count: skipped });
+    skipped = 0;
+    lines.push(change);
+  });
+  if (skipped > 0) lines.push({ type: 'skipped', count: skipped });
+
+  return {
+    lines,
+    added: changes.filter((change) => change.type === 'added').length,
+    removed: changes.filter((change) => change.type === 'removed').length,
+  };
+}
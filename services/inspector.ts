@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Click-to-edit helpers. An element picked in the live preview is located in the creation's
+ * source HTML by a structural selector, rewritten on the server on its own and spliced back into
+ * the source (the rest of the document is left exactly as it was written).
+ */
+
+/**
+ * An element picked in the preview
+ */
+export interface ElementSelection {
+  selector: string; // Structural CSS selector from <body>, e.g. "body > main:nth-of-type(1) > section:nth-of-type(2)"
+  tagName: string; // Lower case
+  outerHTML: string; // From the creation's source HTML (not the live DOM, which scripts may have changed)
+}
+
+const SIMPLE_ID = /^[A-Za-z][\w-]*$/;
+
+// Tag scanning, as in server/html-validation.js
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+const TAG_NAME = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)/y;
+
+/**
+ * A tag as written in the source: `start` is the index of its `<`, `end` the index after its `>`
+ */
+interface SourceTag {
+  name: string; // Lower case
+  closing: boolean;
+  selfClosing: boolean;
+  start: number;
+  end: number;
+}
+
+/**
+ * Build a selector for an element of the preview document. Unique ids are used as anchors;
+ * otherwise every step is `tag:nth-of-type(n)` so the same path resolves in the source HTML.
+ */
+export function elementSelector(element: Element): string {
+  const doc = element.ownerDocument;
+  const steps: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== doc.body && current !== doc.documentElement) {
+    const id = current.getAttribute('id');
+    if (id && SIMPLE_ID.test(id) && doc.querySelectorAll(`#${id}`).length === 1) {
+      steps.unshift(`#${id}`);
+      return steps.join(' > ');
+    }
+
+    const tag = current.tagName.toLowerCase();
+    let index = 1;
+    for (let sibling = current.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.tagName === current.tagName) index++;
+    }
+    steps.unshift(`${tag}:nth-of-type(${index})`);
+    current = current.parentElement;
+  }
+
+  steps.unshift('body');
+  return steps.join(' > ');
+}
+
+function parseDocument(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+function serializeDocument(doc: Document): string {
+  const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : '';
+  return `${doctype}${doc.documentElement.outerHTML}`;
+}
+
+// Index of the `>` closing the tag opened at `start` (skips quoted attribute values), or -1
+function findTagEnd(html: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// The document's tags in source order (comments, doctypes and raw text contents skipped)
+function scanTags(html: string): SourceTag[] {
+  const tags: SourceTag[] = [];
+  const lower = html.toLowerCase();
+  let i = 0;
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    if (lt === -1) break;
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      if (end === -1) break;
+      i = end + 3;
+      continue;
+    }
+    if (html.startsWith('<!', lt) || html.startsWith('<?', lt)) {
+      const end = html.indexOf('>', lt);
+      if (end === -1) break;
+      i = end + 1;
+      continue;
+    }
+
+    TAG_NAME.lastIndex = lt;
+    const match = TAG_NAME.exec(html);
+    if (!match) {
+      // A literal `<` in text
+      i = lt + 1;
+      continue;
+    }
+    const end = findTagEnd(html, lt);
+    if (end === -1) break;
+
+    const name = match[2].toLowerCase();
+    const closing = match[1] === '/';
+    tags.push({ name, closing, selfClosing: !closing && html[end - 1] === '/', start: lt, end: end + 1 });
+    i = end + 1;
+
+    if (!closing && RAW_TEXT_ELEMENTS.has(name)) {
+      const close = lower.indexOf(`</${name}`, i);
+      if (close === -1) break;
+      i = close;
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Where an element of `doc` (parsed from `html`) is written in `html`: from its start tag (the
+ * same one by count among tags of its name) to the matching end tag. Null when the source doesn't
+ * map onto the element that way (tags the parser implied or moved, end tags left out...).
+ */
+function findSourceRange(html: string, doc: Document, element: Element): { start: number; end: number } | null {
+  const name = element.tagName.toLowerCase();
+  const index = Array.from(doc.getElementsByTagName(element.tagName)).indexOf(element);
+  const tags = scanTags(html).filter((tag) => tag.name === name);
+  const starts = tags.filter((tag) => !tag.closing);
+  const startTag = starts[index];
+  if (index === -1 || !startTag) return null;
+
+  let end = -1;
+  if (VOID_ELEMENTS.has(name) || startTag.selfClosing) {
+    end = startTag.end;
+  } else {
+    let depth = 0;
+    for (const tag of tags.slice(tags.indexOf(startTag))) {
+      if (!tag.closing && !tag.selfClosing) depth++;
+      if (tag.closing) depth--;
+      if (depth === 0) {
+        end = tag.end;
+        break;
+      }
+    }
+  }
+  if (end === -1) return null;
+
+  // The source range must parse back to the same element
+  const template = doc.createElement('template');
+  template.innerHTML = html.slice(startTag.start, end);
+  const parsed = template.content;
+  if (parsed.childNodes.length !== 1 || parsed.firstElementChild?.outerHTML !== element.outerHTML) return null;
+  return { start: startTag.start, end };
+}
+
+/**
+ * Find a picked element in the creation's source HTML.
+ * Returns null when it doesn't exist there (e.g. it was created by the page's scripts).
+ */
+export function findSourceElement(html: string, selector: string, tagName: string): ElementSelection | null {
+  let element: Element | null = null;
+  try {
+    element = parseDocument(html).querySelector(selector);
+  } catch {
+    return null;
+  }
+  if (!element || element.tagName.toLowerCase() !== tagName) return null;
+  return { selector, tagName, outerHTML: element.outerHTML };
+}
+
+/**
+ * Replace one element of a document with a rewritten fragment, spliced in where the element is
+ * written in the source
+ */
+export function patchFragment(html: string, selector: string, fragment: string): string {
+  const doc = parseDocument(html);
+  const element = doc.querySelector(selector);
+  if (!element) {
+    throw new Error('The selected element is no longer in the page. Select it again.');
+  }
+
+  const range = findSourceRange(html, doc, element);
+  if (range) return `${html.slice(0, range.start)}${fragment}${html.slice(range.end)}`;
+
+  // The element has no exact source range: replace it in the parsed document instead, which
+  // normalises the markup of the whole document. A template parses the fragment in any context
+  // (table rows, list items...)
+  const template = doc.createElement('template');
+  template.innerHTML = fragment;
+  element.replaceWith(...Array.from(template.content.childNodes));
+  return serializeDocument(doc);
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { HtmlWarning } from './gemini';
+import { getAuthToken } from './auth-api';
+
+import { API_BASE_URL } from '../config/api';
+
+/**
+ * What produced a revision: the original generation, a regeneration, a refinement, a
+ * click-to-edit element edit, a structural repair or a restore of an older revision
+ */
+export type RevisionKind = 'generation' | 'regeneration' | 'refinement' | 'edit' | 'repair' | 'restore';
+
+/**
+ * Describes a new HTML sent with a creation update (the server appends it as a revision)
+ */
+export interface RevisionInfo {
+  kind: Exclude<RevisionKind, 'generation' | 'restore'>;
+  instruction?: string;
+  model?: string;
+}
+
+/**
+ * One saved version of a creation's HTML
+ */
+export interface CreationRevision {
+  revision: number; // 1 = first saved version
+  kind: RevisionKind;
+  instruction: string | null;
+  model: string | null;
+  size: number; // HTML length
+  createdAt: Date;
+  html?: string; // Only when fetched on its own
+}
+
+function toRevision(item: any): CreationRevision {
+  return { ...item, createdAt: new Date(item.createdAt) };
+}
+
+/**
+ * Fetch a creation's revisions, newest first (without their HTML)
+ */
+export async function fetchRevisions(creationId: string): Promise<{ revisions: CreationRevision[]; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/creations/${creationId}/revisions`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (response.status === 404) {
+      return { revisions: [], error: 'Revision history is available once this creation is saved to your archive.' };
+    }
+    if (!response.ok) {
+      return { revisions: [], error: 'Failed to fetch revisions' };
+    }
+
+    const data = await response.json();
+    return { revisions: (data.revisions || []).map(toRevision), error: null };
+  } catch (error: any) {
+    return { revisions: [], error: error.message };
+  }
+}
+
+/**
+ * Fetch one revision with its HTML
+ */
+export async function fetchRevision(
+  creationId: string,
+  revision: number
+): Promise<{ revision: CreationRevision | null; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/creations/${creationId}/revisions/${revision}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      return { revision: null, error: 'Failed to fetch revision' };
+    }
+
+    const data = await response.json();
+    return { revision: toRevision(data.revision), error: null };
+  } catch (error: any) {
+    return { revision: null, error: error.message };
+  }
+}
+
+/**
+ * Make an older revision current again. The server appends it as a new revision,
+ * so the versions in between stay in the history.
+ */
+export async function restoreRevision(
+  creationId: string,
+  revision: number
+): Promise<{ restored: { html: string; revision: number; updatedAt: Date; warnings: HtmlWarning[] } | null; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/creations/${creationId}/revisions/${revision}/restore`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      return { restored: null, error: error.error || 'Failed to restore revision' };
+    }
+
+    const data = await response.json();
+    return {
+      restored: { html: data.html, revision: data.revision, updatedAt: new Date(data.updated_at), warnings: data.warnings || [] },
+      error: null,
+    };
+  } catch (error: any) {
+    return { restored: null, error: error.message };
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Helpers for decks generated in 'slides' mode. Every deck carries the runtime added in
+ * server/slides.js: slides are <section class="slide"> with <aside class="notes">, and the
+ * deck talks to its parent / opener with `fanta-slides` messages.
+ * Decks are generated or imported HTML: they only ever run in frames sandboxed without the app's
+ * origin (DECK_SANDBOX), so their scripts can't reach the app's storage or DOM. Everything the app
+ * needs from a deck goes through those messages.
+ */
+
+// Message type of the deck runtime (kept in sync with server/slides.js)
+export const SLIDES_MESSAGE_TYPE = 'fanta-slides';
+
+// Fixed design size of a slide
+export const SLIDE_WIDTH = 1280;
+export const SLIDE_HEIGHT = 720;
+
+// Time the deck gets to load its fonts and CDN styles before printing
+const PRINT_SETTLE_MS = 800;
+
+// Sandbox of every frame a deck runs in: scripts and print dialogs, but an opaque origin
+export const DECK_SANDBOX = 'allow-scripts allow-modals';
+
+// Added to a deck printed by printDeck: prints on request (the frame's window can't be reached
+// from the app) and reports when the dialog closed
+const PRINT_SCRIPT = `<script>
+window.addEventListener('message', function (event) {
+  var data = event.data;
+  if (!data || data.type !== '${SLIDES_MESSAGE_TYPE}' || !data.print) return;
+  document.title = String(data.title || document.title);
+  window.addEventListener('afterprint', function () {
+    parent.postMessage({ type: '${SLIDES_MESSAGE_TYPE}', printed: true }, '*');
+  }, { once: true });
+  window.focus();
+  window.print();
+});
+</script>`;
+
+/**
+ * A slide change reported by a deck ({ type: 'fanta-slides', index, count })
+ */
+export interface SlideChange {
+  index: number;
+  count: number;
+}
+
+/**
+ * Read a slide change from a `message` event (null for any other message)
+ */
+export function readSlideChange(event: MessageEvent): SlideChange | null {
+  const data = event.data;
+  if (data?.type !== SLIDES_MESSAGE_TYPE || typeof data.index !== 'number') return null;
+  return { index: data.index, count: data.count };
+}
+
+/**
+ * Tell a deck (iframe window or popup) to show a slide
+ */
+export function goToSlide(target: Window | null | undefined, index: number) {
+  target?.postMessage({ type: SLIDES_MESSAGE_TYPE, goto: index }, '*');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * A deck opened in its own window (see openDeckWindow)
+ */
+export interface DeckWindow {
+  goTo: (index: number) => void;
+  close: () => void;
+}
+
+/**
+ * Open a deck in a window of its own (the audience view on a second screen), at slide `index`.
+ * The window is a blob page opened without an opener that runs the deck in a sandboxed frame;
+ * it relays the deck's messages over a BroadcastChannel, so `onSlideChange` hears about
+ * navigation there and `goTo` moves it.
+ */
+export function openDeckWindow(
+  html: string,
+  title: string,
+  index: number,
+  onSlideChange: (change: SlideChange) => void,
+): DeckWindow {
+  const channelName = `${SLIDES_MESSAGE_TYPE}-${crypto.randomUUID()}`;
+  const page = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>html, body { margin: 0; height: 100%; background: #000; } iframe { display: block; width: 100%; height: 100%; border: 0; }</style>
+</head><body>
+<iframe sandbox="${DECK_SANDBOX}" srcdoc="${escapeHtml(html)}"></iframe>
+<script>
+var channel = new BroadcastChannel(${JSON.stringify(channelName)});
+var frame = document.querySelector('iframe');
+var start = ${Number(index) || 0};
+frame.addEventListener('load', function () {
+  frame.contentWindow.postMessage({ type: '${SLIDES_MESSAGE_TYPE}', goto: start }, '*');
+  frame.focus();
+});
+window.addEventListener('message', function (event) {
+  if (event.source === frame.contentWindow && event.data && event.data.type === '${SLIDES_MESSAGE_TYPE}') {
+    channel.postMessage({ type: '${SLIDES_MESSAGE_TYPE}', index: event.data.index, count: event.data.count });
+  }
+});
+channel.onmessage = function (event) {
+  var data = event.data || {};
+  if (data.close) return window.close();
+  if (typeof data.goto === 'number') {
+    start = data.goto;
+    frame.contentWindow.postMessage({ type: '${SLIDES_MESSAGE_TYPE}', goto: data.goto }, '*');
+  }
+};
+</script>
+</body></html>`;
+
+  const url = URL.createObjectURL(new Blob([page], { type: 'text/html' }));
+  const channel = new BroadcastChannel(channelName);
+  channel.onmessage = (event) => {
+    const change = readSlideChange(event);
+    if (change) onSlideChange(change);
+  };
+  window.open(url, 'fanta-slides-audience', 'noopener,width=1280,height=720');
+
+  return {
+    goTo: (target) => channel.postMessage({ type: SLIDES_MESSAGE_TYPE, goto: target }),
+    close: () => {
+      channel.postMessage({ type: SLIDES_MESSAGE_TYPE, close: true });
+      channel.close();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+/**
+ * Speaker notes of every slide, in order ('' for slides without notes)
+ */
+export function getSpeakerNotes(html: string): string[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('.slide')).map((slide) =>
+    (slide.querySelector('aside.notes, .notes')?.textContent || '').trim(),
+  );
+}
+
+/**
+ * Open the browser's print dialog for a deck (one slide per page; "Save as PDF" exports it)
+ */
+export function printDeck(html: string, title: string): Promise<void> {
+  return new Promise((resolve) => {
+    const iframe = document.createElement('iframe');
+    // Laid out at slide size but off-screen: hidden iframes don't print
+    iframe.style.cssText = `position:fixed;left:-10000px;top:0;width:${SLIDE_WIDTH}px;height:${SLIDE_HEIGHT}px;border:0;`;
+    iframe.setAttribute('sandbox', DECK_SANDBOX);
+    iframe.srcdoc = `${html}\n${PRINT_SCRIPT}`;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source === iframe.contentWindow && event.data?.type === SLIDES_MESSAGE_TYPE && event.data.printed) cleanup();
+    };
+    const cleanup = () => {
+      window.removeEventListener('message', handleMessage);
+      iframe.remove();
+      resolve();
+    };
+
+    iframe.onload = () => {
+      window.addEventListener('message', handleMessage);
+      // The PDF file name defaults to the document title
+      setTimeout(() => {
+        iframe.contentWindow?.postMessage({ type: SLIDES_MESSAGE_TYPE, print: true, title }, '*');
+      }, PRINT_SETTLE_MS);
+    };
+
+    document.body.appendChild(iframe);
+  });
+}
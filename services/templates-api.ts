@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationMode } from './gemini';
+import { getAuthToken } from './auth-api';
+
+import { API_BASE_URL } from '../config/api';
+
+/**
+ * A prompt template for one generation mode.
+ * `{placeholder}` fields in the body are filled in before submitting.
+ */
+export interface PromptTemplate {
+  id: string;
+  mode: GenerationMode;
+  name: string;
+  body: string;
+  curated: boolean; // Built-in (can't be deleted)
+}
+
+const PLACEHOLDER_PATTERN = /\{([a-zA-Z][\w ]{0,30})\}/g;
+
+/**
+ * Placeholder names in a prompt, in order of first appearance
+ */
+export function getPlaceholders(text: string): string[] {
+  const names = Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace `{placeholder}` fields with their values (unknown ones are kept as-is)
+ */
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (field, name) => values[name]?.trim() || field);
+}
+
+/**
+ * Fetch curated templates and the user's saved templates (all modes)
+ */
+export async function fetchTemplates(): Promise<{ templates: PromptTemplate[]; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/templates`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      return { templates: [], error: 'Failed to fetch templates' };
+    }
+
+    const data = await response.json();
+    return { templates: data.templates || [], error: null };
+  } catch (error: any) {
+    return { templates: [], error: error.message };
+  }
+}
+
+/**
+ * Save a prompt as a template for a generation mode
+ */
+export async function saveTemplate(
+  name: string,
+  body: string,
+  mode: GenerationMode
+): Promise<{ template: PromptTemplate | null; error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/templates`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+      body: JSON.stringify({ name, body, mode }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      return { template: null, error: error.error || 'Failed to save template' };
+    }
+
+    const data = await response.json();
+    return { template: data.template, error: null };
+  } catch (error: any) {
+    return { template: null, error: error.message };
+  }
+}
+
+/**
+ * Delete a saved template
+ */
+export async function deleteTemplate(id: string): Promise<{ error: any }> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/templates/${id}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      return { error: 'Failed to delete template' };
+    }
+
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}